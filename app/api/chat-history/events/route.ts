@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { getSenderName } from '@/lib/chat';
+import { getChatHistoryStore } from '@/lib/chatHistory';
+import { parseChatEvent } from '@/lib/chatEvents';
+import { authorizeRoomRequest, requireCallerParty, requireChatAllowed } from '@/lib/requestAuth';
+import { getRoleCapabilities } from '@/lib/roles';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Persists a reaction or edit the caller sent, so later joiners and transcripts see it.
+ * The sender is taken from the access token and edits follow the chat policy like new
+ * messages. Deleted messages are removed through `DELETE /api/chat-history` instead.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName);
+    const store = getChatHistoryStore();
+    if (!store) {
+      throw new ApiError(404, 'chat_history_disabled', 'Chat history is not enabled');
+    }
+    const { partyId } = await requireCallerParty(roomName, caller.identity);
+
+    const event = parseChatEvent((await readJsonBody(req)).event);
+    if (!event || event.type === 'delete') {
+      throw new ApiError(400, 'invalid_event', 'Expected a reaction or edit');
+    }
+    if (event.type === 'edit') {
+      await requireChatAllowed(roomName, caller, event.text);
+    }
+
+    await store.applyEvent(partyId, event, {
+      identity: caller.identity,
+      name: getSenderName({ identity: caller.identity, name: caller.claims.name }),
+      isModerator: getRoleCapabilities(caller.role).canModerate,
+    });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AccessToken } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import { CHAT_PROTOCOL_VERSION } from '@/lib/chatEvents';
+import { InMemoryChatHistoryStore, setChatHistoryStore } from '@/lib/chatHistory';
+import { createRoomRecord, InMemoryRoomRegistry, setRoomRegistry } from '@/lib/roomRegistry';
+import { GET } from './route';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+vi.mock('@/lib/roomService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/roomService')>()),
+  getRoomServiceClient: () => ({
+    getParticipant: async (_room: string, identity: string) => ({
+      identity,
+      metadata: JSON.stringify({ role: 'host' }),
+    }),
+    listRooms: async () => [
+      { name: 'room', metadata: JSON.stringify({ chatPolicy: { blockedWords: ['spoiler'] } }) },
+    ],
+  }),
+}));
+
+async function exportTranscript(format = 'json') {
+  const at = new AccessToken(API_KEY, API_SECRET, {
+    identity: 'host__abcd',
+    metadata: JSON.stringify({ role: 'host' }),
+  });
+  at.addGrant({ room: 'room', roomJoin: true });
+  const url = `http://localhost/api/chat-history/export?roomName=room&format=${format}`;
+  const request = new NextRequest(url, {
+    headers: { Authorization: `Bearer ${await at.toJwt()}` },
+  });
+  return GET(request);
+}
+
+describe('GET /api/chat-history/export', () => {
+  const env = { ...process.env };
+  let store: InMemoryChatHistoryStore;
+  let partyId: string;
+
+  beforeAll(() => {
+    process.env.LIVEKIT_API_KEY = API_KEY;
+    process.env.LIVEKIT_API_SECRET = API_SECRET;
+  });
+  afterAll(() => {
+    process.env = env;
+    setChatHistoryStore(null);
+  });
+  beforeEach(async () => {
+    store = new InMemoryChatHistoryStore();
+    setChatHistoryStore(store);
+    const registry = new InMemoryRoomRegistry();
+    setRoomRegistry(registry);
+    const record = await registry.getOrCreate('room', () => ({
+      ...createRoomRecord('room', 'host-session'),
+      participantSessions: { host__abcd: 'host-session' },
+    }));
+    partyId = record.partyId;
+  });
+
+  it('includes persisted reactions and edits and masks blocked words', async () => {
+    const friend = { identity: 'friend__ef56', name: 'Friend' };
+    await store.append(partyId, {
+      id: 'm1',
+      timestamp: 1,
+      message: JSON.stringify({ text: 'hi' }),
+      from: friend,
+    });
+    await store.applyEvent(
+      partyId,
+      {
+        v: CHAT_PROTOCOL_VERSION,
+        messageId: 'm1',
+        type: 'edit',
+        text: 'the spoiler is here',
+        editedAt: 2,
+      },
+      { ...friend, isModerator: false },
+    );
+    await store.applyEvent(
+      partyId,
+      { v: CHAT_PROTOCOL_VERSION, messageId: 'm1', type: 'reaction', emoji: '🔥', action: 'add' },
+      { identity: 'host__abcd', name: 'Host', isModerator: true },
+    );
+
+    const response = await exportTranscript();
+    expect(response.status).toBe(200);
+    const [message] = (await response.json()).entries;
+    expect(message).toMatchObject({
+      text: 'the ******* is here',
+      reactions: [{ emoji: '🔥', count: 1, names: ['Host'] }],
+    });
+    expect(message.editedAt).toBeDefined();
+  });
+
+  it('rejects formats inherited from Object.prototype', async () => {
+    for (const format of ['toString', 'constructor', '__proto__']) {
+      expect((await exportTranscript(format)).status).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { getPersistedStates } from '@/lib/chatEvents';
+import { getChatHistoryStore } from '@/lib/chatHistory';
+import { parseChatPolicy } from '@/lib/chatModeration';
+import {
+  buildChatTranscript,
+  CHAT_TRANSCRIPT_FORMATS,
+  ChatSystemEvent,
+  formatChatTranscript,
+  getChatTranscriptFilename,
+  isChatTranscriptFormat,
+  toChatSystemEvent,
+} from '@/lib/chatTranscript';
+import { authorizeRoomModerator } from '@/lib/requestAuth';
+import { getRoomEventStore } from '@/lib/roomEvents';
+import { getRoomMetadata, getRoomServiceClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+
+/** Upper bound for the room events listed in a transcript */
+const MAX_EVENTS = 1000;
+
+/**
+ * Downloads the persisted chat of the room's current party as `?format=json|markdown|txt`,
+ * so hosts can archive a session. Messages show their persisted reactions and edits, and
+ * joins, leaves, recordings and streams reported by webhooks are listed between them.
+ * Blocked words of the room's chat policy are masked as long as the room is running.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const { record, partyIds } = await authorizeRoomModerator(req, roomName);
+    if (!partyIds.includes(record.partyId)) {
+      throw new ApiError(403, 'not_host', 'Only the host can perform this action');
+    }
+    const store = getChatHistoryStore();
+    if (!store) {
+      throw new ApiError(404, 'chat_history_disabled', 'Chat history is not enabled');
+    }
+    const format = req.nextUrl.searchParams.get('format') ?? 'json';
+    if (!isChatTranscriptFormat(format)) {
+      throw new ApiError(400, 'invalid_format', 'Expected format json, markdown or txt');
+    }
+
+    const events = getRoomEventStore();
+    const systemEvents: ChatSystemEvent[] = [];
+    for (const event of await events.list(roomName, MAX_EVENTS)) {
+      // Events of earlier parties with the same room name
+      if (event.createdAt < record.createdAt) {
+        continue;
+      }
+      const isRecording = !!event.egressId && !!(await events.getRecording(event.egressId));
+      const systemEvent = toChatSystemEvent(event, isRecording);
+      if (systemEvent) {
+        systemEvents.push(systemEvent);
+      }
+    }
+
+    const messages = await store.list(record.partyId, Infinity);
+    const metadata = await getRoomMetadata(getRoomServiceClient(), roomName);
+    const exportedAt = Date.now();
+    const transcript = buildChatTranscript(roomName, messages, {
+      states: getPersistedStates(messages),
+      systemEvents,
+      blockedWords: parseChatPolicy(metadata?.chatPolicy).blockedWords,
+      exportedAt,
+    });
+    const filename = getChatTranscriptFilename(roomName, format, exportedAt);
+    return new NextResponse(formatChatTranscript(transcript, format), {
+      headers: {
+        'Content-Type': CHAT_TRANSCRIPT_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
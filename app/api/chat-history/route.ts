@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { parseChatPayload } from '@/lib/chat';
+import { getAttachment } from '@/lib/chatAttachments';
+import { getChatHistoryStore } from '@/lib/chatHistory';
+import { authorizeRoomRequest, requireCallerParty, requireChatAllowed } from '@/lib/requestAuth';
+import { getRoleCapabilities } from '@/lib/roles';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+/** Upper bound for a serialized chat message payload */
+const MAX_MESSAGE_LENGTH = 8 * 1024;
+
+function requireStore() {
+  const store = getChatHistoryStore();
+  if (!store) {
+    throw new ApiError(404, 'chat_history_disabled', 'Chat history is not enabled');
+  }
+  return store;
+}
+
+/**
+ * Returns the last messages of the room's current party so late joiners can catch up,
+ * each with the reactions and edits it received.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName);
+    const store = requireStore();
+    const { partyId } = await requireCallerParty(roomName, caller.identity);
+
+    const limitParam = Number(req.nextUrl.searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isInteger(limitParam)
+      ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    const messages = await store.list(partyId, limit);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+/**
+ * Persists a message the caller has sent. The sender is taken from the access token,
+ * so participants can't store messages on behalf of others. Messages the room's chat policy
+ * doesn't allow, e.g. from muted participants, are refused.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName);
+    const store = requireStore();
+    const { partyId } = await requireCallerParty(roomName, caller.identity);
+
+    const { id, timestamp, message } = await readJsonBody(req);
+    if (
+      typeof id !== 'string' ||
+      !id ||
+      typeof timestamp !== 'number' ||
+      typeof message !== 'string'
+    ) {
+      throw new ApiError(400, 'invalid_message', 'Expected id, timestamp and message');
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      throw new ApiError(413, 'message_too_large', 'Chat message is too large');
+    }
+    const payload = parseChatPayload(message);
+    await requireChatAllowed(roomName, caller, payload.text, !!getAttachment(payload));
+
+    await store.append(partyId, {
+      id,
+      timestamp,
+      message,
+      from: { identity: caller.identity, name: caller.claims.name },
+    });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+/**
+ * Removes a deleted message, so it isn't replayed to later joiners. Moderators can remove
+ * any message, other participants only their own.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName);
+    const store = requireStore();
+    const { partyId } = await requireCallerParty(roomName, caller.identity);
+
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      throw new ApiError(400, 'missing_id', 'Missing id parameter');
+    }
+    if (!getRoleCapabilities(caller.role).canModerate) {
+      const messages = await store.list(partyId, Infinity);
+      const message = messages.find((m) => m.id === id);
+      if (message && message.from.identity !== caller.identity) {
+        throw new ApiError(403, 'not_message_author', 'Only the author can delete this message');
+      }
+    }
+    await store.remove(partyId, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AccessToken, TokenVerifier } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import { createRoomRecord, InMemoryRoomRegistry, setRoomRegistry } from '@/lib/roomRegistry';
+import { POST } from './route';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+/** Identities currently connected to the room */
+const connected = new Set<string>();
+/** Identities the room's chat policy mutes */
+const muted: string[] = [];
+
+vi.mock('@/lib/roomService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/roomService')>()),
+  getRoomServiceClient: () => ({
+    getParticipant: async (_room: string, identity: string) => {
+      if (!connected.has(identity)) {
+        throw new Error('participant not found');
+      }
+      return { identity, metadata: JSON.stringify({ role: 'viewer' }) };
+    },
+    listRooms: async () => [
+      { name: 'room', metadata: JSON.stringify({ chatPolicy: { mutedIdentities: muted } }) },
+    ],
+  }),
+}));
+
+async function refresh(identity: string) {
+  const at = new AccessToken(API_KEY, API_SECRET, {
+    identity,
+    metadata: JSON.stringify({ role: 'viewer' }),
+  });
+  at.addGrant({ room: 'room', roomJoin: true });
+  const request = new NextRequest('http://localhost/api/connection-details/refresh?roomName=room', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await at.toJwt()}` },
+  });
+  return POST(request);
+}
+
+describe('POST /api/connection-details/refresh', () => {
+  const env = { ...process.env };
+  let registry: InMemoryRoomRegistry;
+
+  beforeAll(() => {
+    process.env.LIVEKIT_API_KEY = API_KEY;
+    process.env.LIVEKIT_API_SECRET = API_SECRET;
+  });
+  afterAll(() => {
+    process.env = env;
+  });
+  beforeEach(async () => {
+    connected.clear();
+    muted.length = 0;
+    registry = new InMemoryRoomRegistry();
+    setRoomRegistry(registry);
+    await registry.getOrCreate('room', () => ({
+      ...createRoomRecord('room', 'host-session'),
+      participantSessions: { friend__ef56: 'friend-session' },
+    }));
+  });
+
+  it('refreshes the token of a connected participant', async () => {
+    connected.add('friend__ef56');
+    const response = await refresh('friend__ef56');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ participantRole: 'viewer' });
+  });
+
+  it('lets a participant rejoin an open room', async () => {
+    expect((await refresh('friend__ef56')).status).toBe(200);
+  });
+
+  it('removed participant cannot refresh', async () => {
+    await registry.update('room', (record) => ({
+      ...record,
+      removedSessions: ['friend-session'],
+    }));
+    const response = await refresh('friend__ef56');
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'participant_removed' },
+    });
+  });
+
+  it('keeps disconnected participants out of locked rooms and the lobby', async () => {
+    await registry.update('room', (record) => ({ ...record, locked: true }));
+    expect((await refresh('friend__ef56')).status).toBe(403);
+
+    await registry.update('room', (record) => ({ ...record, locked: false, lobbyEnabled: true }));
+    expect((await refresh('friend__ef56')).status).toBe(403);
+
+    await registry.update('room', (record) => ({
+      ...record,
+      admittedSessions: ['friend-session'],
+    }));
+    expect((await refresh('friend__ef56')).status).toBe(200);
+  });
+
+  it('keeps muted participants from sending data messages', async () => {
+    connected.add('friend__ef56');
+    muted.push('friend__ef56');
+    const response = await refresh('friend__ef56');
+    const { participantToken } = await response.json();
+    const claims = await new TokenVerifier(API_KEY, API_SECRET).verify(participantToken);
+    expect(claims.video?.canPublishData).toBe(false);
+  });
+
+  it('refuses tokens of an earlier party', async () => {
+    expect((await refresh('stranger__0000')).status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { createParticipantToken, TOKEN_REFRESH_GRACE_SECONDS } from '@/lib/participantToken';
+import { getRoleFromMetadata, parseParticipantMetadata } from '@/lib/roles';
+import { getRegisteredRole, getRoomRegistry } from '@/lib/roomRegistry';
+import { getRoomServiceClient, isChatMuted } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+import { RefreshedToken } from '@/lib/types';
+
+/**
+ * Trades a participant token that is about to expire, or expired recently, for a new one.
+ * The role is re-read from the participant's live metadata, so promotions by the host
+ * carry over into the new token.
+ *
+ * Removed participants are refused. Participants that are not connected only get a new
+ * token if they could join through `PreJoin` without asking the host: the room is not
+ * locked, and its lobby is disabled or already admitted them.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName, {
+      expiredGraceSeconds: TOKEN_REFRESH_GRACE_SECONDS,
+    });
+    const record = await getRoomRegistry().get(roomName);
+    // Tokens of an earlier party with the same room name have no session in this one
+    const session = record?.participantSessions[caller.identity];
+    if (!record || !session) {
+      throw new ApiError(404, 'room_not_found', 'This WatchParty has ended');
+    }
+    if (record.removedSessions.includes(session)) {
+      throw new ApiError(403, 'participant_removed', 'You were removed from this WatchParty');
+    }
+
+    let metadata: string;
+    try {
+      const participant = await getRoomServiceClient().getParticipant(roomName, caller.identity);
+      metadata = participant.metadata;
+    } catch {
+      // not connected right now, e.g. while rejoining
+      if (!getRegisteredRole(record, session)) {
+        if (record.locked) {
+          throw new ApiError(403, 'room_locked', 'The host has locked this room');
+        }
+        if (record.lobbyEnabled && !record.admittedSessions.includes(session)) {
+          throw new ApiError(403, 'lobby_required', 'Ask the host to let you in again');
+        }
+      }
+      // keep the metadata of the old token, with the role the participant has now
+      metadata = JSON.stringify({
+        ...parseParticipantMetadata(caller.claims.metadata),
+        role: caller.role,
+      });
+    }
+
+    const role = getRoleFromMetadata(metadata);
+    const participantToken = await createParticipantToken(
+      { identity: caller.identity, name: caller.claims.name, metadata },
+      roomName,
+      role,
+      await isChatMuted(getRoomServiceClient(), roomName, caller.identity, role),
+    );
+    const data: RefreshedToken = { participantToken, participantRole: role };
+    return NextResponse.json(data);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
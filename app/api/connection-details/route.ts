@@ -1,14 +1,26 @@
 import { randomString } from '@/lib/client-utils';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
 import { getLiveKitURL } from '@/lib/getLiveKitURL';
-import { ConnectionDetails } from '@/lib/types';
-import { AccessToken, AccessTokenOptions, VideoGrant } from 'livekit-server-sdk';
+import { checkLobbyAdmission, LobbyTicket } from '@/lib/lobby';
+import { createParticipantToken } from '@/lib/participantToken';
+import { getRoleCapabilities, isParticipantRole, parseParticipantMetadata } from '@/lib/roles';
+import { checkRoomPassword, getPasswordAttemptLimiter } from '@/lib/roomPassword';
+import {
+  bindParticipantSession,
+  getRoomRegistry,
+  resolveParticipantRole,
+} from '@/lib/roomRegistry';
+import { getRoomServiceClient, isChatMuted } from '@/lib/roomService';
+import { getClientAddress } from '@/lib/routeHelpers';
+import { getOrCreateSession, sessionCookie } from '@/lib/session';
+import { ConnectionDetails, ROOM_PASSWORD_HEADER } from '@/lib/types';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_KEY = process.env.LIVEKIT_API_KEY;
-const API_SECRET = process.env.LIVEKIT_API_SECRET;
 const LIVEKIT_URL = process.env.LIVEKIT_URL;
 
 const COOKIE_KEY = 'random-participant-postfix';
+/** Fresh postfixes tried when the participant's identity is held by another session */
+const MAX_IDENTITY_ATTEMPTS = 5;
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,6 +29,7 @@ export async function GET(request: NextRequest) {
     const participantName = request.nextUrl.searchParams.get('participantName');
     const metadata = request.nextUrl.searchParams.get('metadata') ?? '';
     const region = request.nextUrl.searchParams.get('region');
+    const requestedRole = request.nextUrl.searchParams.get('role') ?? undefined;
     if (!LIVEKIT_URL) {
       throw new Error('LIVEKIT_URL is not defined');
     }
@@ -32,18 +45,81 @@ export async function GET(request: NextRequest) {
     if (participantName === null) {
       return new NextResponse('Missing required query parameter: participantName', { status: 400 });
     }
+    if (requestedRole !== undefined && !isParticipantRole(requestedRole)) {
+      return new NextResponse(`Invalid role: ${requestedRole}`, { status: 400 });
+    }
 
-    // Generate participant token
+    // Resolve the participant's role, the first session to join a room becomes its host
+    const session = getOrCreateSession(request);
+    const registry = getRoomRegistry();
+    const role = await resolveParticipantRole(registry, roomName, session, requestedRole);
+
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    headers.append('Set-Cookie', sessionCookie(session));
+
+    // Hosts always get in, everyone else is turned away from locked rooms, has to know the
+    // room password if there is one and may have to wait in the lobby until admitted
+    if (!getRoleCapabilities(role).canModerate) {
+      if ((await registry.get(roomName))?.locked) {
+        return apiErrorResponse(new ApiError(403, 'room_locked', 'The host has locked this room'));
+      }
+      try {
+        await checkRoomPassword(
+          registry,
+          roomName,
+          session,
+          request.headers.get(ROOM_PASSWORD_HEADER),
+          getClientAddress(request),
+          getPasswordAttemptLimiter(),
+        );
+      } catch (error) {
+        return apiErrorResponse(error);
+      }
+      const admission = await checkLobbyAdmission(registry, roomName, session, participantName);
+      if (admission.status === 'denied') {
+        return apiErrorResponse(
+          new ApiError(403, 'lobby_denied', 'The host declined your request to join'),
+        );
+      }
+      if (admission.status === 'pending') {
+        const ticket: LobbyTicket = { status: 'pending', ticket: admission.ticket };
+        return new NextResponse(JSON.stringify(ticket), { status: 202, headers });
+      }
+    }
+
+    // Bind the identity to the session before issuing a token for it. If another session
+    // holds it already, e.g. through a copied postfix cookie, pick another postfix.
     if (!randomParticipantPostfix) {
       randomParticipantPostfix = randomString(4);
     }
+    let identity = `${participantName}__${randomParticipantPostfix}`;
+    for (let attempt = 1; ; attempt++) {
+      const record = await registry.update(roomName, (current) =>
+        bindParticipantSession(current, identity, session),
+      );
+      if (record?.participantSessions[identity] === session) {
+        break;
+      }
+      if (attempt === MAX_IDENTITY_ATTEMPTS) {
+        return apiErrorResponse(
+          new ApiError(409, 'identity_taken', 'Could not assign a participant identity'),
+        );
+      }
+      randomParticipantPostfix = randomString(4);
+      identity = `${participantName}__${randomParticipantPostfix}`;
+    }
+
+    // Generate participant token
     const participantToken = await createParticipantToken(
       {
-        identity: `${participantName}__${randomParticipantPostfix}`,
+        identity,
         name: participantName,
-        metadata,
+        // the role always comes from the server, never from client supplied metadata
+        metadata: JSON.stringify({ ...parseParticipantMetadata(metadata), role }),
       },
       roomName,
+      role,
+      await isChatMuted(getRoomServiceClient(), roomName, identity, role),
     );
 
     // Return connection details
@@ -52,13 +128,13 @@ export async function GET(request: NextRequest) {
       roomName: roomName,
       participantToken: participantToken,
       participantName: participantName,
+      participantRole: role,
     };
-    return new NextResponse(JSON.stringify(data), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Set-Cookie': `${COOKIE_KEY}=${randomParticipantPostfix}; Path=/; HttpOnly; SameSite=Strict; Secure; Expires=${getCookieExpirationTime()}`,
-      },
-    });
+    headers.append(
+      'Set-Cookie',
+      `${COOKIE_KEY}=${randomParticipantPostfix}; Path=/; HttpOnly; SameSite=Strict; Secure; Expires=${getCookieExpirationTime()}`,
+    );
+    return new NextResponse(JSON.stringify(data), { headers });
   } catch (error) {
     if (error instanceof Error) {
       return new NextResponse(error.message, { status: 500 });
@@ -66,20 +142,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function createParticipantToken(userInfo: AccessTokenOptions, roomName: string) {
-  const at = new AccessToken(API_KEY, API_SECRET, userInfo);
-  at.ttl = '5m';
-  const grant: VideoGrant = {
-    room: roomName,
-    roomJoin: true,
-    canPublish: true,
-    canPublishData: true,
-    canSubscribe: true,
-  };
-  at.addGrant(grant);
-  return at.toJwt();
-}
-
 function getCookieExpirationTime(): string {
   var now = new Date();
   var time = now.getTime();
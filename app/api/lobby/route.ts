@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { applyLobbyAction, getLobbyState, LobbyAction } from '@/lib/lobby';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+
+function isLobbyAction(action: unknown): action is LobbyAction {
+  if (!action || typeof action !== 'object') {
+    return false;
+  }
+  const { type, ticket, enabled } = action as Record<string, unknown>;
+  return (
+    ((type === 'admit' || type === 'deny') && typeof ticket === 'string') ||
+    (type === 'setEnabled' && typeof enabled === 'boolean')
+  );
+}
+
+/**
+ * Returns whether the lobby is enabled and who is waiting in it.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+
+    const record = await getRoomRegistry().get(roomName);
+    if (!record) {
+      throw new ApiError(404, 'unknown_room', `Room ${roomName} does not exist`);
+    }
+    return NextResponse.json(getLobbyState(record));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+/**
+ * Admits or denies a waiting joiner, or turns the lobby on and off.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+
+    const action = await readJsonBody(req);
+    if (!isLobbyAction(action)) {
+      throw new ApiError(400, 'invalid_action', 'Expected an admit, deny or setEnabled action');
+    }
+
+    const record = await applyLobbyAction(getRoomRegistry(), roomName, action);
+    if (!record) {
+      throw new ApiError(404, 'unknown_room', `Room ${roomName} does not exist`);
+    }
+    return NextResponse.json(getLobbyState(record));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
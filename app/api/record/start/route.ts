@@ -1,70 +1,53 @@
-import { EgressClient, EncodedFileOutput, S3Upload } from 'livekit-server-sdk';
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import {
+  buildRecordingOutput,
+  parseRecordingOptions,
+  startRecordingEgress,
+  toS3Upload,
+} from '@/lib/recordingEgress';
+import { authorizeRoomRequest, requireCallerParty } from '@/lib/requestAuth';
+import { getRoomEventStore, isStreamEgress, saveEgressRecording } from '@/lib/roomEvents';
+import { getEgressClient, getRoomServiceClient } from '@/lib/roomService';
+import { getS3Config } from '@/lib/s3';
 
 export async function GET(req: NextRequest) {
   try {
     const roomName = req.nextUrl.searchParams.get('roomName');
 
-    /**
-     * CAUTION:
-     * for simplicity this implementation does not authenticate users and therefore allows anyone with knowledge of a roomName
-     * to start/stop recordings for that room.
-     * DO NOT USE THIS FOR PRODUCTION PURPOSES AS IS
-     */
-
     if (roomName === null) {
-      return new NextResponse('Missing roomName parameter', { status: 403 });
+      throw new ApiError(400, 'missing_room_name', 'Missing roomName parameter');
     }
 
-    const {
-      LIVEKIT_API_KEY,
-      LIVEKIT_API_SECRET,
-      LIVEKIT_URL,
-      S3_KEY_ID,
-      S3_KEY_SECRET,
-      S3_BUCKET,
-      S3_ENDPOINT,
-      S3_REGION,
-    } = process.env;
-
-    const hostURL = new URL(LIVEKIT_URL!);
-    hostURL.protocol = 'https:';
+    // Only the room's host may start or stop recordings
+    const caller = await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const { partyId } = await requireCallerParty(roomName, caller.identity);
+    const options = parseRecordingOptions(req.nextUrl.searchParams);
 
-    const egressClient = new EgressClient(hostURL.origin, LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+    const egressClient = getEgressClient();
 
-    const existingEgresses = await egressClient.listEgress({ roomName });
+    // Streams to RTMP destinations run independently of recordings
+    const existingEgresses = (await egressClient.listEgress({ roomName })).filter(
+      (e) => !isStreamEgress(e),
+    );
     if (existingEgresses.length > 0 && existingEgresses.some((e) => e.status < 2)) {
-      return new NextResponse('Meeting is already being recorded', { status: 409 });
+      throw new ApiError(409, 'already_recording', 'Meeting is already being recorded');
     }
 
-    const fileOutput = new EncodedFileOutput({
-      filepath: `${new Date(Date.now()).toISOString()}-${roomName}.mp4`,
-      output: {
-        case: 's3',
-        value: new S3Upload({
-          endpoint: S3_ENDPOINT,
-          accessKey: S3_KEY_ID,
-          secret: S3_KEY_SECRET,
-          region: S3_REGION,
-          bucket: S3_BUCKET,
-        }),
-      },
-    });
+    const output = buildRecordingOutput(roomName, options.output, toS3Upload(getS3Config()));
 
-    await egressClient.startRoomCompositeEgress(
+    const egress = await startRecordingEgress(
+      egressClient,
+      getRoomServiceClient(),
       roomName,
-      {
-        file: fileOutput,
-      },
-      {
-        layout: 'speaker',
-      },
+      options,
+      output,
     );
+    // Ties the recording to this party, hosts of later parties with the same room name can't see it
+    await saveEgressRecording(getRoomEventStore(), egress, partyId);
 
     return new NextResponse(null, { status: 200 });
   } catch (error) {
-    if (error instanceof Error) {
-      return new NextResponse(error.message, { status: 500 });
-    }
+    return apiErrorResponse(error);
   }
 }
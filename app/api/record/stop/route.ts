@@ -1,39 +1,31 @@
-import { EgressClient } from 'livekit-server-sdk';
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { isStreamEgress } from '@/lib/roomEvents';
+import { getEgressClient } from '@/lib/roomService';
 
 export async function GET(req: NextRequest) {
   try {
     const roomName = req.nextUrl.searchParams.get('roomName');
 
-    /**
-     * CAUTION:
-     * for simplicity this implementation does not authenticate users and therefore allows anyone with knowledge of a roomName
-     * to start/stop recordings for that room.
-     * DO NOT USE THIS FOR PRODUCTION PURPOSES AS IS
-     */
-
     if (roomName === null) {
-      return new NextResponse('Missing roomName parameter', { status: 403 });
+      throw new ApiError(400, 'missing_room_name', 'Missing roomName parameter');
     }
 
-    const { LIVEKIT_API_KEY, LIVEKIT_API_SECRET, LIVEKIT_URL } = process.env;
-
-    const hostURL = new URL(LIVEKIT_URL!);
-    hostURL.protocol = 'https:';
+    // Only the room's host may start or stop recordings
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
 
-    const egressClient = new EgressClient(hostURL.origin, LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+    const egressClient = getEgressClient();
     const activeEgresses = (await egressClient.listEgress({ roomName })).filter(
-      (info) => info.status < 2,
+      (info) => info.status < 2 && !isStreamEgress(info),
     );
     if (activeEgresses.length === 0) {
-      return new NextResponse('No active recording found', { status: 404 });
+      throw new ApiError(404, 'no_active_recording', 'No active recording found');
     }
     await Promise.all(activeEgresses.map((info) => egressClient.stopEgress(info.egressId)));
 
     return new NextResponse(null, { status: 200 });
   } catch (error) {
-    if (error instanceof Error) {
-      return new NextResponse(error.message, { status: 500 });
-    }
+    return apiErrorResponse(error);
   }
 }
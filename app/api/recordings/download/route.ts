@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { listRoomRecordings } from '@/lib/recordings';
+import { authorizeRoomModerator } from '@/lib/requestAuth';
+import { getRoomEventStore } from '@/lib/roomEvents';
+import { getEgressClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+import { DOWNLOAD_URL_EXPIRY_SECONDS, getS3Config, presignDownload } from '@/lib/s3';
+
+/**
+ * Returns a short-lived pre-signed URL to download a finished recording straight from S3.
+ * HLS recordings are left out, they consist of a playlist and many segment files.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const egressId = req.nextUrl.searchParams.get('egressId');
+    if (!egressId) {
+      throw new ApiError(400, 'missing_egress_id', 'Missing egressId parameter');
+    }
+    const { partyIds } = await authorizeRoomModerator(req, roomName);
+
+    const config = getS3Config();
+    if (!config) {
+      throw new ApiError(503, 'storage_not_configured', 'Recording storage is not configured');
+    }
+    const recordings = await listRoomRecordings(
+      roomName,
+      partyIds,
+      getRoomEventStore(),
+      getEgressClient(),
+    );
+    const recording = recordings.find((r) => r.egressId === egressId);
+    if (!recording) {
+      throw new ApiError(404, 'recording_not_found', 'Recording not found');
+    }
+    if (recording.status !== 'complete' || !recording.filename) {
+      throw new ApiError(409, 'recording_not_ready', 'Recording has no file to download yet');
+    }
+    if (recording.segmented) {
+      // Only the playlist could be signed, its segments would be refused by the bucket
+      throw new ApiError(
+        409,
+        'recording_not_downloadable',
+        'HLS recordings are split into segments and can only be fetched from the bucket',
+      );
+    }
+
+    const now = new Date();
+    return NextResponse.json({
+      url: presignDownload(config, recording.filename, undefined, now).toString(),
+      expiresAt: now.getTime() + DOWNLOAD_URL_EXPIRY_SECONDS * 1000,
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
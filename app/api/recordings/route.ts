@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse } from '@/lib/apiErrors';
+import { listRoomRecordings } from '@/lib/recordings';
+import { authorizeRoomModerator } from '@/lib/requestAuth';
+import { getRoomEventStore } from '@/lib/roomEvents';
+import { getEgressClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Lists the recordings of a room with their status, duration, size, file and error reason.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const { partyIds } = await authorizeRoomModerator(req, roomName);
+    const recordings = await listRoomRecordings(
+      roomName,
+      partyIds,
+      getRoomEventStore(),
+      getEgressClient(),
+    );
+    return NextResponse.json({ recordings });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
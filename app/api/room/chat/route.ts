@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import {
+  CHAT_BLOCKED_WORD_MAX_LENGTH,
+  CHAT_BLOCKED_WORDS_MAX,
+  CHAT_SLOW_MODE_MAX_SECONDS,
+  ChatPolicy,
+  isSlowModeSeconds,
+  normalizeBlockedWords,
+  parseChatPolicy,
+} from '@/lib/chatModeration';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import {
+  getModerationTarget,
+  getRoomServiceClient,
+  setCanPublishData,
+  updateRoomMetadata,
+} from '@/lib/roomService';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Updates the room's chat policy: slow mode, blocked words, image sharing and muted participants.
+ * Every field is optional, `mute` and `unmute` take a participant identity.
+ * The policy lives in the room metadata, so clients pick up changes right away.
+ * Muted participants also lose the permission to send data messages until they are unmuted.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const body = await readJsonBody(req);
+
+    const update: Partial<ChatPolicy> = {};
+    if (body.slowModeSeconds !== undefined) {
+      if (!isSlowModeSeconds(body.slowModeSeconds)) {
+        throw new ApiError(
+          400,
+          'invalid_slow_mode',
+          `slowModeSeconds must be a whole number from 0 to ${CHAT_SLOW_MODE_MAX_SECONDS}`,
+        );
+      }
+      update.slowModeSeconds = body.slowModeSeconds;
+    }
+    if (body.blockedWords !== undefined) {
+      const blockedWords = normalizeBlockedWords(body.blockedWords);
+      if (!blockedWords) {
+        throw new ApiError(
+          400,
+          'invalid_blocked_words',
+          `blockedWords must be a list of at most ${CHAT_BLOCKED_WORDS_MAX} words of up to ${CHAT_BLOCKED_WORD_MAX_LENGTH} characters`,
+        );
+      }
+      update.blockedWords = blockedWords;
+    }
+    if (body.attachmentsDisabled !== undefined) {
+      if (typeof body.attachmentsDisabled !== 'boolean') {
+        throw new ApiError(400, 'invalid_attachments', 'attachmentsDisabled must be a boolean');
+      }
+      update.attachmentsDisabled = body.attachmentsDisabled;
+    }
+    const client = getRoomServiceClient();
+    if (typeof body.mute === 'string') {
+      await getModerationTarget(client, roomName, body.mute, caller);
+    }
+
+    const metadata = await updateRoomMetadata(client, roomName, (current) => {
+      const policy = { ...parseChatPolicy(current.chatPolicy), ...update };
+      const muted = new Set(policy.mutedIdentities);
+      if (typeof body.mute === 'string') muted.add(body.mute);
+      if (typeof body.unmute === 'string') muted.delete(body.unmute);
+      return { ...current, chatPolicy: { ...policy, mutedIdentities: Array.from(muted) } };
+    });
+    if (!metadata) {
+      throw new ApiError(404, 'room_not_found', `Room ${roomName} is not running`);
+    }
+    if (typeof body.mute === 'string') {
+      await setCanPublishData(client, roomName, body.mute, false);
+    }
+    if (typeof body.unmute === 'string') {
+      await setCanPublishData(client, roomName, body.unmute, true);
+    }
+    return NextResponse.json({ policy: parseChatPolicy(metadata.chatPolicy) });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { hashPassword } from '@/lib/roomPassword';
+import { createRoomRecord, getRoomRegistry } from '@/lib/roomRegistry';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+import { getOrCreateSession, sessionCookie } from '@/lib/session';
+import { ROOM_PASSWORD_MAX_LENGTH } from '@/lib/types';
+
+/**
+ * Creates a room with the caller as its host, optionally protected by a password.
+ * Rooms without a password don't need this, the first joiner becomes their host.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const { password } = await readJsonBody(req);
+    if (password !== undefined && typeof password !== 'string') {
+      throw new ApiError(400, 'invalid_password', 'Password must be a string');
+    }
+    if (password && password.length > ROOM_PASSWORD_MAX_LENGTH) {
+      throw new ApiError(
+        400,
+        'invalid_password',
+        `Password must be at most ${ROOM_PASSWORD_MAX_LENGTH} characters`,
+      );
+    }
+
+    const session = getOrCreateSession(req);
+    const passwordHash = password ? await hashPassword(password) : undefined;
+    const registry = getRoomRegistry();
+    const record = createRoomRecord(roomName, session, passwordHash);
+    const stored = await registry.getOrCreate(roomName, () => record);
+    let claimed = stored === record;
+    if (!claimed) {
+      // A room whose last party ended is free again, the caller hosts its next party
+      await registry.update(roomName, (current) => {
+        if (current.hostSession) {
+          return current;
+        }
+        claimed = true;
+        return createRoomRecord(roomName, session, passwordHash, current.pastParties);
+      });
+    }
+    if (!claimed) {
+      throw new ApiError(409, 'room_exists', 'A room with this name already exists');
+    }
+    return new NextResponse(null, {
+      status: 201,
+      headers: { 'Set-Cookie': sessionCookie(session) },
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { endParty, getRoomRegistry } from '@/lib/roomRegistry';
+import { getRoomServiceClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Ends the room for everyone and forgets its hosts, lobby and lock state. The next joiner
+ * starts a new party, chat history and recordings of this one stay with its hosts.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+
+    await getRoomServiceClient().deleteRoom(roomName);
+    await getRoomRegistry().update(roomName, (record) => endParty(record));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
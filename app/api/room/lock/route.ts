@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Returns whether the room is locked.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+
+    const record = await getRoomRegistry().get(roomName);
+    if (!record) {
+      throw new ApiError(404, 'unknown_room', `Room ${roomName} does not exist`);
+    }
+    return NextResponse.json({ locked: record.locked });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+/**
+ * Locks or unlocks the room. While locked, `connection-details` turns away everyone
+ * except the room's hosts.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const { locked } = await readJsonBody(req);
+    if (typeof locked !== 'boolean') {
+      throw new ApiError(400, 'invalid_body', 'Expected a boolean locked field');
+    }
+
+    const record = await getRoomRegistry().update(roomName, (current) => ({ ...current, locked }));
+    if (!record) {
+      throw new ApiError(404, 'unknown_room', `Room ${roomName} does not exist`);
+    }
+    return NextResponse.json({ locked: record.locked });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { TrackSource } from 'livekit-server-sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getModerationTarget, getRoomServiceClient } from '@/lib/roomService';
+import { readJsonBody, requireIdentity, requireRoomName } from '@/lib/routeHelpers';
+
+const SOURCES: Record<string, TrackSource> = {
+  camera: TrackSource.CAMERA,
+  microphone: TrackSource.MICROPHONE,
+  screen_share: TrackSource.SCREEN_SHARE,
+  screen_share_audio: TrackSource.SCREEN_SHARE_AUDIO,
+};
+
+/**
+ * Mutes one of a participant's tracks, picked by `trackSid` or by `source`.
+ * Participants can unmute themselves again unless their permissions are revoked.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const body = await readJsonBody(req);
+    const identity = requireIdentity(body);
+
+    const client = getRoomServiceClient();
+    const participant = await getModerationTarget(client, roomName, identity, caller);
+
+    const source = typeof body.source === 'string' ? SOURCES[body.source] : undefined;
+    const track = participant.tracks.find((t) =>
+      typeof body.trackSid === 'string' ? t.sid === body.trackSid : t.source === source,
+    );
+    if (!track) {
+      throw new ApiError(404, 'track_not_found', `${identity} has no such track`);
+    }
+
+    await client.mutePublishedTrack(roomName, identity, track.sid, true);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AccessToken } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import {
+  createRoomRecord,
+  InMemoryRoomRegistry,
+  resolveParticipantRole,
+  setRoomRegistry,
+} from '@/lib/roomRegistry';
+import { POST } from './route';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const client = {
+  getParticipant: vi.fn(async (_room: string, identity: string) => ({
+    identity,
+    metadata: JSON.stringify({ role: identity === 'host__abcd' ? 'host' : 'viewer' }),
+  })),
+  updateParticipant: vi.fn(async () => ({})),
+  listRooms: vi.fn(async () => [{ name: 'room', metadata: '' }]),
+};
+
+vi.mock('@/lib/roomService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/roomService')>()),
+  getRoomServiceClient: () => client,
+}));
+
+async function hostToken() {
+  const at = new AccessToken(API_KEY, API_SECRET, {
+    identity: 'host__abcd',
+    metadata: JSON.stringify({ role: 'host' }),
+  });
+  at.addGrant({ room: 'room', roomJoin: true });
+  return at.toJwt();
+}
+
+async function setRole(identity: string, role: string) {
+  const request = new NextRequest('http://localhost/api/room/permissions?roomName=room', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await hostToken()}` },
+    body: JSON.stringify({ identity, role }),
+  });
+  return POST(request);
+}
+
+describe('POST /api/room/permissions', () => {
+  const env = { ...process.env };
+  let registry: InMemoryRoomRegistry;
+
+  beforeAll(() => {
+    process.env.LIVEKIT_API_KEY = API_KEY;
+    process.env.LIVEKIT_API_SECRET = API_SECRET;
+  });
+  afterAll(() => {
+    process.env = env;
+  });
+  beforeEach(async () => {
+    registry = new InMemoryRoomRegistry();
+    setRoomRegistry(registry);
+    await registry.getOrCreate('room', () => ({
+      ...createRoomRecord('room', 'host-session'),
+      participantSessions: { host__abcd: 'host-session', friend__ef56: 'friend-session' },
+    }));
+  });
+
+  it('keeps a promoted co-host a co-host when they rejoin', async () => {
+    expect((await setRole('friend__ef56', 'cohost')).status).toBe(204);
+    expect(await resolveParticipantRole(registry, 'room', 'friend-session')).toBe('cohost');
+  });
+
+  it('drops the co-host role of a demoted participant', async () => {
+    await setRole('friend__ef56', 'cohost');
+    expect((await setRole('friend__ef56', 'viewer')).status).toBe(204);
+    expect(await resolveParticipantRole(registry, 'room', 'friend-session')).toBe('viewer');
+    expect((await registry.get('room'))?.cohostSessions).toEqual([]);
+  });
+});
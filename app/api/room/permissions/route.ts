@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getVideoGrantForRole } from '@/lib/roleGrants';
+import { isParticipantRole, parseParticipantMetadata } from '@/lib/roles';
+import { getRoomRegistry, setCohost } from '@/lib/roomRegistry';
+import { getModerationTarget, getRoomServiceClient, isChatMuted } from '@/lib/roomService';
+import { readJsonBody, requireIdentity, requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Changes a participant's role, e.g. to promote a viewer to co-host or to restrict
+ * someone to watching. Their LiveKit permissions are updated to match the new role,
+ * and co-hosts keep their role when they rejoin.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const body = await readJsonBody(req);
+    const identity = requireIdentity(body);
+    const { role } = body;
+    if (!isParticipantRole(role) || role === 'host') {
+      throw new ApiError(400, 'invalid_role', 'Role must be one of cohost, viewer or guest');
+    }
+
+    const client = getRoomServiceClient();
+    const participant = await getModerationTarget(client, roomName, identity, caller);
+
+    const grant = getVideoGrantForRole(role, roomName);
+    const muted = await isChatMuted(client, roomName, identity, role);
+    await client.updateParticipant(roomName, identity, {
+      metadata: JSON.stringify({ ...parseParticipantMetadata(participant.metadata), role }),
+      permission: {
+        canPublish: grant.canPublish,
+        canPublishData: grant.canPublishData && !muted,
+        canSubscribe: grant.canSubscribe,
+        canPublishSources: grant.canPublishSources ?? [],
+      },
+    });
+    // Their next token, e.g. after a reload, has to carry the new role as well
+    await getRoomRegistry().update(roomName, (record) =>
+      setCohost(record, identity, role === 'cohost'),
+    );
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry, markRemoved } from '@/lib/roomRegistry';
+import { getModerationTarget, getRoomServiceClient } from '@/lib/roomService';
+import { readJsonBody, requireIdentity, requireRoomName } from '@/lib/routeHelpers';
+
+/**
+ * Removes a participant from the room. They can't refresh their token to get back in,
+ * lock the room to keep them from joining again through `PreJoin`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    const caller = await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const identity = requireIdentity(await readJsonBody(req));
+
+    const client = getRoomServiceClient();
+    await getModerationTarget(client, roomName, identity, caller);
+    await getRoomRegistry().update(roomName, (record) => markRemoved(record, identity));
+    await client.removeParticipant(roomName, identity);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
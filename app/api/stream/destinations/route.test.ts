@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AccessToken, EgressInfo, EgressStatus } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import { createRoomRecord, InMemoryRoomRegistry, setRoomRegistry } from '@/lib/roomRegistry';
+import { getDestinationId } from '@/lib/streamEgress';
+import { POST } from './route';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const YOUTUBE = 'rtmp://a.rtmp.youtube.com/live2/youtube-key';
+const TWITCH = 'rtmps://live.twitch.tv/app/twitch-key';
+
+/** LiveKit reports destinations with their stream key redacted */
+const stream = new EgressInfo({
+  egressId: 'EG_stream',
+  status: EgressStatus.EGRESS_ACTIVE,
+  streamResults: [
+    { url: 'rtmp://a.rtmp.youtube.com/live2/{redacted}', status: 0 },
+    { url: 'rtmps://live.twitch.tv/app/{redacted}', status: 0 },
+  ],
+});
+
+const egressClient = {
+  listEgress: vi.fn(async () => [stream]),
+  updateStream: vi.fn(async () => stream),
+};
+
+vi.mock('@/lib/roomService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/roomService')>()),
+  getEgressClient: () => egressClient,
+  getRoomServiceClient: () => ({
+    getParticipant: async (_room: string, identity: string) => ({
+      identity,
+      metadata: JSON.stringify({ role: 'host' }),
+    }),
+  }),
+}));
+
+async function updateDestinations(body: object) {
+  const at = new AccessToken(API_KEY, API_SECRET, {
+    identity: 'host__abcd',
+    metadata: JSON.stringify({ role: 'host' }),
+  });
+  at.addGrant({ room: 'room', roomJoin: true });
+  const request = new NextRequest('http://localhost/api/stream/destinations?roomName=room', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await at.toJwt()}` },
+    body: JSON.stringify(body),
+  });
+  return POST(request);
+}
+
+describe('POST /api/stream/destinations', () => {
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    process.env.LIVEKIT_API_KEY = API_KEY;
+    process.env.LIVEKIT_API_SECRET = API_SECRET;
+  });
+  afterAll(() => {
+    process.env = env;
+  });
+  beforeEach(async () => {
+    egressClient.updateStream.mockClear();
+    const registry = new InMemoryRoomRegistry();
+    setRoomRegistry(registry);
+    await registry.getOrCreate('room', () => ({
+      ...createRoomRecord('room', 'host-session'),
+      streamUrls: [YOUTUBE, TWITCH],
+    }));
+  });
+
+  it('removes a destination by its id with its full URL', async () => {
+    const response = await updateDestinations({ remove: [getDestinationId(TWITCH)] });
+    expect(response.status).toBe(200);
+    expect(egressClient.updateStream).toHaveBeenCalledWith('EG_stream', [], [TWITCH]);
+  });
+
+  it('refuses to remove the last destination', async () => {
+    const response = await updateDestinations({
+      remove: [getDestinationId(YOUTUBE), getDestinationId(TWITCH)],
+    });
+    expect(response.status).toBe(400);
+    expect(egressClient.updateStream).not.toHaveBeenCalled();
+  });
+
+  it('does not count a destination that is already streamed to again', async () => {
+    const response = await updateDestinations({ add: [YOUTUBE, 'rtmp://b.example.com/live/key'] });
+    expect(response.status).toBe(200);
+    expect(egressClient.updateStream).toHaveBeenCalledWith(
+      'EG_stream',
+      ['rtmp://b.example.com/live/key'],
+      [],
+    );
+  });
+});
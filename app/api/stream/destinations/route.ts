@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+import { getEgressClient } from '@/lib/roomService';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+import {
+  findActiveStream,
+  getDestinationId,
+  parseDestinationIds,
+  parseStreamUrls,
+  toStreamStatus,
+} from '@/lib/streamEgress';
+import { STREAM_MAX_DESTINATIONS } from '@/lib/streaming';
+
+/**
+ * Adds destinations to the running stream, by URL, or removes them, by the `id` reported in
+ * its status, without interrupting the others.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const body = await readJsonBody(req);
+    const add = parseStreamUrls(body.add, 'add');
+    const removeIds = parseDestinationIds(body.remove);
+
+    const egressClient = getEgressClient();
+    const stream = await findActiveStream(egressClient, roomName);
+    if (!stream) {
+      throw new ApiError(404, 'not_streaming', 'This room is not live');
+    }
+    const registry = getRoomRegistry();
+    const urls = (await registry.get(roomName))?.streamUrls ?? [];
+    const destinations = toStreamStatus(stream, urls).destinations;
+    const active = destinations.filter((d) => d.status === 'active');
+
+    const remove = removeIds.map((id) => {
+      const url = urls.find((u) => getDestinationId(u) === id);
+      if (!url || !active.some((d) => d.id === id)) {
+        throw new ApiError(404, 'destination_not_found', 'The stream has no such destination');
+      }
+      return url;
+    });
+    const added = add.filter((url) => !active.some((d) => d.id === getDestinationId(url)));
+    const activeCount = active.length - remove.length + added.length;
+    if (activeCount === 0) {
+      throw new ApiError(
+        400,
+        'no_destinations',
+        'Stop the stream instead of removing every destination',
+      );
+    }
+    if (activeCount > STREAM_MAX_DESTINATIONS) {
+      throw new ApiError(
+        400,
+        'too_many_destinations',
+        `A stream can go out to at most ${STREAM_MAX_DESTINATIONS} destinations`,
+      );
+    }
+
+    const updated = await egressClient.updateStream(stream.egressId, added, remove);
+    // Removed destinations stay listed by LiveKit, so their URLs are kept to match them up
+    const record = await registry.update(roomName, (r) => ({
+      ...r,
+      streamUrls: [...r.streamUrls, ...added],
+    }));
+    return NextResponse.json({ stream: toStreamStatus(updated, record?.streamUrls) });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+import { getEgressClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+import { findActiveStream, toStreamStatus } from '@/lib/streamEgress';
+
+/**
+ * Reports the room's running stream with the status of every destination, `null` if the
+ * room isn't live.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const stream = await findActiveStream(getEgressClient(), roomName);
+    const urls = (await getRoomRegistry().get(roomName))?.streamUrls;
+    return NextResponse.json({ stream: stream ? toStreamStatus(stream, urls) : null });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,51 @@
+import { StreamOutput, StreamProtocol } from 'livekit-server-sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { findScreenShareTracks, getEgressLayout } from '@/lib/recordingEgress';
+import { DEFAULT_RECORDING_OPTIONS, isRecordingLayout } from '@/lib/recordingOptions';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+import { getEgressClient, getRoomServiceClient } from '@/lib/roomService';
+import { readJsonBody, requireRoomName } from '@/lib/routeHelpers';
+import { findActiveStream, parseStreamUrls, setRoomLive, toStreamStatus } from '@/lib/streamEgress';
+
+/**
+ * Starts streaming the room to one or more RTMP destinations, composited with one of the
+ * recording layouts. Content only streams carry just the screen share, like recordings.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const body = await readJsonBody(req);
+    const urls = parseStreamUrls(body.urls, 'urls');
+    if (urls.length === 0) {
+      throw new ApiError(400, 'invalid_urls', 'At least one destination URL is required');
+    }
+    const layout = body.layout ?? DEFAULT_RECORDING_OPTIONS.layout;
+    if (!isRecordingLayout(layout)) {
+      throw new ApiError(400, 'invalid_layout', `Unknown layout ${String(layout)}`);
+    }
+
+    const egressClient = getEgressClient();
+    if (await findActiveStream(egressClient, roomName)) {
+      throw new ApiError(409, 'already_streaming', 'This room is already live');
+    }
+    const output = { stream: new StreamOutput({ protocol: StreamProtocol.RTMP, urls }) };
+    const egress =
+      layout === 'content'
+        ? await egressClient.startTrackCompositeEgress(
+            roomName,
+            output,
+            await findScreenShareTracks(getRoomServiceClient(), roomName),
+          )
+        : await egressClient.startRoomCompositeEgress(roomName, output, {
+            layout: getEgressLayout(layout),
+          });
+    await getRoomRegistry().update(roomName, (record) => ({ ...record, streamUrls: urls }));
+    await setRoomLive(getRoomServiceClient(), roomName, true);
+    return NextResponse.json({ stream: toStreamStatus(egress, urls) });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { authorizeRoomRequest } from '@/lib/requestAuth';
+import { getRoomRegistry } from '@/lib/roomRegistry';
+import { getEgressClient, getRoomServiceClient } from '@/lib/roomService';
+import { requireRoomName } from '@/lib/routeHelpers';
+import { findActiveStream, setRoomLive } from '@/lib/streamEgress';
+
+/**
+ * Ends the room's stream on every destination and clears its live flag.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const roomName = requireRoomName(req);
+    await authorizeRoomRequest(req, roomName, { requireModerator: true });
+    const egressClient = getEgressClient();
+    const stream = await findActiveStream(egressClient, roomName);
+    if (!stream) {
+      throw new ApiError(404, 'not_streaming', 'This room is not live');
+    }
+    await egressClient.stopEgress(stream.egressId);
+    await getRoomRegistry().update(roomName, (record) => ({ ...record, streamUrls: [] }));
+    await setRoomLive(getRoomServiceClient(), roomName, false);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
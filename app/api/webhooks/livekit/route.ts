@@ -0,0 +1,41 @@
+import { WebhookReceiver } from 'livekit-server-sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiErrorResponse } from '@/lib/apiErrors';
+import { getRoomEventStore, isStreamEgress, recordWebhookEvent } from '@/lib/roomEvents';
+import { getRoomServiceClient } from '@/lib/roomService';
+import { setRoomLive } from '@/lib/streamEgress';
+
+/**
+ * Receives LiveKit webhooks. Point the project's webhook URL at `/api/webhooks/livekit`,
+ * requests are signed with the same API key and secret the app uses.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { LIVEKIT_API_KEY, LIVEKIT_API_SECRET } = process.env;
+    if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
+      throw new Error('LIVEKIT_API_KEY and LIVEKIT_API_SECRET must be defined');
+    }
+
+    // the signature covers the raw body, it must be verified before parsing
+    const body = await req.text();
+    let event;
+    try {
+      event = await new WebhookReceiver(LIVEKIT_API_KEY, LIVEKIT_API_SECRET).receive(
+        body,
+        req.headers.get('Authorization') ?? undefined,
+      );
+    } catch {
+      throw new ApiError(401, 'invalid_signature', 'Webhook signature could not be verified');
+    }
+
+    await recordWebhookEvent(getRoomEventStore(), event);
+
+    // streams can also end on their own, e.g. when every destination failed
+    if (event.event === 'egress_ended' && event.egressInfo && isStreamEgress(event.egressInfo)) {
+      await setRoomLive(getRoomServiceClient(), event.egressInfo.roomName, false);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
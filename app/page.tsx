@@ -3,8 +3,12 @@
 import { useRouter, useSearchParams } from 'next/navigation';
 import React, { Suspense, useState } from 'react';
 import { encodePassphrase, generateRoomId, randomString } from '@/lib/client-utils';
+import { readApiError } from '@/lib/apiClient';
+import { ROOM_PASSWORD_MAX_LENGTH } from '@/lib/types';
 import styles from '../styles/Home.module.css';
 
+const ROOM_API_ENDPOINT = process.env.NEXT_PUBLIC_ROOM_API_ENDPOINT ?? '/api/room';
+
 function Tabs(props: React.PropsWithChildren<{}>) {
   const searchParams = useSearchParams();
   const tabIndex = searchParams?.get('tab') === 'custom' ? 1 : 0;
@@ -45,18 +49,52 @@ function DemoMeetingTab(props: { label: string }) {
   const router = useRouter();
   const [e2ee, setE2ee] = useState(false);
   const [sharedPassphrase, setSharedPassphrase] = useState(randomString(64));
-  const startWatchParty = () => {
+  const [roomPassword, setRoomPassword] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const startWatchParty = async () => {
+    const roomId = generateRoomId();
+    // Password protected rooms are registered up front, with us as their host
+    if (roomPassword) {
+      setError(undefined);
+      const response = await fetch(
+        `${ROOM_API_ENDPOINT}/create?${new URLSearchParams({ roomName: roomId })}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password: roomPassword }),
+        },
+      );
+      if (!response.ok) {
+        setError(await readApiError(response));
+        return;
+      }
+    }
     if (e2ee) {
-      router.push(`/watchparty/${generateRoomId()}#${encodePassphrase(sharedPassphrase)}`);
+      router.push(`/watchparty/${roomId}#${encodePassphrase(sharedPassphrase)}`);
     } else {
-      router.push(`/watchparty/${generateRoomId()}`);
+      router.push(`/watchparty/${roomId}`);
     }
   };
   return (
     <div className={styles.tabContent}>
-      <button style={{ marginTop: '1rem' }} className="lk-button" onClick={startWatchParty}>
+      <input
+        style={{ marginTop: '1rem' }}
+        type="password"
+        placeholder="Room password (optional)"
+        aria-label="Room password"
+        autoComplete="new-password"
+        maxLength={ROOM_PASSWORD_MAX_LENGTH}
+        value={roomPassword}
+        onChange={(ev) => setRoomPassword(ev.target.value)}
+      />
+      <button className="lk-button" onClick={startWatchParty}>
         Start WatchParty
       </button>
+      {error && (
+        <p role="alert" style={{ color: 'var(--lk-danger)', margin: 0 }}>
+          {error}
+        </p>
+      )}
       <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
         <div style={{ display: 'flex', flexDirection: 'row', gap: '1rem' }}>
           {/* <input
@@ -7,6 +7,7 @@ import { KeyboardShortcuts } from '@/lib/KeyboardShortcuts';
 import { RecordingIndicator } from '@/lib/RecordingIndicator';
 import { SettingsMenu } from '@/lib/SettingsMenu';
 import { ConnectionDetails } from '@/lib/types';
+import { ConnectionDetailsContext } from '@/lib/ConnectionDetailsContext';
 import {
   formatChatMessageLinks,
   LocalUserChoices,
@@ -232,13 +233,16 @@ function VideoConferenceComponent(props: {
   return (
     <div className="lk-room-container">
       <RoomContext.Provider value={room}>
-        <KeyboardShortcuts />
-        <VideoConference
-          chatMessageFormatter={formatChatMessageLinks}
-          SettingsComponent={SHOW_SETTINGS_MENU ? SettingsMenu : undefined}
-        />
-        <DebugMode />
-        <RecordingIndicator />
+        <ConnectionDetailsContext.Provider value={props.connectionDetails}>
+          <KeyboardShortcuts>
+            <VideoConference
+              chatMessageFormatter={formatChatMessageLinks}
+              SettingsComponent={SHOW_SETTINGS_MENU ? SettingsMenu : undefined}
+            />
+            <DebugMode />
+          </KeyboardShortcuts>
+          <RecordingIndicator />
+        </ConnectionDetailsContext.Provider>
       </RoomContext.Provider>
     </div>
   );
@@ -5,11 +5,15 @@ import { decodePassphrase } from '@/lib/client-utils';
 import { DebugMode } from '@/lib/Debug';
 import { KeyboardShortcuts } from '@/lib/KeyboardShortcuts';
 import { RecordingIndicator } from '@/lib/RecordingIndicator';
+import { GoLiveIndicator } from '@/lib/GoLiveIndicator';
 import { SettingsMenu } from '@/lib/SettingsMenu';
-import { ConnectionDetails } from '@/lib/types';
+import { ConnectionDetails, ROOM_PASSWORD_HEADER, ROOM_PASSWORD_MAX_LENGTH } from '@/lib/types';
+import { ConnectionDetailsContext } from '@/lib/ConnectionDetailsContext';
+import { readApiError } from '@/lib/apiClient';
+import { LOBBY_POLL_INTERVAL_MS, LobbyTicket } from '@/lib/lobby';
+import { DEFAULT_ROLE, getRoleCapabilities, ParticipantRole } from '@/lib/roles';
 import { WatchPartyLayout } from '@/lib/WatchPartyLayout';
 import {
-  formatChatMessageLinks,
   LocalUserChoices,
   PreJoin,
   RoomContext,
@@ -30,6 +34,7 @@ import {
 import { useRouter } from 'next/navigation';
 import { useSetupE2EE } from '@/lib/useSetupE2EE';
 import { useLowCPUOptimizer } from '@/lib/usePerfomanceOptimiser';
+import { useTokenRefresh } from '@/lib/useTokenRefresh';
 
 const CONN_DETAILS_ENDPOINT =
   process.env.NEXT_PUBLIC_CONN_DETAILS_ENDPOINT ?? '/api/connection-details';
@@ -40,6 +45,7 @@ export function WatchPartyRoom(props: {
   region?: string;
   hq: boolean;
   codec: VideoCodec;
+  role?: ParticipantRole;
 }) {
   const [preJoinChoices, setPreJoinChoices] = React.useState<LocalUserChoices | undefined>(
     undefined,
@@ -56,18 +62,75 @@ export function WatchPartyRoom(props: {
     undefined,
   );
 
+  // Set while the host has not yet admitted us from the lobby
+  const [lobbyTicket, setLobbyTicket] = React.useState<LobbyTicket | undefined>(undefined);
+  const [joinError, setJoinError] = React.useState<string | undefined>(undefined);
+  const [connectionDetailsUrl, setConnectionDetailsUrl] = React.useState<string | undefined>(
+    undefined,
+  );
+  // Shown once the server tells us the room is password protected
+  const [passwordRequired, setPasswordRequired] = React.useState(false);
+  const [password, setPassword] = React.useState('');
+
+  const requestConnectionDetails = React.useCallback(async (url: string, password?: string) => {
+    const connectionDetailsResp = await fetch(url, {
+      headers: password ? { [ROOM_PASSWORD_HEADER]: password } : undefined,
+    });
+    if (connectionDetailsResp.status === 202) {
+      setLobbyTicket(await connectionDetailsResp.json());
+      return;
+    }
+    setLobbyTicket(undefined);
+    if (!connectionDetailsResp.ok) {
+      if (connectionDetailsResp.status === 401) {
+        setPasswordRequired(true);
+      }
+      setJoinError(await readApiError(connectionDetailsResp));
+      return;
+    }
+    const connectionDetailsData = await connectionDetailsResp.json();
+    setConnectionDetails(connectionDetailsData);
+  }, []);
+
   const handlePreJoinSubmit = React.useCallback(async (values: LocalUserChoices) => {
     setPreJoinChoices(values);
+    setJoinError(undefined);
     const url = new URL(CONN_DETAILS_ENDPOINT, window.location.origin);
     url.searchParams.append('roomName', props.roomId);
     url.searchParams.append('participantName', values.username);
     if (props.region) {
       url.searchParams.append('region', props.region);
     }
-    const connectionDetailsResp = await fetch(url.toString());
-    const connectionDetailsData = await connectionDetailsResp.json();
-    setConnectionDetails(connectionDetailsData);
-  }, [props.roomId, props.region]);
+    if (props.role) {
+      url.searchParams.append('role', props.role);
+    }
+    setConnectionDetailsUrl(url.toString());
+    await requestConnectionDetails(url.toString(), password);
+  }, [props.roomId, props.region, props.role, password, requestConnectionDetails]);
+
+  const handlePasswordSubmit = React.useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      if (!connectionDetailsUrl) {
+        return;
+      }
+      setJoinError(undefined);
+      await requestConnectionDetails(connectionDetailsUrl, password);
+    },
+    [connectionDetailsUrl, password, requestConnectionDetails],
+  );
+
+  // Keep asking for connection details while waiting in the lobby, until the host decides
+  const waitingTicket = lobbyTicket?.ticket;
+  React.useEffect(() => {
+    if (!waitingTicket || !connectionDetailsUrl) {
+      return;
+    }
+    const interval = setInterval(() => {
+      requestConnectionDetails(connectionDetailsUrl).catch((error) => console.error(error));
+    }, LOBBY_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [waitingTicket, connectionDetailsUrl, requestConnectionDetails]);
   
   const handlePreJoinError = React.useCallback((e: any) => console.error(e), []);
 
@@ -79,11 +142,48 @@ export function WatchPartyRoom(props: {
             <h1 style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>WatchParty</h1>
             <p style={{ color: 'rgba(255,255,255,0.7)' }}>Join the room to watch together</p>
           </div>
-          <PreJoin
-            defaults={preJoinDefaults}
-            onSubmit={handlePreJoinSubmit}
-            onError={handlePreJoinError}
-          />
+          {lobbyTicket ? (
+            <div style={{ textAlign: 'center' }}>
+              <p>Waiting for the host to let you in…</p>
+              <button className="lk-button" onClick={() => setLobbyTicket(undefined)}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <>
+              <PreJoin
+                defaults={preJoinDefaults}
+                onSubmit={handlePreJoinSubmit}
+                onError={handlePreJoinError}
+              />
+              {passwordRequired && (
+                <form
+                  onSubmit={handlePasswordSubmit}
+                  style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}
+                >
+                  <input
+                    className="lk-form-control"
+                    type="password"
+                    placeholder="Room password"
+                    aria-label="Room password"
+                    autoComplete="off"
+                    maxLength={ROOM_PASSWORD_MAX_LENGTH}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                  />
+                  <button className="lk-button" type="submit" disabled={!password}>
+                    Join
+                  </button>
+                </form>
+              )}
+              {joinError && (
+                <p role="alert" style={{ color: 'var(--lk-danger)' }}>
+                  {joinError}
+                </p>
+              )}
+            </>
+          )}
         </div>
       ) : (
         <WatchPartyConference
@@ -181,8 +281,15 @@ function WatchPartyConference(props: {
     };
   }, []);
 
+  const router = useRouter();
+  const handleOnLeave = React.useCallback(() => router.push('/'), [router]);
+  // Also rejoins with a fresh token when the connection drops, the token may have expired
+  const { connectionDetails } = useTokenRefresh(room, props.connectionDetails, {
+    connectOptions,
+    onLeave: handleOnLeave,
+  });
+
   React.useEffect(() => {
-    room.on(RoomEvent.Disconnected, handleOnLeave);
     room.on(RoomEvent.EncryptionError, handleEncryptionError);
     room.on(RoomEvent.MediaDevicesError, handleError);
 
@@ -196,19 +303,22 @@ function WatchPartyConference(props: {
         .catch((error) => {
           handleError(error);
         });
-      if (props.userChoices.videoEnabled) {
+      // Guests are not allowed to publish, don't try to turn on their devices
+      const { canPublishMedia } = getRoleCapabilities(
+        props.connectionDetails.participantRole ?? DEFAULT_ROLE,
+      );
+      if (props.userChoices.videoEnabled && canPublishMedia) {
         room.localParticipant.setCameraEnabled(true).catch((error) => {
           handleError(error);
         });
       }
-      if (props.userChoices.audioEnabled) {
+      if (props.userChoices.audioEnabled && canPublishMedia) {
         room.localParticipant.setMicrophoneEnabled(true).catch((error) => {
           handleError(error);
         });
       }
     }
     return () => {
-      room.off(RoomEvent.Disconnected, handleOnLeave);
       room.off(RoomEvent.EncryptionError, handleEncryptionError);
       room.off(RoomEvent.MediaDevicesError, handleError);
     };
@@ -216,8 +326,6 @@ function WatchPartyConference(props: {
 
   const lowPowerMode = useLowCPUOptimizer(room);
 
-  const router = useRouter();
-  const handleOnLeave = React.useCallback(() => router.push('/'), [router]);
   const handleError = React.useCallback((error: Error) => {
     console.error(error);
     alert(`Encountered an unexpected error, check the console logs for details: ${error.message}`);
@@ -238,11 +346,15 @@ function WatchPartyConference(props: {
   return (
     <div className="lk-room-container">
       <RoomContext.Provider value={room}>
-        <KeyboardShortcuts />
-        {/* WatchParty uses the cinema-style layout */}
-        <WatchPartyLayout />
-        {/* <DebugMode /> */}
-        <RecordingIndicator />
+        <ConnectionDetailsContext.Provider value={connectionDetails}>
+          <KeyboardShortcuts>
+            {/* WatchParty uses the cinema-style layout */}
+            <WatchPartyLayout />
+            {/* <DebugMode /> */}
+          </KeyboardShortcuts>
+          <RecordingIndicator />
+          <GoLiveIndicator />
+        </ConnectionDetailsContext.Provider>
       </RoomContext.Provider>
     </div>
   );
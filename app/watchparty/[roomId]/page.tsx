@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { WatchPartyRoom } from './WatchPartyRoom';
 import { isVideoCodec } from '@/lib/types';
+import { isParticipantRole } from '@/lib/roles';
 
 export default async function Page({
   params,
@@ -11,6 +12,7 @@ export default async function Page({
     region?: string;
     hq?: string;
     codec?: string;
+    role?: string;
   }>;
 }) {
   const _params = await params;
@@ -21,6 +23,8 @@ export default async function Page({
       : 'vp9';
   // WatchParty defaults to high quality for better video watching experience
   const hq = _searchParams.hq === 'false' ? false : true;
+  // Lets hosts share watch-only links, e.g. `?role=guest`
+  const role = isParticipantRole(_searchParams.role) ? _searchParams.role : undefined;
 
   return (
     <WatchPartyRoom
@@ -28,6 +32,7 @@ export default async function Page({
       region={_searchParams.region}
       hq={hq}
       codec={codec}
+      role={role}
     />
   );
 }
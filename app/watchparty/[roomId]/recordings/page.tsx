@@ -0,0 +1,11 @@
+import * as React from 'react';
+import { RecordingsLibrary } from '@/lib/RecordingsLibrary';
+
+export default async function Page({ params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = await params;
+  return (
+    <main data-lk-theme="default" style={{ height: '100%', overflow: 'auto' }}>
+      <RecordingsLibrary roomName={roomId} />
+    </main>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRoomInfo } from '@livekit/components-react';
+import { fetchWithToken, readApiError } from './apiClient';
+import {
+  buildChatTranscript,
+  CHAT_TRANSCRIPT_FORMATS,
+  ChatTranscriptFormat,
+  formatChatTranscript,
+  getChatTranscriptFilename,
+} from './chatTranscript';
+import { downloadFile } from './client-utils';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+import { WatchPartyChat } from './useWatchPartyChat';
+import styles from '../styles/WatchParty.module.css';
+
+const FORMATS = Object.keys(CHAT_TRANSCRIPT_FORMATS) as ChatTranscriptFormat[];
+
+/**
+ * Chat header menu downloading the conversation as JSON, Markdown or plain text.
+ * Everyone can export what their client has seen, moderators can also download the
+ * room's persisted history when `NEXT_PUBLIC_CHAT_HISTORY_ENDPOINT` is configured.
+ */
+export function ChatExportMenu({ chat }: { chat: WatchPartyChat }) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { name } = useRoomInfo();
+  const connectionDetails = useConnectionDetails();
+  const historyEndpoint = process.env.NEXT_PUBLIC_CHAT_HISTORY_ENDPOINT;
+  const roomName = connectionDetails?.roomName ?? name;
+
+  const exportLocal = (format: ChatTranscriptFormat) => {
+    const exportedAt = Date.now();
+    const transcript = buildChatTranscript(roomName, chat.messages, {
+      states: chat.messageStates,
+      systemEvents: chat.systemEvents,
+      blockedWords: chat.policy.blockedWords,
+      exportedAt,
+    });
+    downloadFile(
+      getChatTranscriptFilename(roomName, format, exportedAt),
+      formatChatTranscript(transcript, format),
+      CHAT_TRANSCRIPT_FORMATS[format].contentType,
+    );
+    setOpen(false);
+  };
+
+  const exportArchive = async (format: ChatTranscriptFormat) => {
+    setError(null);
+    try {
+      const response = await fetchWithToken(
+        `${historyEndpoint}/export?${new URLSearchParams({ roomName, format })}`,
+        connectionDetails?.participantToken,
+      );
+      if (!response.ok) {
+        throw new Error(await readApiError(response));
+      }
+      downloadFile(
+        getChatTranscriptFilename(roomName, format),
+        await response.blob(),
+        CHAT_TRANSCRIPT_FORMATS[format].contentType,
+      );
+      setOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className={styles.chatExport}>
+      <button
+        className={styles.chatCloseButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Export chat"
+      >
+        ⤓
+      </button>
+      {open && (
+        <div className={styles.chatExportMenu} role="menu">
+          <div className={styles.streamHeading}>This session</div>
+          {FORMATS.map((format) => (
+            <button
+              key={format}
+              role="menuitem"
+              className={styles.contextMenuItem}
+              onClick={() => exportLocal(format)}
+            >
+              {CHAT_TRANSCRIPT_FORMATS[format].label}
+            </button>
+          ))}
+          {chat.canModerate && historyEndpoint && (
+            <>
+              <div className={styles.streamHeading}>Full room history</div>
+              {FORMATS.map((format) => (
+                <button
+                  key={format}
+                  role="menuitem"
+                  className={styles.contextMenuItem}
+                  onClick={() => exportArchive(format)}
+                >
+                  {CHAT_TRANSCRIPT_FORMATS[format].label}
+                </button>
+              ))}
+            </>
+          )}
+          {error && <div className={styles.mediaUrlError}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
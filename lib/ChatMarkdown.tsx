@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChatMention } from './chat';
+import { ChatToken, parseChatMarkdown } from './chatFormatting';
+import styles from '../styles/WatchParty.module.css';
+
+function Spoiler({ children }: { children: React.ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+  return (
+    <span
+      className={`${styles.chatSpoiler} ${revealed ? styles.revealed : ''}`}
+      onClick={() => setRevealed(true)}
+      title={revealed ? undefined : 'Spoiler, click to reveal'}
+    >
+      {children}
+    </span>
+  );
+}
+
+function renderTokens(tokens: ChatToken[], localIdentity: string): React.ReactNode[] {
+  return tokens.map((token, index) => {
+    switch (token.type) {
+      case 'text':
+        return token.text;
+      case 'code':
+        return (
+          <code key={index} className={styles.chatCode}>
+            {token.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            className={styles.chatLink}
+            href={token.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+          >
+            {token.url}
+          </a>
+        );
+      case 'mention':
+        return (
+          <span
+            key={index}
+            className={`${styles.chatMention} ${token.identity === localIdentity ? styles.self : ''}`}
+          >
+            {token.text}
+          </span>
+        );
+      case 'bold':
+        return <strong key={index}>{renderTokens(token.children, localIdentity)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderTokens(token.children, localIdentity)}</em>;
+      case 'spoiler':
+        return <Spoiler key={index}>{renderTokens(token.children, localIdentity)}</Spoiler>;
+    }
+  });
+}
+
+/**
+ * Renders the text of a chat message with its markdown, links and mentions.
+ */
+export function ChatMarkdown({
+  text,
+  mentions,
+  localIdentity,
+}: {
+  text: string;
+  mentions: ChatMention[];
+  localIdentity: string;
+}) {
+  const tokens = React.useMemo(() => parseChatMarkdown(text, mentions), [text, mentions]);
+  return <>{renderTokens(tokens, localIdentity)}</>;
+}
@@ -0,0 +1,681 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocalParticipant, useParticipants } from '@livekit/components-react';
+import { format } from 'date-fns';
+import EmojiPicker, { EmojiClickData, Theme } from 'emoji-picker-react';
+import {
+  ChatEntry,
+  ChatMention,
+  getMentions,
+  getPlaybackPosition,
+  getSenderName,
+  parseChatPayload,
+} from './chat';
+import { formatTypingIndicator } from './chatActivity';
+import {
+  CHAT_ATTACHMENT_MIME_TYPES,
+  ChatAttachment,
+  ChatAttachmentState,
+  formatSize,
+  getAttachment,
+  getAttachmentFallbackText,
+  getAttachmentState,
+} from './chatAttachments';
+import { ChatMessageState, getChatMessageState, hasReacted } from './chatEvents';
+import { findMentionQuery, getMentionSuggestions, insertMention } from './chatFormatting';
+import { maskBlockedWords } from './chatModeration';
+import { ChatExportMenu } from './ChatExportMenu';
+import { ChatMarkdown } from './ChatMarkdown';
+import { formatPlaybackPosition } from './playbackSync';
+import { REACTION_EMOJIS, ReactionEmoji } from './reactions';
+import { SyncedPlayback } from './useSyncedPlayback';
+import { WatchPartyChat } from './useWatchPartyChat';
+import styles from '../styles/WatchParty.module.css';
+
+const USER_COLORS = [
+  '#f87171', // red-400
+  '#fb923c', // orange-400
+  '#fbbf24', // amber-400
+  '#a3e635', // lime-400
+  '#34d399', // emerald-400
+  '#22d3ee', // cyan-400
+  '#818cf8', // indigo-400
+  '#e879f9', // fuchsia-400
+  '#fb7185', // rose-400
+];
+
+function getUserColor(id: string) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = id.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+}
+
+/**
+ * Inline thumbnail of an image shared in the chat. Spoiler images stay blurred until clicked,
+ * and can be blurred again.
+ */
+function ChatImage({
+  attachment,
+  state,
+}: {
+  attachment: ChatAttachment;
+  state: ChatAttachmentState | undefined;
+}) {
+  const [blurred, setBlurred] = useState(attachment.spoiler === true);
+  if (state?.status === 'receiving') {
+    return (
+      <div className={styles.chatImagePlaceholder}>
+        Receiving image… {Math.round(state.progress * 100)}%
+      </div>
+    );
+  }
+  if (state?.status !== 'ready') {
+    return (
+      <div className={styles.chatImagePlaceholder}>
+        {state?.error ?? 'Image no longer available'} ({attachment.name})
+      </div>
+    );
+  }
+  return (
+    <div className={styles.chatImage}>
+      {blurred ? (
+        <button
+          className={styles.chatImageSpoiler}
+          onClick={() => setBlurred(false)}
+          title="Spoiler, click to reveal"
+        >
+          <img src={state.url} alt={attachment.name} />
+        </button>
+      ) : (
+        <a href={state.url} target="_blank" rel="noopener noreferrer" title="Open full size">
+          <img src={state.url} alt={attachment.name} />
+        </a>
+      )}
+      {attachment.spoiler && !blurred && (
+        <button className={styles.chatReplyButton} onClick={() => setBlurred(true)}>
+          Hide spoiler
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Custom Chat Entry Component
+ */
+function CustomChatEntry({
+  entry,
+  state,
+  attachmentState,
+  isLocal,
+  localIdentity,
+  blockedWords,
+  onReply,
+  onSeek,
+  seekTitle,
+  onReact,
+  onEdit,
+  onDelete,
+}: {
+  entry: ChatEntry;
+  /** Reactions and edits received for the message */
+  state: ChatMessageState;
+  /** Download state of the message's image, if it has one */
+  attachmentState?: ChatAttachmentState;
+  isLocal: boolean;
+  localIdentity: string;
+  blockedWords: string[];
+  onReply: (entry: ChatEntry) => void;
+  /** Jumps to the playback position of the message, left out when it can't */
+  onSeek?: (seconds: number) => void;
+  /** Describes what {@link onSeek} does, or why the position can't be used */
+  seekTitle: string;
+  onReact: (emoji: ReactionEmoji) => void;
+  /** Only passed for the local participant's messages, returns whether the edit was sent */
+  onEdit?: (text: string) => boolean;
+  /** Only passed for the local participant's messages, or to moderators */
+  onDelete?: () => void;
+}) {
+  const [showReactions, setShowReactions] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const content = parseChatPayload(entry.message);
+  const text = state.editedText ?? content.text;
+  const mentions = getMentions(content);
+  const position = getPlaybackPosition(content);
+  const attachment = getAttachment(content);
+  // Image-only messages carry a fallback text for older clients
+  const showText = !attachment || text !== getAttachmentFallbackText(attachment);
+  const isMentioned = !isLocal && mentions.some((m) => m.identity === localIdentity);
+  const displayName = isLocal ? 'Me' : getSenderName(entry.from);
+  const authorColor = isLocal ? undefined : getUserColor(displayName);
+
+  const saveEdit = () => {
+    if (draft === null || !onEdit) return;
+    if (draft.trim() === text || onEdit(draft)) {
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className={`${styles.chatEntry} ${isLocal ? styles.local : ''}`}>
+      <div className={styles.chatHeaderRow}>
+        <span
+          className={styles.chatAuthor}
+          style={authorColor ? { color: authorColor } : undefined}
+        >
+          {displayName}
+        </span>
+        <span className={styles.chatTimestamp}>{format(new Date(entry.timestamp), 'h:mm a')}</span>
+        {position && (
+          <button
+            className={styles.chatPositionChip}
+            onClick={() => onSeek?.(position.seconds)}
+            disabled={!onSeek}
+            title={seekTitle}
+          >
+            @ {formatPlaybackPosition(position.seconds)}
+          </button>
+        )}
+        <button
+          className={styles.chatReplyButton}
+          onClick={() => onReply(entry)}
+          title="Reply to message"
+        >
+          ↩ Reply
+        </button>
+        <button
+          className={styles.chatReplyButton}
+          onClick={() => setShowReactions(!showReactions)}
+          title="React to message"
+        >
+          ☺+
+        </button>
+        {onEdit && (
+          <button
+            className={styles.chatReplyButton}
+            onClick={() => setDraft(text)}
+            title="Edit message"
+          >
+            ✎
+          </button>
+        )}
+        {onDelete && (
+          <button
+            className={styles.chatReplyButton}
+            onClick={onDelete}
+            title="Delete message for everyone"
+          >
+            🗑
+          </button>
+        )}
+      </div>
+      {showReactions && (
+        <div className={styles.chatReactionPicker}>
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onReact(emoji);
+                setShowReactions(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        className={`${styles.chatBubble} ${isLocal ? styles.local : ''} ${isMentioned ? styles.mentioned : ''}`}
+      >
+        {content.replyTo && (
+          <div className={styles.chatReplyContext}>
+            <div
+              className={styles.chatReplyAuthor}
+              style={{ color: getUserColor(content.replyTo.sender) }}
+            >
+              Replying to {content.replyTo.sender}
+            </div>
+            <div className={styles.chatReplyText}>
+              {maskBlockedWords(content.replyTo.text, blockedWords)}
+            </div>
+          </div>
+        )}
+        {draft !== null ? (
+          <input
+            className={styles.chatInput}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                saveEdit();
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                setDraft(null);
+              }
+            }}
+            aria-label="Edit message, Enter to save, Esc to cancel"
+            autoFocus
+          />
+        ) : (
+          <>
+            {attachment && <ChatImage attachment={attachment} state={attachmentState} />}
+            {showText && (
+              <div style={{ whiteSpace: 'pre-wrap' }}>
+                <ChatMarkdown
+                  text={maskBlockedWords(text, blockedWords)}
+                  mentions={mentions}
+                  localIdentity={localIdentity}
+                />
+                {state.editedAt !== undefined && (
+                  <span
+                    className={styles.chatEdited}
+                    title={`Edited ${format(new Date(state.editedAt), 'h:mm a')}`}
+                  >
+                    {' '}
+                    (edited)
+                  </span>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      {state.reactions.length > 0 && (
+        <div className={styles.chatReactions}>
+          {state.reactions.map((reaction) => (
+            <button
+              key={reaction.emoji}
+              className={`${styles.chatReactionChip} ${hasReacted(reaction, localIdentity) ? styles.self : ''}`}
+              onClick={() => onReact(reaction.emoji)}
+              title={reaction.reactors.map((r) => r.name).join(', ')}
+            >
+              {reaction.emoji} {reaction.reactors.length}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Chat side panel shared by the cinema and gallery layouts.
+ * Only mounted while visible, all chat state lives in {@link WatchPartyChat}.
+ */
+export function ChatPanel({
+  chat,
+  playback,
+  onClose,
+}: {
+  chat: WatchPartyChat;
+  /** Used to jump to the positions of timestamped messages */
+  playback: SyncedPlayback;
+  onClose: () => void;
+}) {
+  const { localParticipant } = useLocalParticipant();
+  const { messages, isSending, input, setInput, replyingTo, setReplyingTo, policy } = chat;
+  const isMuted = !chat.canModerate && policy.mutedIdentities.includes(localParticipant.identity);
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const participants = useParticipants();
+  const typingIndicator = formatTypingIndicator(chat.typing);
+  const { pendingAttachment } = chat;
+  const isUploading = chat.uploadProgress !== null;
+  const canAttach = !isMuted && (chat.canModerate || !policy.attachmentsDisabled);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const chatMessagesRef = useRef<HTMLDivElement>(null);
+  const chatInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (chatMessagesRef.current) {
+      chatMessagesRef.current.scrollTop = chatMessagesRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  // Auto-focus input when chat becomes visible
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      chatInputRef.current?.focus();
+    }, 50);
+    return () => clearTimeout(timeout);
+  }, []);
+
+  // Focus input when replying
+  useEffect(() => {
+    if (replyingTo && chatInputRef.current) {
+      setTimeout(() => {
+        chatInputRef.current?.focus();
+      }, 50);
+    }
+  }, [replyingTo]);
+
+  const handleSendMessage = async () => {
+    if (await chat.sendMessage()) {
+      // Keep focus on input after sending
+      setTimeout(() => {
+        chatInputRef.current?.focus();
+      }, 0);
+    }
+  };
+
+  const suggestions = mentionQuery
+    ? getMentionSuggestions(
+        participants
+          .filter((p) => p.identity !== localParticipant.identity)
+          .map((p) => ({ identity: p.identity, name: p.name || p.identity })),
+        mentionQuery.query,
+      )
+    : [];
+
+  const updateMentionQuery = (element: HTMLInputElement) => {
+    const query = findMentionQuery(element.value, element.selectionStart ?? element.value.length);
+    setMentionQuery(query);
+    if (query?.query !== mentionQuery?.query) {
+      setSuggestionIndex(0);
+    }
+  };
+
+  const pickMention = (mention: ChatMention) => {
+    const inputElement = chatInputRef.current;
+    if (!mentionQuery || !inputElement) return;
+    const caret = inputElement.selectionStart ?? input.length;
+    const next = insertMention(input, mentionQuery.start, caret, mention.name);
+    setInput(next.text);
+    chat.addMention(mention);
+    setMentionQuery(null);
+    setTimeout(() => {
+      inputElement.focus();
+      inputElement.setSelectionRange(next.caret, next.caret);
+    }, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(suggestions[Math.min(suggestionIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSendMessage();
+      setShowEmojiPicker(false);
+    }
+  };
+
+  const onEmojiClick = (emojiData: EmojiClickData) => {
+    const inputElement = chatInputRef.current;
+    if (inputElement) {
+      const start = inputElement.selectionStart ?? input.length;
+      const end = inputElement.selectionEnd ?? input.length;
+      const emoji = emojiData.emoji;
+      const newText = input.substring(0, start) + emoji + input.substring(end);
+
+      setInput(newText);
+
+      // Update cursor position after render
+      setTimeout(() => {
+        inputElement.focus();
+        const newCursorPos = start + emoji.length;
+        inputElement.setSelectionRange(newCursorPos, newCursorPos);
+      }, 0);
+    } else {
+      setInput((prev) => prev + emojiData.emoji);
+    }
+  };
+
+  // Close emoji picker on Escape key
+  useEffect(() => {
+    const handleGlobalKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showEmojiPicker) {
+        setShowEmojiPicker(false);
+        chatInputRef.current?.focus();
+      }
+    };
+
+    if (showEmojiPicker) {
+      window.addEventListener('keydown', handleGlobalKeyDown);
+    }
+
+    return () => {
+      window.removeEventListener('keydown', handleGlobalKeyDown);
+    };
+  }, [showEmojiPicker]);
+
+  return (
+    <div className={styles.chatPanel}>
+      <div className={styles.chatHeader}>
+        <span>Chat</span>
+        <div className={styles.chatHeaderActions}>
+          <ChatExportMenu chat={chat} />
+          <button className={styles.chatCloseButton} onClick={onClose}>
+            ✕
+          </button>
+        </div>
+      </div>
+      <div className={styles.chatMessages} ref={chatMessagesRef}>
+        {messages.length === 0 ? (
+          <div className={styles.chatEmpty}>No messages yet. Say hi! 👋</div>
+        ) : (
+          messages.map((msg) => {
+            const isLocal = msg.from?.identity === localParticipant.identity;
+            const payload = parseChatPayload(msg.message);
+            const position = getPlaybackPosition(payload);
+            const attachmentId = getAttachment(payload)?.id;
+            const canSeek = !!position && position.url === playback.snapshot?.state.url;
+            return (
+              <React.Fragment key={msg.id}>
+                {msg.id === chat.lastReadDividerId && (
+                  <div className={styles.chatUnreadDivider} role="separator">
+                    New messages
+                  </div>
+                )}
+                <CustomChatEntry
+                  entry={msg}
+                  state={getChatMessageState(chat.messageStates, msg.id)}
+                  attachmentState={
+                    attachmentId
+                      ? getAttachmentState(chat.attachments, attachmentId, msg.from?.identity)
+                      : undefined
+                  }
+                  isLocal={isLocal}
+                  localIdentity={localParticipant.identity}
+                  blockedWords={policy.blockedWords}
+                  onReply={setReplyingTo}
+                  onSeek={canSeek ? playback.seekTo : undefined}
+                  seekTitle={
+                    !canSeek
+                      ? 'Sent during another video'
+                      : playback.isController
+                        ? 'Jump here for everyone'
+                        : 'Ask the host to jump here'
+                  }
+                  onReact={(emoji) => chat.toggleReaction(msg.id, emoji)}
+                  onEdit={isLocal ? (text) => chat.editMessage(msg.id, text) : undefined}
+                  onDelete={
+                    isLocal || chat.canModerate ? () => chat.deleteMessage(msg.id) : undefined
+                  }
+                />
+              </React.Fragment>
+            );
+          })
+        )}
+      </div>
+      {/* Reply Preview Area */}
+      {replyingTo && (
+        <div className={styles.replyPreview}>
+          <div className={styles.replyPreviewContent}>
+            <div className={styles.replyPreviewHeader}>
+              Replying to {getSenderName(replyingTo.from)}
+            </div>
+            <div className={styles.replyPreviewText}>
+              {maskBlockedWords(parseChatPayload(replyingTo.message).text, policy.blockedWords)}
+            </div>
+          </div>
+          <button className={styles.replyPreviewClose} onClick={() => setReplyingTo(null)}>
+            ✕
+          </button>
+        </div>
+      )}
+      {typingIndicator && <div className={styles.chatTyping}>{typingIndicator}</div>}
+      {pendingAttachment && (
+        <div className={styles.chatAttachmentPreview}>
+          <img
+            src={pendingAttachment.previewUrl}
+            alt=""
+            className={pendingAttachment.spoiler ? styles.spoilered : undefined}
+          />
+          <div className={styles.chatAttachmentInfo}>
+            <span className={styles.chatAttachmentName}>
+              {pendingAttachment.file.name} · {formatSize(pendingAttachment.file.size)}
+            </span>
+            {isUploading ? (
+              <progress value={chat.uploadProgress ?? 0} max={1} />
+            ) : (
+              <label className={styles.controlPopoverOption}>
+                <input
+                  type="checkbox"
+                  checked={pendingAttachment.spoiler}
+                  onChange={chat.toggleAttachmentSpoiler}
+                />
+                Mark as spoiler
+              </label>
+            )}
+          </div>
+          <button
+            className={styles.replyPreviewClose}
+            onClick={chat.removeAttachment}
+            disabled={isUploading}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      {chat.sendError && <div className={styles.chatSendError}>{chat.sendError}</div>}
+      <div
+        className={`${styles.chatInputContainer} ${isDragOver ? styles.dragOver : ''}`}
+        onDragOver={(e) => {
+          if (!canAttach || !e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          setIsDragOver(false);
+          const file = e.dataTransfer.files[0];
+          if (!canAttach || !file) return;
+          e.preventDefault();
+          chat.attachFile(file);
+        }}
+      >
+        {suggestions.length > 0 && (
+          <div className={styles.mentionSuggestions} role="listbox">
+            {suggestions.map((mention, index) => (
+              <button
+                key={mention.identity}
+                role="option"
+                aria-selected={index === suggestionIndex}
+                className={`${styles.contextMenuItem} ${index === suggestionIndex ? styles.active : ''}`}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pickMention(mention);
+                }}
+              >
+                @{mention.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {showEmojiPicker && (
+          <div className={styles.emojiPickerContainer}>
+            <div className={styles.emojiHelpText}>Press Esc to close</div>
+            <EmojiPicker onEmojiClick={onEmojiClick} theme={Theme.DARK} width={300} height={400} />
+          </div>
+        )}
+        <button
+          className={styles.emojiButton}
+          onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+          title="Add emoji"
+        >
+          😀
+        </button>
+        {canAttach && (
+          <>
+            <button
+              className={styles.emojiButton}
+              onClick={() => fileInputRef.current?.click()}
+              title="Share an image, or paste or drop one"
+            >
+              🖼
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={CHAT_ATTACHMENT_MIME_TYPES.join(',')}
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) chat.attachFile(file);
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+        <input
+          ref={chatInputRef}
+          type="text"
+          className={styles.chatInput}
+          placeholder={
+            isMuted
+              ? 'A host has muted your chat'
+              : policy.slowModeSeconds > 0 && !chat.canModerate
+                ? `Slow mode: one message every ${policy.slowModeSeconds}s`
+                : 'Type a message...'
+          }
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            updateMentionQuery(e.target);
+          }}
+          onSelect={(e) => updateMentionQuery(e.currentTarget)}
+          onBlur={() => setMentionQuery(null)}
+          onKeyDown={handleKeyDown}
+          onPaste={(e) => {
+            const file = Array.from(e.clipboardData.files).find((f) => f.type.startsWith('image/'));
+            if (!canAttach || !file) return;
+            e.preventDefault();
+            chat.attachFile(file);
+          }}
+          disabled={isSending || isMuted}
+          autoFocus
+        />
+        <button
+          className={styles.chatSendButton}
+          onClick={handleSendMessage}
+          disabled={isSending || isUploading || (!input.trim() && !pendingAttachment)}
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import React from 'react';
+import { ConnectionDetails } from './types';
+
+/**
+ * Provides the details the current room was joined with, so components can authenticate
+ * against the app's API routes with the participant's token.
+ */
+export const ConnectionDetailsContext = React.createContext<ConnectionDetails | undefined>(
+  undefined,
+);
+
+export function useConnectionDetails() {
+  return React.useContext(ConnectionDetailsContext);
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { getFeaturedShare } from './contentSelection';
+import { useContentSelection } from './useContentSelection';
+import { ScreenShare } from './useScreenShare';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Lists all active screen shares. Hosts pick the featured share for everyone,
+ * other participants can switch locally and return to the host's pick.
+ */
+export function ContentSwitcher({
+  screenShares,
+  content,
+}: {
+  screenShares: ScreenShare[];
+  content: ReturnType<typeof useContentSelection>;
+}) {
+  const featured = getFeaturedShare(screenShares, content.selection);
+
+  return (
+    <div className={styles.contentSwitcher} role="toolbar" aria-label="Shared content">
+      {screenShares.map((share) => {
+        const sid = share.trackRef.publication.trackSid;
+        const isFeatured = share === featured;
+        return (
+          <button
+            key={sid}
+            className={`${styles.contentSwitcherButton} ${isFeatured ? styles.active : ''}`}
+            onClick={() => content.select({ featuredTrackSid: sid })}
+            aria-pressed={isFeatured}
+            title={content.isShared ? 'Feature this share for everyone' : 'Watch this share'}
+          >
+            🖥 {share.isLocal ? 'You' : share.participant.name || share.participant.identity}
+          </button>
+        );
+      })}
+      <button
+        className={`${styles.contentSwitcherButton} ${content.selection.sideBySide ? styles.active : ''}`}
+        onClick={() => content.select({ sideBySide: !content.selection.sideBySide })}
+        aria-pressed={content.selection.sideBySide}
+        title="Show all shares side by side"
+      >
+        ⧉ Side by side
+      </button>
+      {content.isOverridden && (
+        <button className={styles.contentSwitcherButton} onClick={content.followHost}>
+          Follow host
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,9 @@
 import * as React from 'react';
 import { useRoomContext } from '@livekit/components-react';
 import { setLogLevel, LogLevel, RemoteTrackPublication, setLogExtension } from 'livekit-client';
-// @ts-ignore
-import { tinykeys } from 'tinykeys';
 import { datadogLogs } from '@datadog/browser-logs';
 
+import { useShortcut } from './KeyboardShortcuts';
 import styles from '../styles/Debug.module.css';
 
 export const useDebugMode = ({ logLevel }: { logLevel?: LogLevel }) => {
@@ -64,25 +63,17 @@ export const DebugMode = ({ logLevel }: { logLevel?: LogLevel }) => {
 
   useDebugMode({ logLevel });
 
-  React.useEffect(() => {
-    if (window) {
-      const unsubscribe = tinykeys(window, {
-        'Shift+D': () => {
-          console.log('setting open');
-          setIsOpen((open) => !open);
-        },
-      });
+  useShortcut('toggleDebug', () => setIsOpen((open) => !open));
 
-      // timer to re-render
-      const interval = setInterval(() => {
-        setRender({});
-      }, 1000);
+  React.useEffect(() => {
+    // timer to re-render
+    const interval = setInterval(() => {
+      setRender({});
+    }, 1000);
 
-      return () => {
-        unsubscribe();
-        clearInterval(interval);
-      };
-    }
+    return () => {
+      clearInterval(interval);
+    };
   }, [isOpen]);
 
   if (typeof window === 'undefined' || !isOpen) {
@@ -0,0 +1,38 @@
+import { useRoomInfo } from '@livekit/components-react';
+import * as React from 'react';
+import toast from 'react-hot-toast';
+import { parseRoomMetadata } from './roomMetadata';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Shows everyone in the room that the party is being restreamed, based on the `live` flag
+ * the stream routes keep in the room metadata.
+ */
+export function GoLiveIndicator() {
+  const { metadata } = useRoomInfo();
+  const isLive = parseRoomMetadata(metadata).live === true;
+  const [wasLive, setWasLive] = React.useState(false);
+
+  React.useEffect(() => {
+    if (isLive !== wasLive) {
+      setWasLive(isLive);
+      if (isLive) {
+        toast('This party is now streaming live', {
+          duration: 3000,
+          icon: '📡',
+          position: 'top-center',
+          className: 'lk-button',
+          style: {
+            backgroundColor: 'var(--lk-danger3)',
+            color: 'var(--lk-fg)',
+          },
+        });
+      }
+    }
+  }, [isLive, wasLive]);
+
+  if (!isLive) {
+    return null;
+  }
+  return <div className={styles.liveBadge}>● LIVE</div>;
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  DEFAULT_RECORDING_OPTIONS,
+  isRecordingLayout,
+  RECORDING_LAYOUT_LABELS,
+  RECORDING_LAYOUTS,
+  RecordingLayout,
+} from './recordingOptions';
+import { STREAM_MAX_DESTINATIONS } from './streaming';
+import { useStream } from './useStream';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Host controls for restreaming the party to RTMP ingests: start with one or more
+ * destinations, add or drop destinations while live, and end the stream.
+ */
+export function GoLiveMenu() {
+  const [open, setOpen] = useState(false);
+  const stream = useStream(open);
+  const [urls, setUrls] = useState('');
+  const [layout, setLayout] = useState<RecordingLayout>(DEFAULT_RECORDING_OPTIONS.layout);
+  const [newUrl, setNewUrl] = useState('');
+
+  const destinations = stream.stream?.destinations ?? [];
+  const activeCount = destinations.filter((d) => d.status === 'active').length;
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const list = urls
+      .split(/\s+/)
+      .map((url) => url.trim())
+      .filter(Boolean);
+    stream.start(list, layout).then(() => setUrls(''));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    stream.addDestination(newUrl.trim()).then(() => setNewUrl(''));
+  };
+
+  const handleStop = () => {
+    if (!window.confirm('Stop streaming to every destination?')) return;
+    stream.stop();
+  };
+
+  return (
+    <div className={styles.mediaUrlContainer}>
+      {open && (
+        <div className={styles.controlPopover}>
+          {stream.stream ? (
+            <>
+              <div className={styles.streamHeading}>
+                {stream.stream.status === 'starting' ? 'Starting stream…' : 'Streaming to'}
+              </div>
+              {destinations.map(({ id, ...destination }, index) => (
+                // URLs are redacted and may repeat, LiveKit lists destinations in a stable order
+                <div key={id ?? index} className={styles.streamDestination}>
+                  <span
+                    className={`${styles.streamDestinationStatus} ${styles[destination.status]}`}
+                    title={destination.error ?? destination.status}
+                  />
+                  <span className={styles.streamDestinationUrl} title={destination.url}>
+                    {destination.url}
+                  </span>
+                  {id && destination.status === 'active' && activeCount > 1 && (
+                    <button
+                      className={styles.mediaUrlButton}
+                      onClick={() => stream.removeDestination(id)}
+                      disabled={stream.pending}
+                      title="Stop streaming to this destination"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {activeCount < STREAM_MAX_DESTINATIONS && (
+                <form className={styles.streamForm} onSubmit={handleAdd}>
+                  <input
+                    type="text"
+                    className={styles.chatInput}
+                    placeholder="rtmp://live.example.com/app/key"
+                    value={newUrl}
+                    onChange={(e) => setNewUrl(e.target.value)}
+                  />
+                  <button
+                    type="submit"
+                    className={styles.chatSendButton}
+                    disabled={stream.pending || !newUrl.trim()}
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+              <button
+                className={`${styles.contextMenuItem} ${styles.danger}`}
+                onClick={handleStop}
+                disabled={stream.pending}
+              >
+                End stream
+              </button>
+            </>
+          ) : (
+            <form className={styles.streamForm} onSubmit={handleStart}>
+              <textarea
+                className={styles.chatInput}
+                placeholder={`RTMP URLs, one per line (up to ${STREAM_MAX_DESTINATIONS})`}
+                rows={3}
+                value={urls}
+                onChange={(e) => setUrls(e.target.value)}
+              />
+              <select
+                className={styles.chatInput}
+                value={layout}
+                onChange={(e) => isRecordingLayout(e.target.value) && setLayout(e.target.value)}
+              >
+                {RECORDING_LAYOUTS.map((option) => (
+                  <option key={option} value={option}>
+                    {RECORDING_LAYOUT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className={styles.chatSendButton}
+                disabled={stream.pending || !urls.trim()}
+              >
+                Go Live
+              </button>
+            </form>
+          )}
+          {stream.error && <div className={styles.mediaUrlError}>{stream.error}</div>}
+        </div>
+      )}
+      <button
+        className={styles.mediaUrlButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Stream the party to YouTube, Twitch or any RTMP ingest"
+      >
+        📡 Go Live
+      </button>
+    </div>
+  );
+}
@@ -2,30 +2,161 @@
 
 import React from 'react';
 import { Track } from 'livekit-client';
-import { useTrackToggle } from '@livekit/components-react';
+import { useLocalParticipantPermissions, useTrackToggle } from '@livekit/components-react';
+// @ts-ignore
+import { tinykeys } from 'tinykeys';
+import {
+  findConflicts,
+  getDefaultBindings,
+  loadBindings,
+  saveBindings,
+  ShortcutAction,
+  ShortcutBindings,
+} from './shortcuts';
+import { ShortcutHelpOverlay } from './ShortcutHelpOverlay';
 
-export function KeyboardShortcuts() {
-  const { toggle: toggleMic } = useTrackToggle({ source: Track.Source.Microphone });
-  const { toggle: toggleCamera } = useTrackToggle({ source: Track.Source.Camera });
+export interface ShortcutRegistry {
+  bindings: ShortcutBindings;
+  /** Actions that currently have a handler, only those are listed and triggered */
+  activeActions: ShortcutAction[];
+  register: (action: ShortcutAction, handler: () => void) => () => void;
+  rebind: (action: ShortcutAction, binding: string) => void;
+  resetBindings: () => void;
+  /** Suspends all shortcuts, e.g. while a new binding is being recorded */
+  setSuspended: (suspended: boolean) => void;
+}
+
+const ShortcutRegistryContext = React.createContext<ShortcutRegistry | undefined>(undefined);
+
+export function useShortcutRegistry() {
+  return React.useContext(ShortcutRegistryContext);
+}
+
+/**
+ * Registers a handler for a shortcut action while the calling component is mounted.
+ * The handler may change between renders without re-registering.
+ */
+export function useShortcut(action: ShortcutAction, handler: () => void, enabled = true) {
+  const registry = useShortcutRegistry();
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+  const register = registry?.register;
 
   React.useEffect(() => {
-    function handleShortcut(event: KeyboardEvent) {
-      // Toggle microphone: Cmd/Ctrl-Shift-A
-      if (toggleMic && event.key === 'A' && (event.ctrlKey || event.metaKey)) {
-        event.preventDefault();
-        toggleMic();
+    if (!register || !enabled) {
+      return;
+    }
+    return register(action, () => handlerRef.current());
+  }, [register, action, enabled]);
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.tagName === 'INPUT' ||
+      target.tagName === 'TEXTAREA' ||
+      target.tagName === 'SELECT')
+  );
+}
+
+/**
+ * Keyboard shortcut registry. Components below it register handlers with `useShortcut`,
+ * bindings can be changed by the user from the help overlay and are stored in localStorage.
+ * Shortcuts are ignored while typing, e.g. in the chat input.
+ */
+export function KeyboardShortcuts({ children }: { children?: React.ReactNode }) {
+  const [bindings, setBindings] = React.useState<ShortcutBindings>(() =>
+    loadBindings(typeof window === 'undefined' ? undefined : window.localStorage),
+  );
+  const handlers = React.useRef(new Map<ShortcutAction, () => void>());
+  const [activeActions, setActiveActions] = React.useState<ShortcutAction[]>([]);
+  const [helpOpen, setHelpOpen] = React.useState(false);
+  const suspended = React.useRef(false);
+
+  const register = React.useCallback((action: ShortcutAction, handler: () => void) => {
+    handlers.current.set(action, handler);
+    setActiveActions(Array.from(handlers.current.keys()));
+    return () => {
+      if (handlers.current.get(action) === handler) {
+        handlers.current.delete(action);
+        setActiveActions(Array.from(handlers.current.keys()));
       }
+    };
+  }, []);
 
-      // Toggle camera: Cmd/Ctrl-Shift-V
-      if (event.key === 'V' && (event.ctrlKey || event.metaKey)) {
-        event.preventDefault();
-        toggleCamera();
+  const setSuspended = React.useCallback((value: boolean) => {
+    suspended.current = value;
+  }, []);
+
+  const updateBindings = React.useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    saveBindings(window.localStorage, next);
+  }, []);
+
+  const registry = React.useMemo<ShortcutRegistry>(
+    () => ({
+      bindings,
+      activeActions,
+      register,
+      rebind: (action, binding) => updateBindings({ ...bindings, [action]: binding }),
+      resetBindings: () => updateBindings(getDefaultBindings()),
+      setSuspended,
+    }),
+    [bindings, activeActions, register, setSuspended, updateBindings],
+  );
+
+  React.useEffect(() => {
+    // Conflicting actions are flagged in the overlay, only the first one is triggered here
+    const conflicted = new Set(findConflicts(bindings).flatMap((actions) => actions.slice(1)));
+    const keyBindingMap: Record<string, (event: KeyboardEvent) => void> = {};
+    for (const action of activeActions) {
+      const binding = bindings[action];
+      if (!binding || conflicted.has(action) || keyBindingMap[binding]) {
+        continue;
       }
+      keyBindingMap[binding] = (event) => {
+        if (suspended.current || isEditableTarget(event.target)) {
+          return;
+        }
+        event.preventDefault();
+        handlers.current.get(action)?.();
+      };
     }
+    return tinykeys(window, keyBindingMap);
+  }, [bindings, activeActions]);
+
+  return (
+    <ShortcutRegistryContext.Provider value={registry}>
+      <HelpShortcut onToggle={() => setHelpOpen((open) => !open)} />
+      <MediaShortcuts />
+      {children}
+      {helpOpen && <ShortcutHelpOverlay registry={registry} onClose={() => setHelpOpen(false)} />}
+    </ShortcutRegistryContext.Provider>
+  );
+}
+
+function HelpShortcut({ onToggle }: { onToggle: () => void }) {
+  useShortcut('showShortcuts', onToggle);
+  return null;
+}
+
+function MediaShortcuts() {
+  const permissions = useLocalParticipantPermissions();
+  const { toggle: toggleMic } = useTrackToggle({ source: Track.Source.Microphone });
+  const { toggle: toggleCamera } = useTrackToggle({ source: Track.Source.Camera });
+  const { toggle: toggleScreenShare } = useTrackToggle({ source: Track.Source.ScreenShare });
+
+  // Only offer shortcuts for sources the participant's token allows publishing
+  const canPublish = (source: Track.Source) =>
+    !permissions ||
+    (permissions.canPublish &&
+      (permissions.canPublishSources.length === 0 ||
+        permissions.canPublishSources.includes(Track.sourceToProto(source))));
 
-    window.addEventListener('keydown', handleShortcut);
-    return () => window.removeEventListener('keydown', handleShortcut);
-  }, [toggleMic, toggleCamera]);
+  useShortcut('toggleMicrophone', () => toggleMic(), canPublish(Track.Source.Microphone));
+  useShortcut('toggleCamera', () => toggleCamera(), canPublish(Track.Source.Camera));
+  useShortcut('toggleScreenShare', () => toggleScreenShare(), canPublish(Track.Source.ScreenShare));
 
   return null;
 }
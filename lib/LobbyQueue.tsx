@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useLobbyQueue } from './useLobbyQueue';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Lobby controls for the host: turns the lobby on and off and lists joiners waiting to be
+ * admitted. Opens by itself when someone new starts waiting.
+ */
+export function LobbyQueue() {
+  const lobby = useLobbyQueue();
+  const [open, setOpen] = useState(false);
+  const previousCount = useRef(0);
+
+  useEffect(() => {
+    if (lobby.requests.length > previousCount.current) {
+      setOpen(true);
+    }
+    previousCount.current = lobby.requests.length;
+  }, [lobby.requests.length]);
+
+  return (
+    <div className={styles.mediaUrlContainer}>
+      {open && (
+        <div className={styles.controlPopover}>
+          <label className={styles.controlPopoverOption}>
+            <input
+              type="checkbox"
+              checked={lobby.enabled}
+              onChange={(e) => lobby.dispatch({ type: 'setEnabled', enabled: e.target.checked })}
+            />
+            Ask joiners to wait in the lobby
+          </label>
+          {lobby.enabled && lobby.requests.length === 0 && (
+            <div className={styles.lobbyEmpty}>Nobody is waiting</div>
+          )}
+          {lobby.requests.map((request) => (
+            <div key={request.ticket} className={styles.lobbyRequest}>
+              <span className={styles.lobbyRequestName}>{request.participantName}</span>
+              <button
+                className={styles.chatSendButton}
+                onClick={() => lobby.dispatch({ type: 'admit', ticket: request.ticket })}
+              >
+                Admit
+              </button>
+              <button
+                className={styles.mediaUrlButton}
+                onClick={() => lobby.dispatch({ type: 'deny', ticket: request.ticket })}
+              >
+                Deny
+              </button>
+            </div>
+          ))}
+          {lobby.error && <div className={styles.mediaUrlError}>{lobby.error}</div>}
+        </div>
+      )}
+      <button
+        className={styles.mediaUrlButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Manage who can join the room"
+      >
+        🚪 Lobby
+        {lobby.requests.length > 0 && (
+          <span className={styles.lobbyBadge}>{lobby.requests.length}</span>
+        )}
+      </button>
+    </div>
+  );
+}
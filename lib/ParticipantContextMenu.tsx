@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Participant, Track } from 'livekit-client';
+import { getParticipantRole } from './roles';
+import { useChatPolicy } from './useChatPolicy';
+import { useModeration } from './useModeration';
+import styles from '../styles/WatchParty.module.css';
+
+interface MenuAction {
+  label: string;
+  run: () => Promise<unknown>;
+  danger?: boolean;
+}
+
+/**
+ * Host actions for a single participant, opened by right-clicking their tile.
+ */
+export function ParticipantContextMenu({
+  participant,
+  position,
+  onClose,
+}: {
+  participant: Participant;
+  position: { x: number; y: number };
+  onClose: () => void;
+}) {
+  const moderation = useModeration();
+  const chatPolicy = useChatPolicy();
+  const ref = useRef<HTMLDivElement>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const role = getParticipantRole(participant);
+  const name = participant.name || participant.identity;
+
+  // Close when clicking anywhere else or pressing Escape
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const actions: MenuAction[] = [];
+  if (participant.isMicrophoneEnabled) {
+    actions.push({
+      label: 'Mute microphone',
+      run: () => moderation.mute(participant.identity, 'microphone'),
+    });
+  }
+  if (participant.isCameraEnabled) {
+    actions.push({
+      label: 'Turn off camera',
+      run: () => moderation.mute(participant.identity, 'camera'),
+    });
+  }
+  if (participant.getTrackPublication(Track.Source.ScreenShare)) {
+    actions.push({
+      label: 'Stop screen share',
+      run: () => moderation.mute(participant.identity, 'screen_share'),
+    });
+  }
+  if (chatPolicy.mutedIdentities.includes(participant.identity)) {
+    actions.push({
+      label: 'Unmute chat',
+      run: () => moderation.updateChatPolicy({ unmute: participant.identity }),
+    });
+  } else {
+    actions.push({
+      label: 'Mute chat',
+      run: () => moderation.updateChatPolicy({ mute: participant.identity }),
+    });
+  }
+  if (role !== 'cohost') {
+    actions.push({
+      label: 'Make co-host',
+      run: () => moderation.setRole(participant.identity, 'cohost'),
+    });
+  }
+  if (role !== 'viewer') {
+    actions.push({
+      label: 'Make viewer',
+      run: () => moderation.setRole(participant.identity, 'viewer'),
+    });
+  }
+  if (role !== 'guest') {
+    actions.push({
+      label: 'Allow watching and chat only',
+      run: () => moderation.setRole(participant.identity, 'guest'),
+    });
+  }
+  actions.push({
+    label: 'Remove from room',
+    run: () => moderation.remove(participant.identity),
+    danger: true,
+  });
+
+  const handleAction = async (action: MenuAction) => {
+    setPending(true);
+    setError(null);
+    try {
+      await action.run();
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      className={styles.contextMenu}
+      style={{ left: position.x, top: position.y }}
+      role="menu"
+      aria-label={`Moderate ${name}`}
+    >
+      <div className={styles.contextMenuTitle}>{name}</div>
+      {actions.map((action) => (
+        <button
+          key={action.label}
+          role="menuitem"
+          className={`${styles.contextMenuItem} ${action.danger ? styles.danger : ''}`}
+          disabled={pending}
+          onClick={() => handleAction(action)}
+        >
+          {action.label}
+        </button>
+      ))}
+      {error && <div className={styles.mediaUrlError}>{error}</div>}
+    </div>
+  );
+}
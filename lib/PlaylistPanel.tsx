@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from 'react';
+import { isValidMediaUrl } from './playbackSync';
+import {
+  getNextPlaylistItem,
+  PLAYLIST_NOTE_MAX_LENGTH,
+  PLAYLIST_TITLE_MAX_LENGTH,
+  PlaylistItem,
+} from './playlist';
+import { Playlist } from './usePlaylist';
+import styles from '../styles/WatchParty.module.css';
+
+function PlaylistEntry({
+  item,
+  index,
+  count,
+  isNext,
+  playlist,
+  onPlay,
+}: {
+  item: PlaylistItem;
+  index: number;
+  count: number;
+  isNext: boolean;
+  playlist: Playlist;
+  onPlay?: (item: PlaylistItem) => void;
+}) {
+  return (
+    <div className={`${styles.playlistItem} ${item.approved ? '' : styles.pending}`}>
+      <div className={styles.playlistItemTitle} title={item.url}>
+        {item.title}
+      </div>
+      {item.note && <div className={styles.playlistItemNote}>{item.note}</div>}
+      <div className={styles.playlistItemMeta}>
+        {isNext && <span className={styles.playlistNext}>Next · </span>}
+        {item.approved ? 'Added' : 'Suggested'} by {item.proposedByName}
+      </div>
+      {playlist.canManage && (
+        <div className={styles.playlistItemActions}>
+          {item.approved ? (
+            onPlay && (
+              <button className={styles.contextMenuItem} onClick={() => onPlay(item)}>
+                ▶ Play now
+              </button>
+            )
+          ) : (
+            <button
+              className={styles.contextMenuItem}
+              onClick={() => playlist.update({ type: 'approve', id: item.id })}
+            >
+              ✓ Approve
+            </button>
+          )}
+          <button
+            className={styles.contextMenuItem}
+            onClick={() => playlist.update({ type: 'move', id: item.id, offset: -1 })}
+            disabled={index === 0}
+            title="Move up"
+          >
+            ↑
+          </button>
+          <button
+            className={styles.contextMenuItem}
+            onClick={() => playlist.update({ type: 'move', id: item.id, offset: 1 })}
+            disabled={index === count - 1}
+            title="Move down"
+          >
+            ↓
+          </button>
+          <button
+            className={`${styles.contextMenuItem} ${styles.danger}`}
+            onClick={() => playlist.update({ type: 'remove', id: item.id })}
+            title="Remove from the queue"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Up-next side panel shown next to the chat. Everyone can suggest videos, moderators
+ * approve, reorder and play them.
+ */
+export function PlaylistPanel({
+  playlist,
+  onPlay,
+  onClose,
+}: {
+  playlist: Playlist;
+  /** Loads an item for everyone, only passed to participants who control playback */
+  onPlay?: (item: PlaylistItem) => void;
+  onClose: () => void;
+}) {
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const next = getNextPlaylistItem(playlist.items);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidMediaUrl(url.trim())) {
+      setError('Enter a valid http(s) media URL');
+      return;
+    }
+    if (!playlist.propose({ url: url.trim(), title, note })) {
+      setError('There is no host around to approve suggestions');
+      return;
+    }
+    setUrl('');
+    setTitle('');
+    setNote('');
+    setError(null);
+  };
+
+  return (
+    <div className={styles.chatPanel}>
+      <div className={styles.chatHeader}>
+        <span>Up next</span>
+        <button className={styles.chatCloseButton} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+      <div className={styles.chatMessages}>
+        {playlist.items.length === 0 ? (
+          <div className={styles.chatEmpty}>Nothing queued yet</div>
+        ) : (
+          playlist.items.map((item, index) => (
+            <PlaylistEntry
+              key={item.id}
+              item={item}
+              index={index}
+              count={playlist.items.length}
+              isNext={item === next}
+              playlist={playlist}
+              onPlay={onPlay}
+            />
+          ))
+        )}
+      </div>
+      <form className={styles.playlistForm} onSubmit={handleSubmit}>
+        <input
+          type="url"
+          className={styles.chatInput}
+          placeholder="https://example.com/movie.mp4"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <input
+          type="text"
+          className={styles.chatInput}
+          placeholder="Title"
+          maxLength={PLAYLIST_TITLE_MAX_LENGTH}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <input
+          type="text"
+          className={styles.chatInput}
+          placeholder="Note (optional)"
+          maxLength={PLAYLIST_NOTE_MAX_LENGTH}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          className={styles.chatSendButton}
+          disabled={!url.trim() || !title.trim()}
+        >
+          {playlist.canManage ? 'Add to queue' : 'Suggest'}
+        </button>
+        {error && <div className={styles.mediaUrlError}>{error}</div>}
+      </form>
+    </div>
+  );
+}
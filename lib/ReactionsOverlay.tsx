@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { useShortcut } from './KeyboardShortcuts';
+import { FloatingReaction, REACTION_EMOJIS, ReactionEmoji } from './reactions';
+import styles from '../styles/WatchParty.module.css';
+
+function ReactionButton({ emoji, onReact }: { emoji: ReactionEmoji; onReact: () => void }) {
+  useShortcut(`react:${emoji}`, onReact);
+
+  return (
+    <button className={styles.reactionButton} onClick={onReact} title={`React with ${emoji}`}>
+      {emoji}
+    </button>
+  );
+}
+
+export function ReactionsBar({ onReact }: { onReact: (emoji: ReactionEmoji) => void }) {
+  return (
+    <div className={styles.reactionsBar} role="toolbar" aria-label="Reactions">
+      {REACTION_EMOJIS.map((emoji) => (
+        <ReactionButton key={emoji} emoji={emoji} onReact={() => onReact(emoji)} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Floats reactions up over the main content, never intercepts pointer events.
+ */
+export function ReactionsOverlay({ reactions }: { reactions: FloatingReaction[] }) {
+  return (
+    <div className={styles.reactionsOverlay} aria-hidden>
+      {reactions.map((reaction) => (
+        <span
+          key={reaction.id}
+          className={styles.floatingReaction}
+          style={{ left: `${reaction.left}%` }}
+        >
+          {reaction.emoji}
+          {reaction.count > 1 && <span className={styles.reactionCount}>x{reaction.count}</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
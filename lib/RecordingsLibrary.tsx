@@ -0,0 +1,143 @@
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { readApiError } from './apiClient';
+import type { RecordingDownload } from './recordings';
+import type { RecordingRecord } from './roomEvents';
+import styles from '../styles/Recordings.module.css';
+
+const RECORDINGS_ENDPOINT = process.env.NEXT_PUBLIC_RECORDINGS_ENDPOINT ?? '/api/recordings';
+
+const STATUS_LABELS: Record<RecordingRecord['status'], string> = {
+  active: 'Recording…',
+  complete: 'Ready',
+  failed: 'Failed',
+};
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0
+    ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+    : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Lists a room's recordings for its host, who is recognised by their session cookie.
+ */
+export function RecordingsLibrary({ roomName }: { roomName: string }) {
+  const [recordings, setRecordings] = React.useState<RecordingRecord[] | undefined>(undefined);
+  const [error, setError] = React.useState<string | null>(null);
+  const [downloading, setDownloading] = React.useState<string | null>(null);
+  const query = React.useMemo(() => new URLSearchParams({ roomName }), [roomName]);
+
+  const load = React.useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`${RECORDINGS_ENDPOINT}?${query}`);
+      if (!response.ok) {
+        throw new Error(await readApiError(response));
+      }
+      const body: { recordings: RecordingRecord[] } = await response.json();
+      setRecordings(body.recordings);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [query]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  const download = async (egressId: string) => {
+    setDownloading(egressId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `${RECORDINGS_ENDPOINT}/download?${new URLSearchParams({ roomName, egressId })}`,
+      );
+      if (!response.ok) {
+        throw new Error(await readApiError(response));
+      }
+      const { url }: RecordingDownload = await response.json();
+      window.location.assign(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className={styles.library}>
+      <header className={styles.header}>
+        <h1>Recordings</h1>
+        <p>{roomName}</p>
+        <button className="lk-button" onClick={load}>
+          Refresh
+        </button>
+      </header>
+      {error && (
+        <p role="alert" className={styles.error}>
+          {error}
+        </p>
+      )}
+      {recordings?.length === 0 && <p className={styles.empty}>This room has no recordings yet.</p>}
+      {recordings && recordings.length > 0 && (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Duration</th>
+              <th>Size</th>
+              <th>Status</th>
+              <th>File</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {recordings.map((recording) => (
+              <tr key={recording.egressId}>
+                <td>{format(recording.startedAt, 'PPp')}</td>
+                <td>{recording.duration ? formatDuration(recording.duration) : '–'}</td>
+                <td>{recording.size ? formatSize(recording.size) : '–'}</td>
+                <td>
+                  {STATUS_LABELS[recording.status]}
+                  {recording.error && <div className={styles.error}>{recording.error}</div>}
+                </td>
+                <td className={styles.location} title={recording.location}>
+                  {recording.filename ?? '–'}
+                </td>
+                <td>
+                  <button
+                    className="lk-button"
+                    disabled={
+                      recording.status !== 'complete' || recording.segmented || downloading !== null
+                    }
+                    title={
+                      recording.segmented
+                        ? 'HLS recordings can only be fetched from the bucket'
+                        : undefined
+                    }
+                    onClick={() => download(recording.egressId)}
+                  >
+                    {downloading === recording.egressId ? 'Preparing…' : 'Download'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { CHAT_SLOW_MODE_OPTIONS, ChatPolicyUpdate } from './chatModeration';
+import { useChatPolicy } from './useChatPolicy';
+import { useModeration } from './useModeration';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Room wide host actions: lock the room against new joins, set the chat rules,
+ * browse its recordings and end it for everyone.
+ */
+export function RoomModerationMenu() {
+  const room = useRoomContext();
+  const moderation = useModeration();
+  const [open, setOpen] = useState(false);
+  const [locked, setLocked] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const chatPolicy = useChatPolicy();
+  const [blockedWords, setBlockedWords] = useState('');
+
+  useEffect(() => {
+    if (open) setBlockedWords(chatPolicy.blockedWords.join(', '));
+  }, [open, chatPolicy.blockedWords]);
+
+  useEffect(() => {
+    if (!open) return;
+    moderation
+      .isLocked()
+      .then(setLocked)
+      .catch((e) => setError(e.message));
+  }, [open, moderation]);
+
+  const toggleLock = async () => {
+    setError(null);
+    try {
+      await moderation.setLocked(!locked);
+      setLocked(!locked);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const updateChatPolicy = async (update: ChatPolicyUpdate) => {
+    setError(null);
+    try {
+      await moderation.updateChatPolicy(update);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const endRoom = async () => {
+    if (!window.confirm('End the WatchParty for everyone?')) return;
+    setError(null);
+    try {
+      await moderation.endRoom();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className={styles.mediaUrlContainer}>
+      {open && (
+        <div className={styles.controlPopover}>
+          <label className={styles.controlPopoverOption}>
+            <input
+              type="checkbox"
+              checked={locked ?? false}
+              disabled={locked === null}
+              onChange={toggleLock}
+            />
+            Lock room against new joins
+          </label>
+          <label className={styles.controlPopoverOption}>
+            Chat slow mode
+            <select
+              value={chatPolicy.slowModeSeconds}
+              onChange={(e) => updateChatPolicy({ slowModeSeconds: Number(e.target.value) })}
+            >
+              {CHAT_SLOW_MODE_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? 'Off' : `${seconds}s`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.controlPopoverOption}>
+            <input
+              type="checkbox"
+              checked={!chatPolicy.attachmentsDisabled}
+              onChange={(e) => updateChatPolicy({ attachmentsDisabled: !e.target.checked })}
+            />
+            Allow images in chat
+          </label>
+          <form
+            className={styles.streamForm}
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateChatPolicy({ blockedWords: blockedWords.split(',') });
+            }}
+          >
+            <input
+              type="text"
+              className={styles.chatInput}
+              placeholder="Blocked words, separated by commas"
+              value={blockedWords}
+              onChange={(e) => setBlockedWords(e.target.value)}
+            />
+            <button type="submit" className={styles.mediaUrlButton}>
+              Save blocked words
+            </button>
+          </form>
+          <a
+            className={styles.contextMenuItem}
+            href={`/watchparty/${encodeURIComponent(room.name)}/recordings`}
+            target="_blank"
+            rel="noopener"
+          >
+            Recordings
+          </a>
+          <button className={`${styles.contextMenuItem} ${styles.danger}`} onClick={endRoom}>
+            End for everyone
+          </button>
+          {error && <div className={styles.mediaUrlError}>{error}</div>}
+        </div>
+      )}
+      <button
+        className={styles.mediaUrlButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Room controls"
+      >
+        {locked ? '🔒' : '🛡'} Room
+      </button>
+    </div>
+  );
+}
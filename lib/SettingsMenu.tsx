@@ -11,6 +11,20 @@ import {
 import styles from '../styles/SettingsMenu.module.css';
 // import { CameraSettings } from './CameraSettings';
 import { MicrophoneSettings } from './MicrophoneSettings';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+import { fetchWithToken, readApiError } from './apiClient';
+import {
+  DEFAULT_RECORDING_OPTIONS,
+  RECORDING_LAYOUT_LABELS,
+  RECORDING_LAYOUTS,
+  RECORDING_OUTPUT_LABELS,
+  RECORDING_OUTPUTS,
+  RecordingLayout,
+  RecordingOptions,
+  RecordingOutput,
+  toRecordingQuery,
+  usesLayout,
+} from './recordingOptions';
 /**
  * @alpha
  */
@@ -22,6 +36,7 @@ export interface SettingsMenuProps extends React.HTMLAttributes<HTMLDivElement>
 export function SettingsMenu(props: SettingsMenuProps) {
   const layoutContext = useMaybeLayoutContext();
   const room = useRoomContext();
+  const connectionDetails = useConnectionDetails();
   const recordingEndpoint = process.env.NEXT_PUBLIC_LK_RECORD_ENDPOINT;
 
   const settings = React.useMemo(() => {
@@ -40,6 +55,9 @@ export function SettingsMenu(props: SettingsMenuProps) {
   const isRecording = useIsRecording();
   const [initialRecStatus, setInitialRecStatus] = React.useState(isRecording);
   const [processingRecRequest, setProcessingRecRequest] = React.useState(false);
+  const [recordingError, setRecordingError] = React.useState<string | null>(null);
+  const [recordingOptions, setRecordingOptions] =
+    React.useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
 
   React.useEffect(() => {
     if (initialRecStatus !== isRecording) {
@@ -55,20 +73,25 @@ export function SettingsMenu(props: SettingsMenuProps) {
       throw Error('Recording of encrypted meetings is currently not supported');
     }
     setProcessingRecRequest(true);
+    setRecordingError(null);
     setInitialRecStatus(isRecording);
+    // The recording API only accepts requests from the room's host
+    const token = connectionDetails?.participantToken;
     let response: Response;
     if (isRecording) {
-      response = await fetch(recordingEndpoint + `/stop?roomName=${room.name}`);
+      response = await fetchWithToken(recordingEndpoint + `/stop?roomName=${room.name}`, token);
     } else {
-      response = await fetch(recordingEndpoint + `/start?roomName=${room.name}`);
+      const query = new URLSearchParams({
+        roomName: room.name,
+        ...toRecordingQuery(recordingOptions),
+      });
+      response = await fetchWithToken(recordingEndpoint + `/start?${query}`, token);
     }
     if (response.ok) {
     } else {
-      console.error(
-        'Error handling recording request, check server logs:',
-        response.status,
-        response.statusText,
-      );
+      const reason = await readApiError(response);
+      console.error('Error handling recording request:', response.status, reason);
+      setRecordingError(reason);
       setProcessingRecRequest(false);
     }
   };
@@ -134,9 +157,56 @@ export function SettingsMenu(props: SettingsMenuProps) {
                   ? 'Meeting is currently being recorded'
                   : 'No active recordings for this meeting'}
               </p>
+              {!isRecording && (
+                <div className={styles.recordingOptions}>
+                  <label>
+                    Format
+                    <select
+                      value={recordingOptions.output}
+                      disabled={processingRecRequest}
+                      onChange={(e) =>
+                        setRecordingOptions({
+                          ...recordingOptions,
+                          output: e.target.value as RecordingOutput,
+                        })
+                      }
+                    >
+                      {RECORDING_OUTPUTS.map((output) => (
+                        <option key={output} value={output}>
+                          {RECORDING_OUTPUT_LABELS[output]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Layout
+                    <select
+                      value={recordingOptions.layout}
+                      disabled={processingRecRequest || !usesLayout(recordingOptions.output)}
+                      onChange={(e) =>
+                        setRecordingOptions({
+                          ...recordingOptions,
+                          layout: e.target.value as RecordingLayout,
+                        })
+                      }
+                    >
+                      {RECORDING_LAYOUTS.map((layout) => (
+                        <option key={layout} value={layout}>
+                          {RECORDING_LAYOUT_LABELS[layout]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
               <button disabled={processingRecRequest} onClick={() => toggleRoomRecording()}>
                 {isRecording ? 'Stop' : 'Start'} Recording
               </button>
+              {recordingError && (
+                <p role="alert" style={{ color: 'var(--lk-danger)' }}>
+                  {recordingError}
+                </p>
+              )}
             </section>
           </>
         )}
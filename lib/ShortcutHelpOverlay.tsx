@@ -0,0 +1,133 @@
+'use client';
+
+import React from 'react';
+import type { ShortcutRegistry } from './KeyboardShortcuts';
+import {
+  bindingFromEvent,
+  findConflicts,
+  formatBinding,
+  normalizeBinding,
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+} from './shortcuts';
+import styles from '../styles/KeyboardShortcuts.module.css';
+
+/**
+ * Lists every active shortcut and lets the user record a new binding for it.
+ */
+export function ShortcutHelpOverlay({
+  registry,
+  onClose,
+}: {
+  registry: ShortcutRegistry;
+  onClose: () => void;
+}) {
+  const [recording, setRecording] = React.useState<ShortcutAction | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const { setSuspended } = registry;
+  React.useEffect(() => {
+    setSuspended(recording !== null);
+    return () => setSuspended(false);
+  }, [recording, setSuspended]);
+
+  // Record the next key press as the new binding, Escape cancels recording or closes the overlay
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        if (recording) {
+          setRecording(null);
+        } else {
+          onClose();
+        }
+        return;
+      }
+      if (!recording) return;
+      const binding = bindingFromEvent(event);
+      if (!binding) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      const conflict = SHORTCUT_DEFINITIONS.find(
+        ({ action }) =>
+          action !== recording &&
+          registry.bindings[action] &&
+          normalizeBinding(registry.bindings[action]) === binding,
+      );
+      if (conflict) {
+        setError(`${formatBinding(binding)} is already used for "${conflict.label}"`);
+        return;
+      }
+      registry.rebind(recording, binding);
+      setRecording(null);
+      setError(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [registry, recording, onClose]);
+
+  const conflicting = new Set(findConflicts(registry.bindings).flat());
+  const definitions = SHORTCUT_DEFINITIONS.filter(({ action }) =>
+    registry.activeActions.includes(action),
+  );
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={styles.header}>
+          <h2>Keyboard shortcuts</h2>
+          <button className="lk-button" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+        <table className={styles.table}>
+          <tbody>
+            {definitions.map(({ action, label }) => (
+              <tr key={action} className={conflicting.has(action) ? styles.conflict : undefined}>
+                <td>{label}</td>
+                <td>
+                  <kbd className={styles.binding}>
+                    {recording === action
+                      ? 'Press keys…'
+                      : formatBinding(registry.bindings[action])}
+                  </kbd>
+                  {conflicting.has(action) && (
+                    <span title="Conflicts with another shortcut"> ⚠</span>
+                  )}
+                </td>
+                <td>
+                  <button
+                    className={styles.rebindButton}
+                    onClick={() => {
+                      setError(null);
+                      setRecording(recording === action ? null : action);
+                    }}
+                  >
+                    {recording === action ? 'Cancel' : 'Change'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {error && (
+          <p role="alert" style={{ color: 'var(--lk-danger)' }}>
+            {error}
+          </p>
+        )}
+        <div className={styles.footer}>
+          <span>Shortcuts are disabled while typing in the chat.</span>
+          <button className={styles.rebindButton} onClick={registry.resetBindings}>
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
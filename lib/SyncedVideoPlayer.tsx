@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type Hls from 'hls.js';
+import styles from '../styles/WatchParty.module.css';
+import {
+  computeDriftCorrection,
+  expectedPosition,
+  formatPlaybackPosition,
+  isHlsUrl,
+  isValidMediaUrl,
+  NUDGE_DRIFT_THRESHOLD,
+  PLAYBACK_HEARTBEAT_MS,
+} from './playbackSync';
+import { SyncedPlayback } from './useSyncedPlayback';
+
+/** How often viewers compare their position against the controller's */
+const DRIFT_CHECK_INTERVAL_MS = 1_000;
+
+/**
+ * Attaches a media URL to a video element, using hls.js for HLS playlists on browsers
+ * without native HLS support.
+ */
+function useMediaSource(videoRef: React.RefObject<HTMLVideoElement>, url: string) {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let hls: Hls | undefined;
+    let cancelled = false;
+
+    if (isHlsUrl(url) && !video.canPlayType('application/vnd.apple.mpegurl')) {
+      import('hls.js').then(({ default: HlsPlayer }) => {
+        if (cancelled) return;
+        if (!HlsPlayer.isSupported()) {
+          console.error('HLS playback is not supported in this browser');
+          return;
+        }
+        hls = new HlsPlayer();
+        hls.loadSource(url);
+        hls.attachMedia(video);
+      });
+    } else {
+      video.src = url;
+    }
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [videoRef, url]);
+}
+
+/**
+ * Video player for URL playback mode.
+ *
+ * The controller gets native controls and broadcasts every change, everyone else follows
+ * the shared state and corrects drift by nudging the playback rate or seeking.
+ */
+export function SyncedVideoPlayer({
+  playback,
+  volume = 1,
+}: {
+  playback: SyncedPlayback;
+  /** Local content volume, never synced to other participants */
+  volume?: number;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [needsInteraction, setNeedsInteraction] = useState(false);
+  const { snapshot, isController, publish, seekTarget, seekRequest, answerSeekRequest } = playback;
+  const url = snapshot?.state.url ?? '';
+
+  useMediaSource(videoRef, url);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+    }
+  }, [volume, url]);
+
+  // Controller: broadcast media events and send a periodic heartbeat
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isController) return;
+
+    const publishCurrent = () =>
+      publish({ playing: !video.paused, position: video.currentTime, rate: video.playbackRate });
+
+    const events = ['play', 'pause', 'seeked', 'ratechange'] as const;
+    events.forEach((event) => video.addEventListener(event, publishCurrent));
+    const heartbeat = setInterval(() => {
+      if (!video.paused) publishCurrent();
+    }, PLAYBACK_HEARTBEAT_MS);
+
+    return () => {
+      events.forEach((event) => video.removeEventListener(event, publishCurrent));
+      clearInterval(heartbeat);
+    };
+  }, [isController, publish]);
+
+  // Controller: jump to positions picked in the chat, the seek is then published as usual
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && isController && seekTarget) {
+      video.currentTime = seekTarget.position;
+    }
+  }, [isController, seekTarget]);
+
+  // Viewers: follow play/pause and correct drift
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !snapshot || isController) return;
+
+    const { state } = snapshot;
+
+    const syncPosition = () => {
+      if (video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+      const expected = expectedPosition(snapshot, Date.now());
+      if (!state.playing) {
+        if (Math.abs(video.currentTime - expected) >= NUDGE_DRIFT_THRESHOLD) {
+          video.currentTime = expected;
+        }
+        return;
+      }
+      const correction = computeDriftCorrection(video.currentTime, expected, state.rate);
+      if (correction.action === 'seek') {
+        video.currentTime = correction.position;
+      }
+      video.playbackRate = correction.rate;
+    };
+
+    if (state.playing && video.paused) {
+      video.play().then(
+        () => setNeedsInteraction(false),
+        (error: DOMException) => {
+          // Browsers block unmuted autoplay until the user interacts with the page
+          if (error.name === 'NotAllowedError') setNeedsInteraction(true);
+        },
+      );
+    } else if (!state.playing && !video.paused) {
+      video.pause();
+    }
+
+    syncPosition();
+    video.addEventListener('loadedmetadata', syncPosition);
+    const interval = setInterval(syncPosition, DRIFT_CHECK_INTERVAL_MS);
+    return () => {
+      video.removeEventListener('loadedmetadata', syncPosition);
+      clearInterval(interval);
+    };
+  }, [snapshot, isController]);
+
+  const resumePlayback = () => {
+    videoRef.current?.play().then(
+      () => setNeedsInteraction(false),
+      (error) => console.error(error),
+    );
+  };
+
+  return (
+    <div className={styles.syncedPlayer}>
+      <video
+        ref={videoRef}
+        className={styles.syncedVideo}
+        controls={isController}
+        playsInline
+        preload="auto"
+      />
+      {needsInteraction && !isController && (
+        <button className={styles.playbackInteractionOverlay} onClick={resumePlayback}>
+          ▶ Click to join playback
+        </button>
+      )}
+      {seekRequest && (
+        <div className={styles.seekRequest}>
+          <span>
+            {seekRequest.name} asks to jump to {formatPlaybackPosition(seekRequest.position)}
+          </span>
+          <button className={styles.chatSendButton} onClick={() => answerSeekRequest(true)}>
+            Jump
+          </button>
+          <button
+            className={styles.chatCloseButton}
+            onClick={() => answerSeekRequest(false)}
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Bottom bar control for starting and stopping URL playback.
+ */
+export function MediaUrlPrompt({ playback }: { playback: SyncedPlayback }) {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (playback.snapshot && playback.isController) {
+    return (
+      <button className={styles.mediaUrlButton} onClick={playback.stop}>
+        ■ Stop video
+      </button>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!isValidMediaUrl(trimmed)) {
+      setError('Enter a direct http(s) link to an MP4 or HLS (.m3u8) video');
+      return;
+    }
+    playback.load(trimmed);
+    setUrl('');
+    setError(null);
+    setOpen(false);
+  };
+
+  return (
+    <div className={styles.mediaUrlContainer}>
+      {open && (
+        <form className={styles.mediaUrlForm} onSubmit={handleSubmit}>
+          <input
+            type="url"
+            className={styles.chatInput}
+            placeholder="https://example.com/movie.mp4"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            autoFocus
+          />
+          <button type="submit" className={styles.chatSendButton}>
+            Play
+          </button>
+          {error && <div className={styles.mediaUrlError}>{error}</div>}
+        </form>
+      )}
+      <button
+        className={styles.mediaUrlButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Play a video from a URL for everyone"
+      >
+        🎬 Play URL
+      </button>
+    </div>
+  );
+}
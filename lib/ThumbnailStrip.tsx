@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  TrackLoop,
+  TrackReferenceOrPlaceholder,
+  useSpeakingParticipants,
+  useTrackRefContext,
+} from '@livekit/components-react';
+import { RemoteTrackPublication } from 'livekit-client';
+import { arrangeThumbnails } from './thumbnailPaging';
+import { WatchPartyTile } from './VolumeControls';
+import styles from '../styles/WatchParty.module.css';
+
+function setRemoteSubscribed(trackRef: TrackReferenceOrPlaceholder, subscribed: boolean) {
+  const publication = trackRef.publication;
+  if (publication instanceof RemoteTrackPublication && publication.isDesired !== subscribed) {
+    publication.setSubscribed(subscribed);
+  }
+}
+
+/**
+ * A camera thumbnail, outlined while it's shown in front of the page because its
+ * participant speaks
+ */
+function ThumbnailItem({ promoted }: { promoted: ReadonlySet<string> }) {
+  const trackRef = useTrackRefContext();
+  const speaking = promoted.has(trackRef.participant.identity);
+  return (
+    <div className={`${styles.thumbnailItem} ${speaking ? styles.speaking : ''}`}>
+      <WatchPartyTile />
+    </div>
+  );
+}
+
+/**
+ * Paginated strip of camera thumbnails for cinema mode.
+ * Active speakers from other pages are shown on top of the current page, cameras on other
+ * pages are unsubscribed until they scroll back into view.
+ */
+export function ThumbnailStrip({ tracks }: { tracks: TrackReferenceOrPlaceholder[] }) {
+  const speakingParticipants = useSpeakingParticipants();
+  const [page, setPage] = useState(0);
+
+  const { visible, hidden, promoted, pageCount } = useMemo(
+    () =>
+      arrangeThumbnails(
+        tracks,
+        speakingParticipants.map((p) => p.identity),
+        page,
+      ),
+    [tracks, speakingParticipants, page],
+  );
+  const currentPage = Math.min(page, pageCount - 1);
+  const promotedIdentities = useMemo(
+    () => new Set(promoted.map((trackRef) => trackRef.participant.identity)),
+    [promoted],
+  );
+
+  useEffect(() => {
+    visible.forEach((trackRef) => setRemoteSubscribed(trackRef, true));
+    hidden.forEach((trackRef) => setRemoteSubscribed(trackRef, false));
+  }, [visible, hidden]);
+
+  // Everything is shown again once the strip goes away, e.g. when switching to gallery mode
+  const tracksRef = React.useRef(tracks);
+  tracksRef.current = tracks;
+  useEffect(() => {
+    return () => tracksRef.current.forEach((trackRef) => setRemoteSubscribed(trackRef, true));
+  }, []);
+
+  if (tracks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.participantThumbnails}>
+      {pageCount > 1 && (
+        <button
+          className={styles.thumbnailPageButton}
+          onClick={() => setPage(Math.max(currentPage - 1, 0))}
+          disabled={currentPage === 0}
+          title="Previous participants"
+        >
+          ▲
+        </button>
+      )}
+      <TrackLoop tracks={visible}>
+        <ThumbnailItem promoted={promotedIdentities} />
+      </TrackLoop>
+      {pageCount > 1 && (
+        <>
+          <div className={styles.thumbnailPageIndicator}>
+            {currentPage + 1} / {pageCount}
+          </div>
+          <button
+            className={styles.thumbnailPageButton}
+            onClick={() => setPage(Math.min(currentPage + 1, pageCount - 1))}
+            disabled={currentPage === pageCount - 1}
+            title="More participants"
+          >
+            ▼
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
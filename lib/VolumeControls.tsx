@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ParticipantTile,
+  useLocalParticipant,
+  useMaybeTrackRefContext,
+} from '@livekit/components-react';
+import { ParticipantContextMenu } from './ParticipantContextMenu';
+import { useRoleCapabilities } from './useParticipantRole';
+import { getParticipantVolume, getVolumeKey } from './volumeSettings';
+import { useVolumeControlsContext } from './useVolumeSettings';
+import styles from '../styles/WatchParty.module.css';
+
+/**
+ * Voice volume slider for the participant of the surrounding track reference.
+ */
+function ParticipantVolumeSlider() {
+  const trackRef = useMaybeTrackRefContext();
+  const volume = useVolumeControlsContext();
+  const participant = trackRef?.participant;
+  if (!participant || participant.isLocal || !volume) {
+    return null;
+  }
+  const value = getParticipantVolume(volume.settings, getVolumeKey(participant));
+
+  return (
+    <label className={styles.tileVolume} title={`Volume: ${Math.round(value * 100)}%`}>
+      {value === 0 ? '🔇' : '🔊'}
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={value}
+        onChange={(e) =>
+          volume.setParticipantVolume(getVolumeKey(participant), Number(e.target.value))
+        }
+        aria-label={`Volume of ${participant.name || participant.identity}`}
+      />
+    </label>
+  );
+}
+
+/**
+ * `ParticipantTile` with a volume slider for remote participants, shown on hover.
+ * Moderators can right-click a remote participant's tile to open the moderation menu.
+ */
+export function WatchPartyTile() {
+  const trackRef = useMaybeTrackRefContext();
+  const { localParticipant } = useLocalParticipant();
+  const { canModerate } = useRoleCapabilities(localParticipant);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const participant = trackRef?.participant;
+  const canOpenMenu = canModerate && participant && !participant.isLocal;
+
+  return (
+    <div
+      className={styles.tileWithVolume}
+      onContextMenu={(e) => {
+        if (!canOpenMenu) return;
+        e.preventDefault();
+        setMenuPosition({ x: e.clientX, y: e.clientY });
+      }}
+    >
+      <ParticipantTile />
+      <ParticipantVolumeSlider />
+      {canOpenMenu && menuPosition && (
+        <ParticipantContextMenu
+          participant={participant}
+          position={menuPosition}
+          onClose={() => setMenuPosition(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Master volume of the shared content and the ducking toggle.
+ */
+export function ContentVolumeControl() {
+  const volume = useVolumeControlsContext();
+  const [open, setOpen] = useState(false);
+  if (!volume) {
+    return null;
+  }
+  const { content, ducking } = volume.settings;
+
+  return (
+    <div className={styles.mediaUrlContainer}>
+      {open && (
+        <div className={styles.controlPopover}>
+          <label className={styles.controlPopoverOption}>
+            Content volume
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={content}
+              onChange={(e) => volume.setContentVolume(Number(e.target.value))}
+            />
+            {Math.round(content * 100)}%
+          </label>
+          <label className={styles.controlPopoverOption}>
+            <input
+              type="checkbox"
+              checked={ducking}
+              onChange={(e) => volume.setDucking(e.target.checked)}
+            />
+            Lower the content while someone is talking
+          </label>
+        </div>
+      )}
+      <button
+        className={styles.mediaUrlButton}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title="Content volume"
+      >
+        {content === 0 ? '🔇' : '🔊'} Content
+      </button>
+    </div>
+  );
+}
@@ -9,40 +9,33 @@ import {
   TrackRefContext,
   ControlBar,
   GridLayout,
-  ParticipantTile,
-  TrackLoop,
   useLocalParticipant,
   LayoutContextProvider,
   useCreateLayoutContext,
-  useChat,
-  ReceivedChatMessage,
 } from '@livekit/components-react';
 import { Track } from 'livekit-client';
 import { useScreenShare } from './useScreenShare';
+import { useContentSelection } from './useContentSelection';
+import { ContentSwitcher } from './ContentSwitcher';
+import { useSyncedPlayback } from './useSyncedPlayback';
+import { useRoleCapabilities } from './useParticipantRole';
+import { MediaUrlPrompt, SyncedVideoPlayer } from './SyncedVideoPlayer';
 import { ConnectionQuality } from './ConnectionQuality';
+import { ChatPanel } from './ChatPanel';
+import { PlaylistPanel } from './PlaylistPanel';
+import { PlaylistItem } from './playlist';
+import { LobbyQueue } from './LobbyQueue';
+import { RoomModerationMenu } from './RoomModerationMenu';
+import { GoLiveMenu } from './GoLiveMenu';
+import { ReactionsBar, ReactionsOverlay } from './ReactionsOverlay';
+import { ThumbnailStrip } from './ThumbnailStrip';
+import { useReactions } from './useReactions';
+import { useShortcut } from './KeyboardShortcuts';
+import { ContentVolumeControl, WatchPartyTile } from './VolumeControls';
+import { useVolumeControlsContext, useVolumeSettings, VolumeControlsProvider } from './useVolumeSettings';
+import { useWatchPartyChat } from './useWatchPartyChat';
+import { usePlaylist } from './usePlaylist';
 import styles from '../styles/WatchParty.module.css';
-import { format } from 'date-fns';
-import EmojiPicker, { EmojiClickData, Theme } from 'emoji-picker-react';
-
-const USER_COLORS = [
-  '#f87171', // red-400
-  '#fb923c', // orange-400
-  '#fbbf24', // amber-400
-  '#a3e635', // lime-400
-  '#34d399', // emerald-400
-  '#22d3ee', // cyan-400
-  '#818cf8', // indigo-400
-  '#e879f9', // fuchsia-400
-  '#fb7185', // rose-400
-];
-
-function getUserColor(id: string) {
-  let hash = 0;
-  for (let i = 0; i < id.length; i++) {
-    hash = id.charCodeAt(i) + ((hash << 5) - hash);
-  }
-  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
-}
 
 interface DraggablePiPProps {
   children: React.ReactNode;
@@ -150,94 +143,32 @@ function CallDuration({ startTime }: { startTime: number }) {
   );
 }
 
-interface ChatMessagePayload {
-  text: string;
-  replyTo?: {
-    id: string;
-    sender: string;
-    text: string;
-  };
-}
-
-/**
- * Custom Chat Entry Component
- */
-function CustomChatEntry({ 
-  entry, 
-  onReply 
-}: { 
-  entry: ReceivedChatMessage; 
-  onReply: (entry: ReceivedChatMessage) => void; 
-}) {
-  const isLocal = !entry.from; 
-
-  let content: ChatMessagePayload = { text: entry.message };
-  try {
-    const parsed = JSON.parse(entry.message);
-    if (parsed && typeof parsed === 'object' && 'text' in parsed) {
-      content = parsed;
-    }
-  } catch (e) {
-    // legacy/plain text message
+function toggleFullscreen() {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch((error) => console.error(error));
+  } else {
+    document.documentElement.requestFullscreen().catch((error) => console.error(error));
   }
-
-  const displayName = entry.from?.name || entry.from?.identity || 'Me';
-  const authorColor = isLocal ? undefined : getUserColor(displayName);
-
-  return (
-    <div className={`${styles.chatEntry} ${isLocal ? styles.local : ''}`}>
-      <div className={styles.chatHeaderRow}>
-        <span 
-          className={styles.chatAuthor}
-          style={authorColor ? { color: authorColor } : undefined}
-        >
-          {displayName}
-        </span>
-        <span className={styles.chatTimestamp}>
-          {format(new Date(entry.timestamp), 'h:mm a')}
-        </span>
-        <button 
-          className={styles.chatReplyButton}
-          onClick={() => onReply(entry)}
-          title="Reply to message"
-        >
-          ↩ Reply
-        </button>
-      </div>
-      
-      <div className={`${styles.chatBubble} ${!entry.from ? styles.local : ''}`}>
-        {content.replyTo && (
-          <div className={styles.chatReplyContext}>
-            <div 
-              className={styles.chatReplyAuthor}
-              style={{ color: getUserColor(content.replyTo.sender) }}
-            >
-              Replying to {content.replyTo.sender}
-            </div>
-            <div className={styles.chatReplyText}>{content.replyTo.text}</div>
-          </div>
-        )}
-        <div style={{ whiteSpace: 'pre-wrap' }}>{content.text}</div>
-      </div>
-    </div>
-  );
 }
 
 /**
  * WatchParty Layout Component
  * 
  * This component provides a cinema-style layout optimized for watch parties:
- * - When screen share is active: Screen share takes up most of the viewport
- *   with participant videos as small floating thumbnails
- * - When no screen share: Standard grid layout for participants
+ * - When screen share or URL playback is active: The content takes up most of
+ *   the viewport with participant videos as small floating thumbnails
+ * - When no content is active: Standard grid layout for participants
  */
 export function WatchPartyLayout() {
   // Create layout context for ControlBar
   const layoutContext = useCreateLayoutContext();
+  const volumeControls = useVolumeSettings();
 
   return (
     <LayoutContextProvider value={layoutContext}>
-      <WatchPartyLayoutInner />
+      <VolumeControlsProvider value={volumeControls}>
+        <WatchPartyLayoutInner />
+      </VolumeControlsProvider>
     </LayoutContextProvider>
   );
 }
@@ -248,137 +179,53 @@ function WatchPartyLayoutInner() {
     screenShareParticipant,
     hasScreenShareAudio,
     participantCount,
+    screenShares,
   } = useScreenShare();
+  const content = useContentSelection(screenShares);
+
+  const playback = useSyncedPlayback();
+  const isUrlPlaybackActive = playback.snapshot !== null;
+
+  // The local participant's role decides which controls are shown
+  const { localParticipant } = useLocalParticipant();
+  const capabilities = useRoleCapabilities(localParticipant);
+  const controlBarControls = {
+    camera: capabilities.canPublishMedia,
+    microphone: capabilities.canPublishMedia,
+    screenShare: capabilities.canShareScreen,
+    chat: false,
+    leave: true,
+  };
 
   const startTime = React.useMemo(() => Date.now(), []);
 
   const [thumbnailsCollapsed, setThumbnailsCollapsed] = useState(false);
   const [chatVisible, setChatVisible] = useState(true);
-  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [playlistVisible, setPlaylistVisible] = useState(false);
   
   // PiP State
   const [pipCorner, setPipCorner] = useState<'tl' | 'tr' | 'bl' | 'br'>('br');
   const [swapPiP, setSwapPiP] = useState(false);
 
-  // Chat functionality using useChat hook
-  const { chatMessages, send, isSending } = useChat();
-  const [chatInput, setChatInput] = useState('');
-  const [replyingTo, setReplyingTo] = useState<ReceivedChatMessage | null>(null);
-  const chatMessagesRef = useRef<HTMLDivElement>(null);
-  const chatInputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => {
-    if (chatMessagesRef.current) {
-      chatMessagesRef.current.scrollTop = chatMessagesRef.current.scrollHeight;
-    }
-  }, [chatMessages, chatVisible]);
-
-  // Auto-focus input when chat becomes visible
-  useEffect(() => {
-    if (chatVisible && chatInputRef.current) {
-      setTimeout(() => {
-        chatInputRef.current?.focus();
-      }, 50);
-    }
-  }, [chatVisible]);
-
-  // Focus input when replying
-  useEffect(() => {
-    if (replyingTo && chatInputRef.current) {
-      setTimeout(() => {
-        chatInputRef.current?.focus();
-      }, 50);
-    }
-  }, [replyingTo]);
-
-  const handleSendMessage = async () => {
-    if (chatInput.trim() && !isSending) {
-      // Construct the message payload
-      const payload: ChatMessagePayload = {
-        text: chatInput.trim(),
-      };
-
-      if (replyingTo) {
-        // Parse original message in case it was a complex object
-        let originalText = replyingTo.message;
-        try {
-          const parsed = JSON.parse(replyingTo.message);
-          if (parsed && typeof parsed === 'object' && 'text' in parsed) {
-            originalText = parsed.text;
-          }
-        } catch {
-          // ignore
-        }
-
-        payload.replyTo = {
-          id: replyingTo.id,
-          sender: replyingTo.from?.name || replyingTo.from?.identity || 'Unknown',
-          text: originalText,
-        };
-      }
-
-      await send(JSON.stringify(payload));
-      setChatInput('');
-      setReplyingTo(null);
-      
-      // Keep focus on input after sending
-      setTimeout(() => {
-        chatInputRef.current?.focus();
-      }, 0);
-    }
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
-      setShowEmojiPicker(false);
-    }
-  };
+  // Chat state lives here so it survives switching between cinema and gallery mode
+  const chat = useWatchPartyChat({
+    visible: chatVisible,
+    playback: playback.snapshot,
+  });
+  const playlist = usePlaylist();
+  const reactions = useReactions();
+  const contentVolume = useVolumeControlsContext()?.effectiveContentVolume;
 
-  const onEmojiClick = (emojiData: EmojiClickData) => {
-    const input = chatInputRef.current;
-    if (input) {
-      const start = input.selectionStart ?? chatInput.length;
-      const end = input.selectionEnd ?? chatInput.length;
-      const text = chatInput;
-      const emoji = emojiData.emoji;
-      const newText = text.substring(0, start) + emoji + text.substring(end);
-      
-      setChatInput(newText);
-      
-      // Update cursor position after render
-      setTimeout(() => {
-        input.focus();
-        const newCursorPos = start + emoji.length;
-        input.setSelectionRange(newCursorPos, newCursorPos);
-      }, 0);
-    } else {
-      setChatInput((prev) => prev + emojiData.emoji);
-    }
+  const playFromPlaylist = (item: PlaylistItem) => {
+    playback.load(item.url);
+    playlist.update({ type: 'remove', id: item.id });
   };
 
-  // Close emoji picker on Escape key
-  useEffect(() => {
-    const handleGlobalKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && showEmojiPicker) {
-        setShowEmojiPicker(false);
-        chatInputRef.current?.focus();
-      }
-    };
-
-    if (showEmojiPicker) {
-      window.addEventListener('keydown', handleGlobalKeyDown);
-    }
-
-    return () => {
-      window.removeEventListener('keydown', handleGlobalKeyDown);
-    };
-  }, [showEmojiPicker]);
+  useShortcut('toggleChat', () => setChatVisible((visible) => !visible));
+  useShortcut('swapPiP', () => setSwapPiP((swapped) => !swapped));
+  useShortcut('toggleFullscreen', toggleFullscreen);
 
   // Get all tracks for rendering
-  const screenShareTrackRefs = useTracks([Track.Source.ScreenShare]);
-  const screenShareAudioTrackRefs = useTracks([Track.Source.ScreenShareAudio]);
   // Ensure microphone audio tracks are rendered (even if we hide mic tiles)
   const micTrackRefs = useTracks([Track.Source.Microphone]);
   const cameraTracks = useTracks([Track.Source.Camera]);
@@ -403,8 +250,8 @@ function WatchPartyLayoutInner() {
 
   const participants = useParticipants();
 
-  if (isScreenShareActive && screenShareTrackRefs.length > 0) {
-    // Cinema Mode: Screen share is active
+  if (isUrlPlaybackActive || (isScreenShareActive && content.displayedShares.length > 0)) {
+    // Cinema Mode: URL playback or screen share is active
     return (
       <div className={styles.watchPartyContainer}>
         <div className={styles.cinemaMode}>
@@ -425,20 +272,43 @@ function WatchPartyLayoutInner() {
                 </span>
               </div>
 
-              {/* Main screen share view */}
+              {/* Main content view: URL playback takes precedence over screen share */}
               <div className={styles.screenShareView}>
-                <TrackRefContext.Provider value={screenShareTrackRefs[0]}>
-                  <VideoTrack
-                    trackRef={screenShareTrackRefs[0]}
-                    style={{ width: '100%', height: '100%', objectFit: 'contain' }}
-                  />
-                </TrackRefContext.Provider>
+                {isUrlPlaybackActive ? (
+                  <SyncedVideoPlayer playback={playback} volume={contentVolume} />
+                ) : (
+                  <div
+                    className={
+                      content.displayedShares.length > 1 ? styles.screenShareGrid : styles.screenShareSingle
+                    }
+                  >
+                    {content.displayedShares.map(({ trackRef }) => (
+                      <TrackRefContext.Provider key={trackRef.publication.trackSid} value={trackRef}>
+                        <VideoTrack
+                          trackRef={trackRef}
+                          style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+                        />
+                      </TrackRefContext.Provider>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              {/* Render screen share audio if available */}
-              {screenShareAudioTrackRefs.map((trackRef) => (
-                <AudioTrack key={trackRef.publication?.trackSid} trackRef={trackRef} />
-              ))}
+              {/* Pick the featured share when several people are sharing */}
+              {!isUrlPlaybackActive && screenShares.length > 1 && (
+                <ContentSwitcher screenShares={screenShares} content={content} />
+              )}
+
+              <ReactionsOverlay reactions={reactions.floating} />
+
+              {/* Render audio of the displayed screen shares if available */}
+              {!isUrlPlaybackActive &&
+                content.displayedShares.map(
+                  ({ audioTrackRef }) =>
+                    audioTrackRef && (
+                      <AudioTrack key={audioTrackRef.publication.trackSid} trackRef={audioTrackRef} />
+                    ),
+                )}
 
               {/* Always render microphone audio tracks (hidden) so audio plays even when
                   we filter mic tiles out of the grid. This container is visually hidden
@@ -458,146 +328,63 @@ function WatchPartyLayoutInner() {
               </button> */}
 
               {/* Floating participant thumbnails */}
-              {!thumbnailsCollapsed && cameraTracks.length > 0 && (
-                <div className={styles.participantThumbnails}>
-                  <TrackLoop tracks={cameraTracks.slice(0, 6)}>
-                    <div className={styles.thumbnailItem}>
-                      <ParticipantTile />
-                    </div>
-                  </TrackLoop>
-                  {cameraTracks.length > 6 && (
-                    <div className={styles.thumbnailItem} style={{ 
-                      display: 'flex', 
-                      alignItems: 'center', 
-                      justifyContent: 'center',
-                      color: 'rgba(255,255,255,0.7)',
-                      fontSize: '14px'
-                    }}>
-                      +{cameraTracks.length - 6} more
-                    </div>
-                  )}
-                </div>
-              )}
+              {!thumbnailsCollapsed && <ThumbnailStrip tracks={cameraTracks} />}
             </div>
 
             {/* Chat Panel */}
-            {chatVisible && (
-              <div className={styles.chatPanel}>
-                <div className={styles.chatHeader}>
-                  <span>Chat</span>
-                  <button 
-                    className={styles.chatCloseButton}
-                    onClick={() => setChatVisible(false)}
-                  >
-                    ✕
-                  </button>
-                </div>
-                <div className={styles.chatMessages} ref={chatMessagesRef}>
-                  {chatMessages.length === 0 ? (
-                    <div className={styles.chatEmpty}>
-                      No messages yet. Say hi! 👋
-                    </div>
-                  ) : (
-                    chatMessages.map((msg, index) => (
-                      <CustomChatEntry
-                        key={msg.timestamp}
-                        entry={msg}
-                        onReply={setReplyingTo}
-                      />
-                    ))
-                  )}
-                </div>
-                {/* Reply Preview Area */}
-                {replyingTo && (
-                  <div className={styles.replyPreview}>
-                    <div className={styles.replyPreviewContent}>
-                      <div className={styles.replyPreviewHeader}>
-                        Replying to {replyingTo.from?.name || replyingTo.from?.identity || 'Unknown'}
-                      </div>
-                      <div className={styles.replyPreviewText}>
-                        {(() => {
-                           try {
-                             const parsed = JSON.parse(replyingTo.message);
-                             return parsed.text || replyingTo.message;
-                           } catch {
-                             return replyingTo.message;
-                           }
-                        })()}
-                      </div>
-                    </div>
-                    <button 
-                      className={styles.replyPreviewClose}
-                      onClick={() => setReplyingTo(null)}
-                    >
-                      ✕
-                    </button>
-                  </div>
-                )}
-                <div className={styles.chatInputContainer}>
-                  {showEmojiPicker && (
-                    <div className={styles.emojiPickerContainer}>
-                      <div className={styles.emojiHelpText}>
-                        Press Esc to close
-                      </div>
-                      <EmojiPicker 
-                        onEmojiClick={onEmojiClick} 
-                        theme={Theme.DARK} 
-                        width={300} 
-                        height={400}
-                      />
-                    </div>
-                  )}
-                  <button 
-                    className={styles.emojiButton}
-                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                    title="Add emoji"
-                  >
-                    😀
-                  </button>
-                  <input
-                    ref={chatInputRef}
-                    type="text"
-                    className={styles.chatInput}
-                    placeholder="Type a message..."
-                    value={chatInput}
-                    onChange={(e) => setChatInput(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    disabled={isSending}
-                    autoFocus
-                  />
-                  <button
-                    className={styles.chatSendButton}
-                    onClick={handleSendMessage}
-                    disabled={isSending || !chatInput.trim()}
-                  >
-                    Send
-                  </button>
-                </div>
-              </div>
+            {playlistVisible && (
+              <PlaylistPanel
+                playlist={playlist}
+                onPlay={capabilities.canControlPlayback ? playFromPlaylist : undefined}
+                onClose={() => setPlaylistVisible(false)}
+              />
             )}
+            {chatVisible && <ChatPanel chat={chat} playback={playback} onClose={() => setChatVisible(false)} />}
           </div>
 
           {/* Control bar */}
           <div className={styles.bottomBarContainer}>
-            <div className={styles.leftControlsPlaceholder} />
-            <ControlBar
-              controls={{
-                camera: true,
-                microphone: true,
-                screenShare: true,
-                chat: false,
-                leave: true,
-              }}
-            />
+            <div className={styles.leftControlsPlaceholder}>
+              <ReactionsBar onReact={reactions.react} />
+              <ContentVolumeControl />
+              {capabilities.canControlPlayback && <MediaUrlPrompt playback={playback} />}
+              <button
+                className={styles.mediaUrlButton}
+                onClick={() => setPlaylistVisible(!playlistVisible)}
+                aria-expanded={playlistVisible}
+                title="Show what plays next"
+              >
+                📃 Up next
+                {playlist.items.length > 0 && (
+                  <span className={styles.playlistBadge}>{playlist.items.length}</span>
+                )}
+              </button>
+              {capabilities.canModerate && <LobbyQueue />}
+              {capabilities.canModerate && <RoomModerationMenu />}
+              {capabilities.canModerate && <GoLiveMenu />}
+            </div>
+            <ControlBar controls={controlBarControls} />
             <CallDuration startTime={startTime} />
           </div>
           
           {/* Custom chat toggle button */}
           {!chatVisible && (
-            <button 
+            <button
               className={styles.chatToggleButton}
               onClick={() => setChatVisible(true)}
+              title={chat.unread.count > 0 ? `Open chat (${chat.unread.count} unread)` : 'Open chat'}
             >
+              💬
+              {chat.unread.count > 0 && (
+                <span className={styles.chatUnreadBadge}>
+                  {chat.unread.count > 99 ? '99+' : chat.unread.count}
+                </span>
+              )}
+              {chat.unread.mentions > 0 && (
+                <span className={styles.chatMentionBadge} title="You were mentioned">
+                  @
+                </span>
+              )}
             </button>
           )}
         </div>
@@ -620,7 +407,9 @@ function WatchPartyLayoutInner() {
                   {/* Ready to start the WatchParty! */}
                 </div>
                     <div className={styles.waitingHint}>
-                  Click &quot;Share Screen&quot; to start sharing content with everyone
+                  {capabilities.canShareScreen
+                    ? 'Click "Share Screen" or "Play URL" to start sharing content with everyone'
+                    : 'Waiting for the host to start sharing content'}
                 </div>
               </div>
             )}
@@ -653,7 +442,7 @@ function WatchPartyLayoutInner() {
                     <div className={styles.pipLayout}>
                       <div className={styles.mainVideo}>
                         <TrackRefContext.Provider value={finalMain}>
-                           <ParticipantTile />
+                           <WatchPartyTile />
                         </TrackRefContext.Provider>
                       </div>
                       <DraggablePiP 
@@ -662,7 +451,7 @@ function WatchPartyLayoutInner() {
                         onDoubleClick={() => setSwapPiP(!swapPiP)}
                       >
                          <TrackRefContext.Provider value={finalPip}>
-                           <ParticipantTile />
+                           <WatchPartyTile />
                         </TrackRefContext.Provider>
                       </DraggablePiP>
                     </div>
@@ -671,11 +460,13 @@ function WatchPartyLayoutInner() {
               ) : (
                 // Standard Grid for 1 or 3+ participants
                 <GridLayout tracks={filteredParticipantTracks}>
-                  <ParticipantTile />
+                  <WatchPartyTile />
                 </GridLayout>
               )
             )}
 
+            <ReactionsOverlay reactions={reactions.floating} />
+
             {/* Hidden mic audio container for gallery mode as well */}
             <div style={{ display: 'none' }} aria-hidden>
               {micTrackRefs.map((trackRef) => (
@@ -694,124 +485,59 @@ function WatchPartyLayoutInner() {
           </div>
 
           {/* Chat Panel */}
-          {chatVisible && (
-            <div className={styles.chatPanel}>
-              <div className={styles.chatHeader}>
-                <span>Chat</span>
-                <button 
-                  className={styles.chatCloseButton}
-                  onClick={() => setChatVisible(false)}
-                >
-                  ✕
-                </button>
-              </div>
-              <div className={styles.chatMessages} ref={chatMessagesRef}>
-                {chatMessages.length === 0 ? (
-                  <div className={styles.chatEmpty}>
-                    No messages yet. Say hi! 👋
-                  </div>
-                ) : (
-                  chatMessages.map((msg, index) => (
-                    <CustomChatEntry
-                      key={msg.timestamp}
-                      entry={msg}
-                      onReply={setReplyingTo}
-                    />
-                  ))
-                )}
-              </div>
-              {/* Reply Preview Area */}
-              {replyingTo && (
-                <div className={styles.replyPreview}>
-                  <div className={styles.replyPreviewContent}>
-                    <div className={styles.replyPreviewHeader}>
-                      Replying to {replyingTo.from?.name || replyingTo.from?.identity || 'Unknown'}
-                    </div>
-                    <div className={styles.replyPreviewText}>
-                      {(() => {
-                          try {
-                            const parsed = JSON.parse(replyingTo.message);
-                            return parsed.text || replyingTo.message;
-                          } catch {
-                            return replyingTo.message;
-                          }
-                      })()}
-                    </div>
-                  </div>
-                  <button 
-                    className={styles.replyPreviewClose}
-                    onClick={() => setReplyingTo(null)}
-                  >
-                    ✕
-                  </button>
-                </div>
-              )}
-              <div className={styles.chatInputContainer}>
-                {showEmojiPicker && (
-                  <div className={styles.emojiPickerContainer}>
-                    <div className={styles.emojiHelpText}>
-                      Press Esc to close
-                    </div>
-                    <EmojiPicker 
-                      onEmojiClick={onEmojiClick} 
-                      theme={Theme.DARK} 
-                      width={300} 
-                      height={400}
-                    />
-                  </div>
-                )}
-                <button 
-                  className={styles.emojiButton}
-                  onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                  title="Add emoji"
-                >
-                  😀
-                </button>
-                <input
-                  ref={chatInputRef}
-                  type="text"
-                  className={styles.chatInput}
-                  placeholder="Type a message..."
-                  value={chatInput}
-                  onChange={(e) => setChatInput(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  disabled={isSending}
-                  autoFocus
-                />
-                <button
-                  className={styles.chatSendButton}
-                  onClick={handleSendMessage}
-                  disabled={isSending || !chatInput.trim()}
-                >
-                  Send
-                </button>
-              </div>
-            </div>
+          {playlistVisible && (
+            <PlaylistPanel
+              playlist={playlist}
+              onPlay={capabilities.canControlPlayback ? playFromPlaylist : undefined}
+              onClose={() => setPlaylistVisible(false)}
+            />
           )}
+          {chatVisible && <ChatPanel chat={chat} playback={playback} onClose={() => setChatVisible(false)} />}
         </div>
 
         {/* Control bar */}
         <div className={styles.bottomBarContainer}>
-          <div className={styles.leftControlsPlaceholder} />
-          <ControlBar
-            controls={{
-              camera: true,
-              microphone: true,
-              screenShare: true,
-              chat: false,
-              leave: true,
-            }}
-          />
+          <div className={styles.leftControlsPlaceholder}>
+            <ReactionsBar onReact={reactions.react} />
+            <ContentVolumeControl />
+            {capabilities.canControlPlayback && <MediaUrlPrompt playback={playback} />}
+            <button
+              className={styles.mediaUrlButton}
+              onClick={() => setPlaylistVisible(!playlistVisible)}
+              aria-expanded={playlistVisible}
+              title="Show what plays next"
+            >
+              📃 Up next
+              {playlist.items.length > 0 && (
+                <span className={styles.playlistBadge}>{playlist.items.length}</span>
+              )}
+            </button>
+            {capabilities.canModerate && <LobbyQueue />}
+            {capabilities.canModerate && <RoomModerationMenu />}
+            {capabilities.canModerate && <GoLiveMenu />}
+          </div>
+          <ControlBar controls={controlBarControls} />
           <CallDuration startTime={startTime} />
         </div>
         
         {/* Custom chat toggle button */}
         {!chatVisible && (
-          <button 
+          <button
             className={styles.chatToggleButton}
             onClick={() => setChatVisible(true)}
+            title={chat.unread.count > 0 ? `Open chat (${chat.unread.count} unread)` : 'Open chat'}
           >
             💬
+            {chat.unread.count > 0 && (
+              <span className={styles.chatUnreadBadge}>
+                {chat.unread.count > 99 ? '99+' : chat.unread.count}
+              </span>
+            )}
+            {chat.unread.mentions > 0 && (
+              <span className={styles.chatMentionBadge} title="You were mentioned">
+                @
+              </span>
+            )}
           </button>
         )}
       </div>
@@ -0,0 +1,27 @@
+import type { ApiErrorBody } from './apiErrors';
+
+/**
+ * Calls one of the app's API routes, authenticated with the participant's access token.
+ */
+export function fetchWithToken(url: string, token: string | undefined, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(url, { ...init, headers });
+}
+
+/**
+ * Extracts a human readable failure reason from an API error response.
+ */
+export async function readApiError(response: Response): Promise<string> {
+  try {
+    const body: Partial<ApiErrorBody> = await response.json();
+    if (body.error?.message) {
+      return body.error.message;
+    }
+  } catch {
+    // not a structured error response
+  }
+  return response.statusText || `Request failed with status ${response.status}`;
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Error thrown by API route helpers, rendered as a structured JSON response:
+ * `{ "error": { "code": "...", "message": "..." } }`
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export function apiErrorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message } },
+      { status: error.status },
+    );
+  }
+  const message = error instanceof Error ? error.message : 'Unexpected error';
+  return NextResponse.json({ error: { code: 'internal_error', message } }, { status: 500 });
+}
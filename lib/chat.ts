@@ -0,0 +1,112 @@
+import type { ChatAttachment } from './chatAttachments';
+
+/**
+ * Shape of the JSON payload sent through `useChat`. Plain text messages from older clients
+ * are treated as `{ text }`.
+ */
+export interface ChatMessagePayload {
+  /** Chat protocol version of the sender, see `chatEvents.ts`. Missing means 1 */
+  v?: number;
+  text: string;
+  replyTo?: {
+    id: string;
+    sender: string;
+    text: string;
+  };
+  /** Participants picked from the @mention autocomplete */
+  mentions?: ChatMention[];
+  /** Where the shared video was when the message was sent during URL playback */
+  position?: ChatPlaybackPosition;
+  /** Image shared with the message, see `chatAttachments.ts` */
+  attachment?: ChatAttachment;
+}
+
+export interface ChatPlaybackPosition {
+  /** Media URL, positions only apply to the video they were taken from */
+  url: string;
+  /** Position in seconds */
+  seconds: number;
+}
+
+export interface ChatMention {
+  identity: string;
+  /** Name as written after the "@" in the text */
+  name: string;
+}
+
+export interface ChatSender {
+  identity: string;
+  name?: string;
+}
+
+/**
+ * A chat message as rendered by the chat panel. Live messages from `useChat` satisfy this
+ * interface, as do messages replayed from the chat history service.
+ */
+export interface ChatEntry {
+  id: string;
+  timestamp: number;
+  /** Raw message, usually a serialized {@link ChatMessagePayload} */
+  message: string;
+  editTimestamp?: number;
+  from?: ChatSender;
+}
+
+export function parseChatPayload(message: string): ChatMessagePayload {
+  try {
+    const parsed = JSON.parse(message);
+    if (parsed && typeof parsed === 'object' && typeof parsed.text === 'string') {
+      return parsed;
+    }
+  } catch {
+    // legacy/plain text message
+  }
+  return { text: message };
+}
+
+/** The well-formed mentions of a message, payloads come from other clients */
+export function getMentions(payload: ChatMessagePayload): ChatMention[] {
+  if (!Array.isArray(payload.mentions)) {
+    return [];
+  }
+  return payload.mentions.filter(
+    (m): m is ChatMention =>
+      !!m && typeof m.identity === 'string' && typeof m.name === 'string' && m.name.length > 0,
+  );
+}
+
+/** The playback position of a message, if it carries a well-formed one */
+export function getPlaybackPosition(payload: ChatMessagePayload): ChatPlaybackPosition | undefined {
+  const position = payload.position;
+  if (
+    !position ||
+    typeof position.url !== 'string' ||
+    typeof position.seconds !== 'number' ||
+    !Number.isFinite(position.seconds) ||
+    position.seconds < 0
+  ) {
+    return undefined;
+  }
+  return { url: position.url, seconds: position.seconds };
+}
+
+export function getSenderName(from: ChatSender | undefined, fallback = 'Unknown'): string {
+  return from?.name || from?.identity || fallback;
+}
+
+/**
+ * Merges replayed history with live messages, deduplicated by message id.
+ * Live messages win since they reference the actual participant.
+ */
+export function mergeChatMessages<T extends ChatEntry>(
+  history: ChatEntry[],
+  live: T[],
+): ChatEntry[] {
+  if (history.length === 0) {
+    return live;
+  }
+  const liveIds = new Set(live.map((entry) => entry.id));
+  return [...history.filter((entry) => !liveIds.has(entry.id)), ...live].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+}
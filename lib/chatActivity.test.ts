@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { ChatEntry } from './chat';
+import { formatTypingIndicator, getUnreadSummary, pruneTyping } from './chatActivity';
+
+const me = { identity: 'me__ab12', name: 'Me' };
+const bob = { identity: 'bob__cd34', name: 'Bob' };
+
+function entry(id: string, from: typeof me, text: string, mentions?: (typeof me)[]): ChatEntry {
+  return { id, timestamp: 0, from, message: JSON.stringify({ text, mentions }) };
+}
+
+describe('formatTypingIndicator', () => {
+  it('names up to three participants', () => {
+    expect(formatTypingIndicator([])).toBeNull();
+    expect(formatTypingIndicator(['Ann'])).toBe('Ann is typing…');
+    expect(formatTypingIndicator(['Ann', 'Bob'])).toBe('Ann and Bob are typing…');
+    expect(formatTypingIndicator(['Ann', 'Bob', 'Cy'])).toBe('Ann, Bob and Cy are typing…');
+    expect(formatTypingIndicator(['Ann', 'Bob', 'Cy', 'Di'])).toBe(
+      'Ann, Bob and 2 others are typing…',
+    );
+  });
+});
+
+describe('pruneTyping', () => {
+  it('drops expired indicators only', () => {
+    const typing = { a: { name: 'Ann', expiresAt: 100 }, b: { name: 'Bob', expiresAt: 200 } };
+    expect(pruneTyping(typing, 50)).toBe(typing);
+    expect(pruneTyping(typing, 150)).toEqual({ b: { name: 'Bob', expiresAt: 200 } });
+  });
+});
+
+describe('getUnreadSummary', () => {
+  it('counts new messages from others and mentions of the local participant', () => {
+    const messages = [
+      entry('m1', bob, 'seen'),
+      entry('m2', me, 'mine'),
+      entry('m3', bob, 'hi @Me', [me]),
+      entry('m4', bob, 'hello'),
+    ];
+    expect(getUnreadSummary(messages, new Set(['m1']), me.identity)).toEqual({
+      count: 2,
+      mentions: 1,
+      firstUnreadId: 'm3',
+    });
+    expect(getUnreadSummary(messages, new Set(['m1', 'm3', 'm4']), me.identity)).toEqual({
+      count: 0,
+      mentions: 0,
+      firstUnreadId: null,
+    });
+  });
+});
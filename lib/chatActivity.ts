@@ -0,0 +1,76 @@
+import { ChatEntry, getMentions, parseChatPayload } from './chat';
+
+/** Data channel topic carrying {@link ChatTypingMessage}s */
+export const CHAT_TYPING_TOPIC = 'watchparty.chat-typing';
+
+/** Least time between two "typing" messages from the same participant */
+export const TYPING_THROTTLE_MS = 3_000;
+/** A participant stops showing as typing this long after their last "typing" message */
+export const TYPING_EXPIRY_MS = 6_000;
+
+/**
+ * Sent while a participant types in the chat, at most every {@link TYPING_THROTTLE_MS},
+ * and `stopped` once the draft is sent or cleared.
+ */
+export interface ChatTypingMessage {
+  type: 'typing' | 'stopped';
+}
+
+/** Participants typing, by identity, with the time their indicator expires */
+export type TypingParticipants = Record<string, { name: string; expiresAt: number }>;
+
+/** Drops expired entries, returns the same object when nothing expired */
+export function pruneTyping(typing: TypingParticipants, now: number): TypingParticipants {
+  const expired = Object.keys(typing).filter((identity) => typing[identity].expiresAt <= now);
+  if (expired.length === 0) {
+    return typing;
+  }
+  const next = { ...typing };
+  expired.forEach((identity) => delete next[identity]);
+  return next;
+}
+
+/** "Ann is typing…", "Ann and Bob are typing…" or "Ann, Bob and 2 others are typing…" */
+export function formatTypingIndicator(names: string[]): string | null {
+  switch (names.length) {
+    case 0:
+      return null;
+    case 1:
+      return `${names[0]} is typing…`;
+    case 2:
+      return `${names[0]} and ${names[1]} are typing…`;
+    case 3:
+      return `${names[0]}, ${names[1]} and ${names[2]} are typing…`;
+    default:
+      return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing…`;
+  }
+}
+
+export interface UnreadSummary {
+  count: number;
+  /** Unread messages mentioning the local participant */
+  mentions: number;
+  /** First unread message, where the "last read" divider goes */
+  firstUnreadId: string | null;
+}
+
+/**
+ * Counts the messages from other participants that aren't in `readIds`, the messages
+ * present when the local participant last had the chat in front of them.
+ */
+export function getUnreadSummary(
+  messages: ChatEntry[],
+  readIds: ReadonlySet<string>,
+  localIdentity: string,
+): UnreadSummary {
+  const summary: UnreadSummary = { count: 0, mentions: 0, firstUnreadId: null };
+  for (const entry of messages) {
+    if (readIds.has(entry.id) || entry.from?.identity === localIdentity) continue;
+    summary.count++;
+    summary.firstUnreadId ??= entry.id;
+    if (getMentions(parseChatPayload(entry.message)).some((m) => m.identity === localIdentity)) {
+      summary.mentions++;
+    }
+  }
+  return summary;
+}
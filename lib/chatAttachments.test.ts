@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHAT_ATTACHMENT_MAX_BYTES,
+  formatSize,
+  getAttachment,
+  getAttachmentState,
+  validateChatAttachment,
+} from './chatAttachments';
+
+describe('validateChatAttachment', () => {
+  it('accepts images within the size limit', () => {
+    expect(validateChatAttachment({ type: 'image/gif', size: 1024 })).toBeNull();
+    expect(
+      validateChatAttachment({ type: 'image/png', size: CHAT_ATTACHMENT_MAX_BYTES }),
+    ).toBeNull();
+  });
+
+  it('rejects other types and large files', () => {
+    expect(validateChatAttachment({ type: 'image/svg+xml', size: 10 })).toMatch(/Only PNG/);
+    expect(validateChatAttachment({ type: 'application/pdf', size: 10 })).toMatch(/Only PNG/);
+    expect(
+      validateChatAttachment({ type: 'image/jpeg', size: CHAT_ATTACHMENT_MAX_BYTES + 1 }),
+    ).toBe('Images can be at most 5.0 MB');
+  });
+});
+
+describe('getAttachment', () => {
+  const attachment = { id: 'FS_1', name: 'cat.gif', mimeType: 'image/gif', size: 2048 };
+
+  it('reads well-formed attachments', () => {
+    expect(getAttachment({ attachment })).toEqual({ ...attachment, spoiler: false });
+    expect(getAttachment({ attachment: { ...attachment, spoiler: true } })?.spoiler).toBe(true);
+  });
+
+  it('ignores malformed attachments and other types', () => {
+    expect(getAttachment({})).toBeUndefined();
+    expect(getAttachment({ attachment: { ...attachment, id: 1 } })).toBeUndefined();
+    expect(getAttachment({ attachment: { ...attachment, mimeType: 'text/html' } })).toBeUndefined();
+  });
+});
+
+describe('formatSize', () => {
+  it('uses KB below a megabyte', () => {
+    expect(formatSize(1500)).toBe('2 KB');
+    expect(formatSize(3 * 1024 ** 2)).toBe('3.0 MB');
+  });
+});
+
+describe('getAttachmentState', () => {
+  const attachments = {
+    s1: { from: 'host__ab12', state: { status: 'ready' as const, url: 'blob:1' } },
+  };
+
+  it('only shows a stream under a message of its sender', () => {
+    expect(getAttachmentState(attachments, 's1', 'host__ab12')).toEqual(attachments.s1.state);
+    expect(getAttachmentState(attachments, 's1', 'guest__cd34')).toBeUndefined();
+    expect(getAttachmentState(attachments, 's1', undefined)).toBeUndefined();
+    expect(getAttachmentState(attachments, 's2', 'host__ab12')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+/** Byte stream topic carrying the images shared in the chat */
+export const CHAT_ATTACHMENT_TOPIC = 'watchparty.chat-attachment';
+
+export const CHAT_ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+export const CHAT_ATTACHMENT_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+] as const;
+
+/**
+ * An image shared with a chat message. The file itself is sent as a byte stream before the
+ * message, `id` is the id of that stream.
+ */
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Blurred until a viewer clicks it */
+  spoiler?: boolean;
+}
+
+/** Download state of an attachment on this client, by stream id */
+export type ChatAttachmentState =
+  | { status: 'receiving'; progress: number }
+  | { status: 'ready'; url: string }
+  | { status: 'failed'; error: string };
+
+/** An attachment's download state with the identity that sent its byte stream */
+export interface ReceivedChatAttachment {
+  from: string;
+  state: ChatAttachmentState;
+}
+
+/**
+ * Download state of the image a message refers to. Only streams sent by the message's own
+ * sender count, so nobody can show an image someone else sent under their message, e.g. one
+ * a host shared while images are turned off for everyone else.
+ */
+export function getAttachmentState(
+  attachments: Record<string, ReceivedChatAttachment>,
+  id: string,
+  sender: string | undefined,
+): ChatAttachmentState | undefined {
+  const received = attachments[id];
+  return received && received.from === sender ? received.state : undefined;
+}
+
+export function isChatAttachmentType(mimeType: string): boolean {
+  return (CHAT_ATTACHMENT_MIME_TYPES as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Checks a file against the type and size limits, returns why it can't be shared or `null`.
+ */
+export function validateChatAttachment(file: { type: string; size: number }): string | null {
+  if (!isChatAttachmentType(file.type)) {
+    return 'Only PNG, JPEG, GIF and WebP images can be shared';
+  }
+  if (file.size > CHAT_ATTACHMENT_MAX_BYTES) {
+    return `Images can be at most ${formatSize(CHAT_ATTACHMENT_MAX_BYTES)}`;
+  }
+  return null;
+}
+
+/** The attachment of a message, if it references a well-formed one */
+export function getAttachment(payload: { attachment?: unknown }): ChatAttachment | undefined {
+  const attachment = payload.attachment as Partial<ChatAttachment> | undefined;
+  if (
+    !attachment ||
+    typeof attachment.id !== 'string' ||
+    typeof attachment.name !== 'string' ||
+    typeof attachment.mimeType !== 'string' ||
+    !isChatAttachmentType(attachment.mimeType) ||
+    typeof attachment.size !== 'number'
+  ) {
+    return undefined;
+  }
+  const { id, name, mimeType, size, spoiler } = attachment;
+  return { id, name, mimeType, size, spoiler: spoiler === true };
+}
+
+/**
+ * Text of a message sharing an image without a caption. Clients that don't know attachments
+ * show it instead of the image.
+ */
+export function getAttachmentFallbackText(attachment: Pick<ChatAttachment, 'name'>): string {
+  return `📷 ${attachment.name}`;
+}
+
+export function formatSize(bytes: number) {
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
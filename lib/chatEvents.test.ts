@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyChatEvent,
+  applyPendingChatEvents,
+  CHAT_PROTOCOL_VERSION,
+  ChatEvent,
+  ChatMessageStates,
+  EMPTY_CHAT_EVENT_LOG,
+  getChatMessageState,
+  parseChatEvent,
+  receiveChatEvent,
+} from './chatEvents';
+
+const v = CHAT_PROTOCOL_VERSION;
+const ann = { identity: 'ann__ab12', name: 'Ann', isModerator: false };
+const bob = { identity: 'bob__cd34', name: 'Bob', isModerator: false };
+const host = { identity: 'host__ef56', name: 'Host', isModerator: true };
+
+function applyAll(events: [ChatEvent, typeof ann][], author = ann.identity) {
+  return events.reduce<ChatMessageStates>(
+    (states, [event, sender]) => applyChatEvent(states, event, sender, author),
+    {},
+  );
+}
+
+describe('parseChatEvent', () => {
+  it('accepts known events', () => {
+    const reaction = { v, messageId: 'm1', type: 'reaction', emoji: '🔥', action: 'add' };
+    expect(parseChatEvent(reaction)).toEqual(reaction);
+    expect(parseChatEvent({ v: 1, messageId: 'm1', type: 'delete' })).toBeDefined();
+  });
+
+  it('drops invalid events and newer protocol versions', () => {
+    expect(
+      parseChatEvent({ v, messageId: 'm1', type: 'reaction', emoji: '🍕', action: 'add' }),
+    ).toBeUndefined();
+    expect(
+      parseChatEvent({ v, messageId: 'm1', type: 'edit', text: ' ', editedAt: 1 }),
+    ).toBeUndefined();
+    expect(parseChatEvent({ v: v + 1, messageId: 'm1', type: 'delete' })).toBeUndefined();
+    expect(parseChatEvent({ messageId: 'm1', type: 'delete' })).toBeUndefined();
+    expect(parseChatEvent({ v, messageId: 'm1', type: 'pin' })).toBeUndefined();
+  });
+});
+
+describe('applyChatEvent', () => {
+  const react = (emoji: '🔥' | '👍', action: 'add' | 'remove' = 'add'): ChatEvent => ({
+    v,
+    messageId: 'm1',
+    type: 'reaction',
+    emoji,
+    action,
+  });
+
+  it('aggregates reactions with who reacted', () => {
+    const states = applyAll([
+      [react('🔥'), ann],
+      [react('👍'), bob],
+      [react('🔥'), bob],
+      [react('🔥'), bob],
+    ]);
+    expect(getChatMessageState(states, 'm1').reactions).toEqual([
+      { emoji: '🔥', reactors: [ann, bob].map(({ identity, name }) => ({ identity, name })) },
+      { emoji: '👍', reactors: [{ identity: bob.identity, name: bob.name }] },
+    ]);
+  });
+
+  it('drops reactions once everyone took them back', () => {
+    const states = applyAll([
+      [react('🔥'), ann],
+      [react('🔥', 'remove'), ann],
+    ]);
+    expect(getChatMessageState(states, 'm1').reactions).toEqual([]);
+  });
+
+  it('only lets the author edit, keeping the latest edit', () => {
+    const edit = (text: string, editedAt: number): ChatEvent => ({
+      v,
+      messageId: 'm1',
+      type: 'edit',
+      text,
+      editedAt,
+    });
+    const states = applyAll([
+      [edit('second', 2), ann],
+      [edit('first', 1), ann],
+      [edit('hijacked', 3), bob],
+    ]);
+    expect(getChatMessageState(states, 'm1')).toMatchObject({ editedText: 'second', editedAt: 2 });
+  });
+
+  it('lets the author or a moderator delete', () => {
+    const remove: ChatEvent = { v, messageId: 'm1', type: 'delete' };
+    expect(applyAll([[remove, bob]])).toEqual({});
+    expect(getChatMessageState(applyAll([[remove, ann]]), 'm1').deleted).toBe(true);
+    expect(getChatMessageState(applyAll([[remove, host]]), 'm1').deleted).toBe(true);
+    expect(
+      getChatMessageState(
+        applyAll([
+          [remove, ann],
+          [react('🔥'), bob],
+        ]),
+        'm1',
+      ).reactions,
+    ).toEqual([]);
+  });
+
+  it('ignores events for unknown messages', () => {
+    const states = {};
+    expect(applyChatEvent(states, react('🔥'), ann, undefined)).toBe(states);
+  });
+});
+
+describe('receiveChatEvent', () => {
+  const react = (messageId: string): ChatEvent => ({
+    v,
+    messageId,
+    type: 'reaction',
+    emoji: '🔥',
+    action: 'add',
+  });
+  const authors = new Map([['m1', ann.identity]]);
+
+  it('keeps deletions however many events follow', () => {
+    let log = receiveChatEvent(
+      EMPTY_CHAT_EVENT_LOG,
+      { event: { v, messageId: 'm1', type: 'delete' }, sender: host },
+      authors,
+    );
+    for (let i = 0; i < 2000; i++) {
+      log = receiveChatEvent(log, { event: react('m1'), sender: bob }, authors);
+    }
+    expect(getChatMessageState(log.states, 'm1').deleted).toBe(true);
+  });
+
+  it('applies events that arrived before their message once it is known', () => {
+    const log = receiveChatEvent(
+      EMPTY_CHAT_EVENT_LOG,
+      { event: react('m2'), sender: bob },
+      authors,
+    );
+    expect(log.states).toEqual({});
+    expect(applyPendingChatEvents(log, authors)).toBe(log);
+    const applied = applyPendingChatEvents(log, new Map([['m2', ann.identity]]));
+    expect(getChatMessageState(applied.states, 'm2').reactions).toHaveLength(1);
+    expect(applied.pending).toEqual([]);
+  });
+
+  it('bounds the pending events of each sender', () => {
+    let log = EMPTY_CHAT_EVENT_LOG;
+    log = receiveChatEvent(log, { event: react('early'), sender: ann }, authors, 2);
+    for (let i = 0; i < 5; i++) {
+      log = receiveChatEvent(log, { event: react(`spam${i}`), sender: bob }, authors, 2);
+    }
+    expect(log.pending.map(({ event }) => event.messageId)).toEqual(['early', 'spam3', 'spam4']);
+  });
+});
@@ -0,0 +1,216 @@
+import { isReactionEmoji, ReactionEmoji } from './reactions';
+
+/**
+ * Version of the chat protocol spoken by this client, sent as `v` with every message
+ * payload and chat event.
+ * - 1: messages only, `{ text, replyTo? }` (payloads without `v`)
+ * - 2: adds reactions, edits and deletions as {@link ChatEvent}s on {@link CHAT_EVENTS_TOPIC}
+ *
+ * Events travel on their own topic, so clients that only know version 1 keep rendering
+ * the plain text of every message and never see an event.
+ */
+export const CHAT_PROTOCOL_VERSION = 2;
+
+/** Data channel topic carrying {@link ChatEvent}s */
+export const CHAT_EVENTS_TOPIC = 'watchparty.chat-events';
+
+/** An event changing an earlier message, referenced by `messageId` */
+export type ChatEvent = { v: number; messageId: string } & (
+  | { type: 'reaction'; emoji: ReactionEmoji; action: 'add' | 'remove' }
+  | { type: 'edit'; text: string; editedAt: number }
+  | { type: 'delete' }
+);
+
+export interface ChatReactor {
+  identity: string;
+  name: string;
+}
+
+export interface ChatReaction {
+  emoji: ReactionEmoji;
+  /** Participants who reacted, in the order they did */
+  reactors: ChatReactor[];
+}
+
+/** What events did to a single message */
+export interface ChatMessageState {
+  /** In the order each emoji was first used */
+  reactions: ChatReaction[];
+  editedText?: string;
+  editedAt?: number;
+  deleted?: boolean;
+}
+
+export type ChatMessageStates = Record<string, ChatMessageState>;
+
+export interface ChatEventSender extends ChatReactor {
+  isModerator: boolean;
+}
+
+const EMPTY_STATE: ChatMessageState = { reactions: [] };
+
+export function getChatMessageState(states: ChatMessageStates, id: string): ChatMessageState {
+  return states[id] ?? EMPTY_STATE;
+}
+
+/**
+ * Validates an event received from another participant. Events from a newer protocol
+ * version or of unknown types are dropped.
+ */
+export function parseChatEvent(value: unknown): ChatEvent | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const event = value as Record<string, unknown>;
+  if (
+    typeof event.v !== 'number' ||
+    event.v > CHAT_PROTOCOL_VERSION ||
+    typeof event.messageId !== 'string' ||
+    !event.messageId
+  ) {
+    return undefined;
+  }
+  switch (event.type) {
+    case 'reaction':
+      return isReactionEmoji(event.emoji) && (event.action === 'add' || event.action === 'remove')
+        ? (event as ChatEvent)
+        : undefined;
+    case 'edit':
+      return typeof event.text === 'string' &&
+        event.text.trim() &&
+        typeof event.editedAt === 'number'
+        ? (event as ChatEvent)
+        : undefined;
+    case 'delete':
+      return event as ChatEvent;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Applies an event to the message states. Anyone can react, only the author can edit a message,
+ * and the author or a moderator can delete it. `author` is the identity of the message's sender,
+ * events for messages the client doesn't know are dropped.
+ */
+export function applyChatEvent(
+  states: ChatMessageStates,
+  event: ChatEvent,
+  sender: ChatEventSender,
+  author: string | undefined,
+): ChatMessageStates {
+  if (author === undefined) {
+    return states;
+  }
+  const current = getChatMessageState(states, event.messageId);
+  if (current.deleted) {
+    return states;
+  }
+  let next: ChatMessageState;
+  switch (event.type) {
+    case 'reaction': {
+      // Fresh copies, so adding the reactor below doesn't touch the previous state
+      const reactions = current.reactions.map((reaction) =>
+        reaction.emoji === event.emoji
+          ? {
+              ...reaction,
+              reactors: reaction.reactors.filter((r) => r.identity !== sender.identity),
+            }
+          : reaction,
+      );
+      if (event.action === 'add') {
+        const reactor = { identity: sender.identity, name: sender.name };
+        const existing = reactions.find((reaction) => reaction.emoji === event.emoji);
+        if (existing) {
+          existing.reactors.push(reactor);
+        } else {
+          reactions.push({ emoji: event.emoji, reactors: [reactor] });
+        }
+      }
+      next = { ...current, reactions: reactions.filter((r) => r.reactors.length > 0) };
+      break;
+    }
+    case 'edit':
+      if (sender.identity !== author || (current.editedAt ?? 0) > event.editedAt) {
+        return states;
+      }
+      next = { ...current, editedText: event.text, editedAt: event.editedAt };
+      break;
+    case 'delete':
+      if (sender.identity !== author && !sender.isModerator) {
+        return states;
+      }
+      next = { reactions: [], deleted: true };
+      break;
+  }
+  return { ...states, [event.messageId]: next };
+}
+
+/** Collects the states persisted with chat history messages, by message id */
+export function getPersistedStates(
+  messages: { id: string; state?: ChatMessageState }[],
+): ChatMessageStates {
+  return Object.fromEntries(messages.flatMap(({ id, state }) => (state ? [[id, state]] : [])));
+}
+
+/** An event as received, with who sent it */
+export interface ReceivedChatEvent {
+  event: ChatEvent;
+  sender: ChatEventSender;
+}
+
+/** Most events kept per sender for messages that haven't arrived yet */
+export const MAX_PENDING_CHAT_EVENTS_PER_SENDER = 50;
+
+/**
+ * Message states with every event applied so far, and the events whose message hasn't
+ * arrived yet, in the order they were received
+ */
+export interface ChatEventLog {
+  states: ChatMessageStates;
+  pending: ReceivedChatEvent[];
+}
+
+export const EMPTY_CHAT_EVENT_LOG: ChatEventLog = { states: {}, pending: [] };
+
+/**
+ * Applies a received event if its message is known, `authors` maps message ids to their
+ * senders. Other events wait in `pending` until {@link applyPendingChatEvents} finds their
+ * message, each sender's oldest pending events are dropped beyond `maxPendingPerSender`.
+ */
+export function receiveChatEvent(
+  log: ChatEventLog,
+  received: ReceivedChatEvent,
+  authors: ReadonlyMap<string, string | undefined>,
+  maxPendingPerSender = MAX_PENDING_CHAT_EVENTS_PER_SENDER,
+): ChatEventLog {
+  const author = authors.get(received.event.messageId);
+  if (author !== undefined) {
+    return { ...log, states: applyChatEvent(log.states, received.event, received.sender, author) };
+  }
+  const identity = received.sender.identity;
+  const pending = [...log.pending, received];
+  const fromSender = pending.filter((p) => p.sender.identity === identity);
+  if (fromSender.length > maxPendingPerSender) {
+    pending.splice(pending.indexOf(fromSender[0]), 1);
+  }
+  return { ...log, pending };
+}
+
+/** Applies the pending events whose message arrived meanwhile, returns `log` if there are none */
+export function applyPendingChatEvents(
+  log: ChatEventLog,
+  authors: ReadonlyMap<string, string | undefined>,
+): ChatEventLog {
+  if (!log.pending.some(({ event }) => authors.get(event.messageId) !== undefined)) {
+    return log;
+  }
+  return log.pending.reduce<ChatEventLog>(
+    (next, received) => receiveChatEvent(next, received, authors, Infinity),
+    { states: log.states, pending: [] },
+  );
+}
+
+export function hasReacted(reaction: ChatReaction, identity: string): boolean {
+  return reaction.reactors.some((r) => r.identity === identity);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHAT_MARKDOWN_MAX_LENGTH,
+  findMentionQuery,
+  getMentionSuggestions,
+  getSentMentions,
+  insertMention,
+  parseChatMarkdown,
+} from './chatFormatting';
+
+const ann = { identity: 'ann__ab12', name: 'Ann' };
+const annMarie = { identity: 'annmarie__cd34', name: 'Ann Marie' };
+const bob = { identity: 'bob__ef56', name: 'Bob' };
+
+describe('parseChatMarkdown', () => {
+  it('keeps plain text as is', () => {
+    expect(parseChatMarkdown('just <b>text</b>')).toEqual([
+      { type: 'text', text: 'just <b>text</b>' },
+    ]);
+  });
+
+  it('parses bold, italic, code and spoilers', () => {
+    expect(parseChatMarkdown('**big** *small* _also_ `x*y*` ||he dies||')).toEqual([
+      { type: 'bold', children: [{ type: 'text', text: 'big' }] },
+      { type: 'text', text: ' ' },
+      { type: 'italic', children: [{ type: 'text', text: 'small' }] },
+      { type: 'text', text: ' ' },
+      { type: 'italic', children: [{ type: 'text', text: 'also' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'x*y*' },
+      { type: 'text', text: ' ' },
+      { type: 'spoiler', children: [{ type: 'text', text: 'he dies' }] },
+    ]);
+  });
+
+  it('nests formatting inside spoilers', () => {
+    expect(parseChatMarkdown('||**twist**||')).toEqual([
+      {
+        type: 'spoiler',
+        children: [{ type: 'bold', children: [{ type: 'text', text: 'twist' }] }],
+      },
+    ]);
+  });
+
+  it('leaves underscores and stars inside words alone', () => {
+    expect(parseChatMarkdown('snake_case_name and 2*3*4')).toEqual([
+      { type: 'text', text: 'snake_case_name and 2*3*4' },
+    ]);
+  });
+
+  it('autolinks http(s) URLs without trailing punctuation', () => {
+    expect(parseChatMarkdown('see https://example.com/a_b_c?x=1. ok')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', url: 'https://example.com/a_b_c?x=1' },
+      { type: 'text', text: '. ok' },
+    ]);
+    expect(parseChatMarkdown('javascript:alert(1)')).toEqual([
+      { type: 'text', text: 'javascript:alert(1)' },
+    ]);
+  });
+
+  it('only turns recorded mentions into mention tokens, longest name first', () => {
+    expect(parseChatMarkdown('hey @Ann Marie and @bob', [ann, annMarie])).toEqual([
+      { type: 'text', text: 'hey ' },
+      { type: 'mention', text: '@Ann Marie', identity: annMarie.identity },
+      { type: 'text', text: ' and @bob' },
+    ]);
+  });
+
+  it('parses markers that never close without freezing', () => {
+    // Every "*" starts an italic that only fails at the end of the text
+    const start = performance.now();
+    for (const unit of ['`a`*a ', '**a ', '*a ']) {
+      parseChatMarkdown(unit.repeat(Math.ceil((8 * 1024) / unit.length)), [ann]);
+    }
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it('cuts off long messages', () => {
+    const [token] = parseChatMarkdown('a'.repeat(CHAT_MARKDOWN_MAX_LENGTH + 10));
+    expect(token).toEqual({ type: 'text', text: `${'a'.repeat(CHAT_MARKDOWN_MAX_LENGTH)}…` });
+  });
+});
+
+describe('mention autocomplete', () => {
+  it('finds the query before the caret', () => {
+    expect(findMentionQuery('hi @An', 6)).toEqual({ start: 3, query: 'An' });
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    expect(findMentionQuery('mail@example', 12)).toBeNull();
+    expect(findMentionQuery('hi @Ann there', 13)).toBeNull();
+  });
+
+  it('inserts the picked name', () => {
+    expect(insertMention('hi @An!', 3, 6, 'Ann Marie')).toEqual({
+      text: 'hi @Ann Marie !',
+      caret: 14,
+    });
+  });
+
+  it('suggests participants by name or word prefix', () => {
+    expect(getMentionSuggestions([ann, annMarie, bob], 'mar')).toEqual([annMarie]);
+    expect(getMentionSuggestions([ann, annMarie, bob], '')).toEqual([ann, annMarie, bob]);
+    expect(getMentionSuggestions([ann, annMarie, bob], 'an', 1)).toEqual([ann]);
+  });
+
+  it('drops picked mentions that were edited out', () => {
+    expect(getSentMentions('thanks @Bob', [ann, bob, bob])).toEqual([bob]);
+  });
+});
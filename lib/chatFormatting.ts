@@ -0,0 +1,171 @@
+import type { ChatMention } from './chat';
+
+/**
+ * Chat messages support a small, safe subset of markdown: `**bold**`, `*italic*` or `_italic_`,
+ * `` `code` ``, `||spoilers||`, autolinked http(s) URLs and @mentions picked from the
+ * autocomplete. Messages are parsed into tokens and rendered as React elements, never as HTML.
+ */
+export type ChatToken =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string }
+  | { type: 'mention'; text: string; identity: string }
+  | { type: 'bold' | 'italic' | 'spoiler'; children: ChatToken[] };
+
+/** Most characters of a message rendered, longer messages are cut off */
+export const CHAT_MARKDOWN_MAX_LENGTH = 4000;
+
+/** Most suggestions shown by the mention autocomplete */
+export const MENTION_SUGGESTION_LIMIT = 5;
+
+interface InlineRule {
+  pattern: RegExp;
+  toToken: (match: RegExpExecArray) => ChatToken;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]*[^\s<>".,:;!?'")\]]/giu;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function inlineRules(mentions: ChatMention[]): InlineRule[] {
+  const rules: InlineRule[] = [
+    { pattern: /`([^`\n]+)`/gu, toToken: (m) => ({ type: 'code', text: m[1] }) },
+    { pattern: URL_PATTERN, toToken: (m) => ({ type: 'link', url: m[0] }) },
+    {
+      pattern: /\|\|(.+?)\|\|/gsu,
+      toToken: (m) => ({ type: 'spoiler', children: tokenize(m[1], mentions) }),
+    },
+    {
+      pattern: /\*\*(?=\S)(.+?)(?<=\S)\*\*/gsu,
+      toToken: (m) => ({ type: 'bold', children: tokenize(m[1], mentions) }),
+    },
+    {
+      pattern: /(?<![\p{L}\p{N}*_])([*_])(?=\S)(.+?)(?<=\S)\1(?![\p{L}\p{N}*_])/gsu,
+      toToken: (m) => ({ type: 'italic', children: tokenize(m[2], mentions) }),
+    },
+  ];
+  if (mentions.length > 0) {
+    // Longest names first, so "@Ann Marie" wins over "@Ann"
+    const byName = new Map(mentions.map((m) => [m.name.toLowerCase(), m]));
+    const names = Array.from(byName.keys()).sort((a, b) => b.length - a.length);
+    rules.splice(2, 0, {
+      pattern: new RegExp(`@(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+      toToken: (m) => ({
+        type: 'mention',
+        text: m[0],
+        identity: byName.get(m[0].slice(1).toLowerCase())!.identity,
+      }),
+    });
+  }
+  return rules;
+}
+
+function tokenize(text: string, mentions: ChatMention[]): ChatToken[] {
+  const rules = inlineRules(mentions);
+  // Next match of each rule, `null` once it has none left. A rule only runs again once the
+  // position passed its match, running every rule from every position is cubic in the worst case.
+  const nextMatches = new Map<InlineRule, RegExpExecArray | null>();
+  const tokens: ChatToken[] = [];
+  let position = 0;
+  while (position < text.length) {
+    // The earliest match wins, ties go to the rule listed first
+    let best: { match: RegExpExecArray; rule: InlineRule } | undefined;
+    for (const rule of rules) {
+      let match = nextMatches.get(rule);
+      if (match === undefined || (match && match.index < position)) {
+        rule.pattern.lastIndex = position;
+        match = rule.pattern.exec(text);
+        nextMatches.set(rule, match);
+      }
+      if (match && (!best || match.index < best.match.index)) {
+        best = { match, rule };
+      }
+    }
+    if (!best) {
+      break;
+    }
+    if (best.match.index > position) {
+      tokens.push({ type: 'text', text: text.slice(position, best.match.index) });
+    }
+    tokens.push(best.rule.toToken(best.match));
+    position = best.match.index + best.match[0].length;
+  }
+  if (position < text.length) {
+    tokens.push({ type: 'text', text: text.slice(position) });
+  }
+  return tokens;
+}
+
+/**
+ * Parses a chat message into tokens. Only the `mentions` recorded in the message payload
+ * are turned into mention tokens, a plain "@name" stays text. Text beyond
+ * {@link CHAT_MARKDOWN_MAX_LENGTH} is cut off.
+ */
+export function parseChatMarkdown(text: string, mentions: ChatMention[] = []): ChatToken[] {
+  if (text.length > CHAT_MARKDOWN_MAX_LENGTH) {
+    text = `${text.slice(0, CHAT_MARKDOWN_MAX_LENGTH)}…`;
+  }
+  return tokenize(text, mentions);
+}
+
+/**
+ * Finds the "@query" being typed right before the caret, if any.
+ */
+export function findMentionQuery(
+  text: string,
+  caret: number,
+): { start: number; query: string } | null {
+  const match = /(?:^|\s)@([^\s@]*)$/u.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+/**
+ * Replaces the "@query" between `start` and `caret` with the picked name.
+ * Returns the new text and where to put the caret.
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  name: string,
+): { text: string; caret: number } {
+  const mention = `@${name} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
+
+/**
+ * Participants whose name starts with the typed query, or has a word starting with it.
+ */
+export function getMentionSuggestions(
+  participants: ChatMention[],
+  query: string,
+  limit = MENTION_SUGGESTION_LIMIT,
+): ChatMention[] {
+  const needle = query.toLowerCase();
+  return participants
+    .filter(({ name }) =>
+      name
+        .toLowerCase()
+        .split(/\s+/)
+        .concat(name.toLowerCase())
+        .some((part) => part.startsWith(needle)),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Keeps the mentions picked from the autocomplete whose "@name" is still in the message.
+ */
+export function getSentMentions(text: string, picked: ChatMention[]): ChatMention[] {
+  const lower = text.toLowerCase();
+  const unique = new Map(picked.map((mention) => [mention.identity, mention]));
+  return Array.from(unique.values()).filter((m) => lower.includes(`@${m.name.toLowerCase()}`));
+}
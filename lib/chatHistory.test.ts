@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { mergeChatMessages } from './chat';
+import { CHAT_PROTOCOL_VERSION, ChatEvent } from './chatEvents';
+import {
+  ChatHistoryStore,
+  FileChatHistoryStore,
+  InMemoryChatHistoryStore,
+  StoredChatMessage,
+} from './chatHistory';
+
+function message(id: string, timestamp: number): StoredChatMessage {
+  return { id, timestamp, message: JSON.stringify({ text: id }), from: { identity: 'alice' } };
+}
+
+const bob = { identity: 'bob', name: 'Bob', isModerator: false };
+
+function reaction(messageId: string, action: 'add' | 'remove' = 'add'): ChatEvent {
+  return { v: CHAT_PROTOCOL_VERSION, messageId, type: 'reaction', emoji: '🔥', action };
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-history-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  ['InMemoryChatHistoryStore', () => new InMemoryChatHistoryStore()],
+  ['FileChatHistoryStore', () => new FileChatHistoryStore(directory)],
+])('%s', (_, createStore: () => ChatHistoryStore) => {
+  it('returns the last messages of a room, oldest first', async () => {
+    const store = createStore();
+    for (let i = 1; i <= 5; i++) {
+      await store.append('room', message(`m${i}`, i));
+    }
+    expect((await store.list('room', 3)).map((m) => m.id)).toEqual(['m3', 'm4', 'm5']);
+  });
+
+  it('keeps rooms separate', async () => {
+    const store = createStore();
+    await store.append('room-a', message('a', 1));
+    await store.append('../room-b', message('b', 2));
+    expect((await store.list('room-a', 10)).map((m) => m.id)).toEqual(['a']);
+    expect((await store.list('../room-b', 10)).map((m) => m.id)).toEqual(['b']);
+    expect(await store.list('unknown', 10)).toEqual([]);
+  });
+
+  it('ignores duplicate message ids', async () => {
+    const store = createStore();
+    await store.append('room', message('m1', 1));
+    await store.append('room', message('m1', 1));
+    expect(await store.list('room', 10)).toHaveLength(1);
+  });
+
+  it('drops removed messages for good', async () => {
+    const store = createStore();
+    await store.append('room', message('m1', 1));
+    await store.append('room', message('m2', 2));
+    await store.remove('room', 'm1');
+    await store.append('room', message('m1', 1));
+    expect((await store.list('room', 10)).map((m) => m.id)).toEqual(['m2']);
+  });
+
+  it('lists messages with the reactions and edits they received', async () => {
+    const store = createStore();
+    await store.append('room', message('m1', 1));
+    await store.applyEvent('room', reaction('m1'), bob);
+    await store.applyEvent(
+      'room',
+      { v: CHAT_PROTOCOL_VERSION, messageId: 'm1', type: 'edit', text: 'hijacked', editedAt: 2 },
+      bob,
+    );
+    await store.applyEvent('room', reaction('unknown'), bob);
+    const [listed] = await store.list('room', 10);
+    expect(listed.state).toEqual({
+      reactions: [{ emoji: '🔥', reactors: [{ identity: 'bob', name: 'Bob' }] }],
+    });
+    expect(await store.list('room', 10)).toHaveLength(1);
+  });
+});
+
+describe('FileChatHistoryStore compaction', () => {
+  it('keeps the file from growing beyond the retained messages', async () => {
+    const store = new FileChatHistoryStore(directory, 3);
+    for (let i = 1; i <= 10; i++) {
+      await store.append('room', message(`m${i}`, i));
+    }
+    await store.remove('room', 'm9');
+    await store.append('room', message('m9', 9));
+    expect((await store.list('room', 10)).map((m) => m.id)).toEqual(['m7', 'm8', 'm10']);
+    const [file] = await fs.readdir(directory);
+    const contents = await fs.readFile(path.join(directory, file), 'utf8');
+    expect(contents.trim().split('\n').length).toBeLessThanOrEqual(6);
+  });
+
+  it('keeps the latest state of retained messages', async () => {
+    const store = new FileChatHistoryStore(directory, 3);
+    await store.append('room', message('m1', 1));
+    for (let i = 0; i < 6; i++) {
+      await store.applyEvent('room', reaction('m1', i % 2 ? 'add' : 'remove'), bob);
+    }
+    const [listed] = await store.list('room', 10);
+    expect(listed.state?.reactions).toHaveLength(1);
+  });
+});
+
+describe('mergeChatMessages', () => {
+  it('deduplicates by id, preferring live messages, and sorts by timestamp', () => {
+    const history = [message('a', 1), message('b', 3)];
+    const live = [{ ...message('b', 3), from: { identity: 'bob' } }, message('c', 2)];
+    const merged = mergeChatMessages(history, live);
+    expect(merged.map((m) => m.id)).toEqual(['a', 'c', 'b']);
+    expect(merged[2].from?.identity).toBe('bob');
+  });
+});
@@ -0,0 +1,282 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ChatEntry, ChatSender } from './chat';
+import { applyChatEvent, ChatEvent, ChatEventSender, ChatMessageState } from './chatEvents';
+
+/** A chat message persisted by the chat history service */
+export interface StoredChatMessage extends ChatEntry {
+  from: ChatSender;
+  /** Reactions and edits the message received, listed messages only */
+  state?: ChatMessageState;
+}
+
+export interface ChatHistoryStore {
+  append(roomName: string, message: StoredChatMessage): Promise<void>;
+  /** Returns the last `limit` messages of a room with their states, oldest first */
+  list(roomName: string, limit: number): Promise<StoredChatMessage[]>;
+  /** Forgets a deleted message, later appends with its id are ignored */
+  remove(roomName: string, id: string): Promise<void>;
+  /**
+   * Applies a reaction or edit to the state of a stored message, see {@link applyChatEvent}.
+   * Events for unknown messages are dropped.
+   */
+  applyEvent(roomName: string, event: ChatEvent, sender: ChatEventSender): Promise<void>;
+}
+
+/** State of message `id` after `event`, `undefined` if the event changes nothing */
+function nextMessageState(
+  messages: StoredChatMessage[],
+  states: Map<string, ChatMessageState>,
+  event: ChatEvent,
+  sender: ChatEventSender,
+): ChatMessageState | undefined {
+  const author = messages.find((m) => m.id === event.messageId)?.from.identity;
+  const current = states.get(event.messageId);
+  const next = applyChatEvent(current ? { [event.messageId]: current } : {}, event, sender, author);
+  const state = next[event.messageId];
+  return state === current ? undefined : state;
+}
+
+function withStates(messages: StoredChatMessage[], states: Map<string, ChatMessageState>) {
+  return messages.map((m) => {
+    const state = states.get(m.id);
+    return state ? { ...m, state } : m;
+  });
+}
+
+/** Maximum number of messages kept per room, older ones are dropped */
+const MAX_MESSAGES_PER_ROOM = 1000;
+
+export class InMemoryChatHistoryStore implements ChatHistoryStore {
+  private rooms = new Map<string, StoredChatMessage[]>();
+  private removed = new Map<string, Set<string>>();
+  private states = new Map<string, Map<string, ChatMessageState>>();
+
+  constructor(private maxMessages = MAX_MESSAGES_PER_ROOM) {}
+
+  async append(roomName: string, message: StoredChatMessage) {
+    const messages = this.rooms.get(roomName) ?? [];
+    if (messages.some((m) => m.id === message.id) || this.removed.get(roomName)?.has(message.id)) {
+      return;
+    }
+    messages.push(message);
+    if (messages.length > this.maxMessages) {
+      for (const dropped of messages.splice(0, messages.length - this.maxMessages)) {
+        this.states.get(roomName)?.delete(dropped.id);
+      }
+    }
+    this.rooms.set(roomName, messages);
+  }
+
+  async list(roomName: string, limit: number) {
+    return withStates(
+      (this.rooms.get(roomName) ?? []).slice(-limit),
+      this.states.get(roomName) ?? new Map(),
+    );
+  }
+
+  async applyEvent(roomName: string, event: ChatEvent, sender: ChatEventSender) {
+    const states = this.states.get(roomName) ?? new Map<string, ChatMessageState>();
+    const state = nextMessageState(this.rooms.get(roomName) ?? [], states, event, sender);
+    if (state) {
+      states.set(event.messageId, state);
+      this.states.set(roomName, states);
+    }
+  }
+
+  async remove(roomName: string, id: string) {
+    const removed = this.removed.get(roomName) ?? new Set();
+    removed.add(id);
+    this.removed.set(roomName, removed);
+    this.states.get(roomName)?.delete(id);
+    const messages = this.rooms.get(roomName);
+    if (messages) {
+      this.rooms.set(
+        roomName,
+        messages.filter((m) => m.id !== id),
+      );
+    }
+  }
+}
+
+/** Line appended by {@link FileChatHistoryStore.remove}, hides the message with the same id */
+interface ChatTombstone {
+  id: string;
+  deleted: true;
+}
+
+/** Line appended by {@link FileChatHistoryStore.applyEvent}, replaces the message's state */
+interface ChatStateLine {
+  id: string;
+  state: ChatMessageState;
+}
+
+type ChatHistoryLine = StoredChatMessage | ChatTombstone | ChatStateLine;
+
+/**
+ * Stores every room's messages as JSON lines in its own file, so history survives restarts.
+ * Deleted messages are recorded as tombstone lines, and reactions and edits as lines holding
+ * the message's new state, instead of rewriting the file. Once a file holds twice as many lines
+ * as messages are kept, it is compacted down to the kept messages and their latest states.
+ */
+export class FileChatHistoryStore implements ChatHistoryStore {
+  /** Number of lines in each room's file, counted when the room is first written to */
+  private lineCounts = new Map<string, number>();
+  /** Last pending write of each room, writes run one after another */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private directory: string,
+    private maxMessages = MAX_MESSAGES_PER_ROOM,
+  ) {}
+
+  private fileFor(roomName: string) {
+    // base64url keeps arbitrary room names from escaping the history directory
+    return path.join(this.directory, `${Buffer.from(roomName).toString('base64url')}.jsonl`);
+  }
+
+  /** Queues a write behind the room's pending ones, so compaction can't drop an append */
+  private enqueue(roomName: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.writes.get(roomName) ?? Promise.resolve()).then(write, write);
+    const settled = next.catch(() => undefined);
+    this.writes.set(roomName, settled);
+    settled.then(() => {
+      if (this.writes.get(roomName) === settled) {
+        this.writes.delete(roomName);
+      }
+    });
+    return next;
+  }
+
+  private async readLines(roomName: string): Promise<ChatHistoryLine[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(roomName), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const lines: ChatHistoryLine[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        lines.push(JSON.parse(line));
+      } catch {
+        // skip partially written lines
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Resolves tombstones, states and duplicates, returns the remaining messages, removed ids
+   * and the latest state of each remaining message
+   */
+  private async read(roomName: string) {
+    const messages = new Map<string, StoredChatMessage>();
+    const removed = new Set<string>();
+    const states = new Map<string, ChatMessageState>();
+    for (const line of await this.readLines(roomName)) {
+      if ('deleted' in line) {
+        removed.add(line.id);
+        messages.delete(line.id);
+        states.delete(line.id);
+      } else if (!('message' in line)) {
+        if (messages.has(line.id)) {
+          states.set(line.id, line.state);
+        }
+      } else if (!messages.has(line.id) && !removed.has(line.id)) {
+        messages.set(line.id, line);
+      }
+    }
+    return { messages: Array.from(messages.values()), removed: Array.from(removed), states };
+  }
+
+  /** Appends a line, callers have to be queued with {@link enqueue} */
+  private async writeLine(roomName: string, line: ChatHistoryLine) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const lineCount = this.lineCounts.get(roomName) ?? (await this.readLines(roomName)).length;
+    await fs.appendFile(this.fileFor(roomName), JSON.stringify(line) + '\n', 'utf8');
+    this.lineCounts.set(roomName, lineCount + 1);
+    if (lineCount + 1 > 2 * this.maxMessages) {
+      await this.compact(roomName);
+    }
+  }
+
+  private appendLine(roomName: string, line: ChatHistoryLine) {
+    return this.enqueue(roomName, () => this.writeLine(roomName, line));
+  }
+
+  /** Rewrites a room's file with only the messages, states and tombstones still worth keeping */
+  private async compact(roomName: string) {
+    const { messages, removed, states } = await this.read(roomName);
+    const kept = messages.slice(-this.maxMessages);
+    const lines: ChatHistoryLine[] = [
+      ...removed.slice(-this.maxMessages).map((id): ChatTombstone => ({ id, deleted: true })),
+      ...kept,
+      ...kept.flatMap((m): ChatStateLine[] => {
+        const state = states.get(m.id);
+        return state ? [{ id: m.id, state }] : [];
+      }),
+    ];
+    const file = this.fileFor(roomName);
+    await fs.writeFile(`${file}.tmp`, lines.map((l) => JSON.stringify(l) + '\n').join(''), 'utf8');
+    await fs.rename(`${file}.tmp`, file);
+    this.lineCounts.set(roomName, lines.length);
+  }
+
+  async append(roomName: string, message: StoredChatMessage) {
+    await this.appendLine(roomName, message);
+  }
+
+  async remove(roomName: string, id: string) {
+    await this.appendLine(roomName, { id, deleted: true });
+  }
+
+  async list(roomName: string, limit: number) {
+    const { messages, states } = await this.read(roomName);
+    return withStates(messages.slice(-Math.min(limit, this.maxMessages)), states);
+  }
+
+  async applyEvent(roomName: string, event: ChatEvent, sender: ChatEventSender) {
+    // Read and write in one queued step, so concurrent reactions build on each other
+    await this.enqueue(roomName, async () => {
+      const { messages, states } = await this.read(roomName);
+      const state = nextMessageState(messages, states, event, sender);
+      if (state) {
+        await this.writeLine(roomName, { id: event.messageId, state });
+      }
+    });
+  }
+}
+
+let chatHistoryStore: ChatHistoryStore | null | undefined;
+
+/**
+ * Returns the configured chat history store, or `null` when chat history is disabled.
+ * Configured through `CHAT_HISTORY_STORE` (`memory` or `file`) and `CHAT_HISTORY_DIR`.
+ */
+export function getChatHistoryStore(): ChatHistoryStore | null {
+  if (chatHistoryStore === undefined) {
+    switch (process.env.CHAT_HISTORY_STORE) {
+      case 'memory':
+        chatHistoryStore = new InMemoryChatHistoryStore();
+        break;
+      case 'file':
+        chatHistoryStore = new FileChatHistoryStore(
+          process.env.CHAT_HISTORY_DIR ?? path.join(process.cwd(), '.chat-history'),
+        );
+        break;
+      default:
+        chatHistoryStore = null;
+    }
+  }
+  return chatHistoryStore;
+}
+
+/** Allows swapping the store implementation, e.g. for a database-backed one */
+export function setChatHistoryStore(store: ChatHistoryStore | null) {
+  chatHistoryStore = store;
+}
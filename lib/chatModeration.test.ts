@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkChatSend,
+  ChatPolicy,
+  containsBlockedWord,
+  DEFAULT_CHAT_POLICY,
+  hideMutedMessages,
+  maskBlockedWords,
+  normalizeBlockedWords,
+  parseChatPolicy,
+} from './chatModeration';
+
+const policy = (overrides: Partial<ChatPolicy>): ChatPolicy => ({
+  ...DEFAULT_CHAT_POLICY,
+  ...overrides,
+});
+const viewer = { identity: 'bob__cd34', isModerator: false };
+const host = { identity: 'alice__ab12', isModerator: true };
+
+describe('parseChatPolicy', () => {
+  it('falls back to the defaults', () => {
+    expect(parseChatPolicy(undefined)).toEqual(DEFAULT_CHAT_POLICY);
+    expect(parseChatPolicy({ slowModeSeconds: -1, blockedWords: 'spoiler' })).toEqual(
+      DEFAULT_CHAT_POLICY,
+    );
+  });
+
+  it('keeps valid fields', () => {
+    expect(
+      parseChatPolicy({
+        slowModeSeconds: 10,
+        blockedWords: ['Spoiler'],
+        mutedIdentities: ['x', 1],
+        attachmentsDisabled: true,
+      }),
+    ).toEqual({
+      slowModeSeconds: 10,
+      blockedWords: ['spoiler'],
+      mutedIdentities: ['x'],
+      attachmentsDisabled: true,
+    });
+  });
+});
+
+describe('normalizeBlockedWords', () => {
+  it('trims, lowercases and deduplicates', () => {
+    expect(normalizeBlockedWords([' Spoiler', 'spoiler', '', 'Ending '])).toEqual([
+      'spoiler',
+      'ending',
+    ]);
+  });
+
+  it('rejects lists that are not words', () => {
+    expect(normalizeBlockedWords('spoiler')).toBeUndefined();
+    expect(normalizeBlockedWords([1])).toBeUndefined();
+    expect(normalizeBlockedWords(['x'.repeat(41)])).toBeUndefined();
+  });
+});
+
+describe('blocked words', () => {
+  it('matches whole words regardless of case', () => {
+    expect(containsBlockedWord('No SPOILERS please', ['spoilers'])).toBe(true);
+    expect(containsBlockedWord('first class', ['ass'])).toBe(false);
+    expect(containsBlockedWord('anything', [])).toBe(false);
+  });
+
+  it('masks blocked words and keeps the rest', () => {
+    expect(maskBlockedWords('The ending, what an ending!', ['ending'])).toBe(
+      'The ******, what an ******!',
+    );
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(containsBlockedWord('a.b', ['a.b'])).toBe(true);
+    expect(containsBlockedWord('axb', ['a.b'])).toBe(false);
+  });
+});
+
+describe('checkChatSend', () => {
+  it('allows messages without a policy', () => {
+    expect(checkChatSend(DEFAULT_CHAT_POLICY, viewer, 'hi', 0, 1)).toEqual({ allowed: true });
+  });
+
+  it('refuses muted participants but not moderators', () => {
+    const muted = policy({ mutedIdentities: [viewer.identity, host.identity] });
+    expect(checkChatSend(muted, viewer, 'hi', undefined, 0)).toMatchObject({
+      allowed: false,
+      reason: 'muted',
+    });
+    expect(checkChatSend(muted, host, 'hi', undefined, 0).allowed).toBe(true);
+  });
+
+  it('applies slow mode to everyone but moderators', () => {
+    const slow = policy({ slowModeSeconds: 10 });
+    expect(checkChatSend(slow, viewer, 'hi', undefined, 0).allowed).toBe(true);
+    expect(checkChatSend(slow, viewer, 'hi', 1_000, 5_500)).toMatchObject({
+      allowed: false,
+      reason: 'slow_mode',
+      message: expect.stringContaining('6s'),
+    });
+    expect(checkChatSend(slow, viewer, 'hi', 1_000, 11_000).allowed).toBe(true);
+    expect(checkChatSend(slow, host, 'hi', 1_000, 1_001).allowed).toBe(true);
+  });
+
+  it('refuses blocked words from anyone', () => {
+    const filtered = policy({ blockedWords: ['spoiler'] });
+    expect(checkChatSend(filtered, host, 'Spoiler: he dies', undefined, 0)).toMatchObject({
+      allowed: false,
+      reason: 'blocked_word',
+    });
+  });
+
+  it('refuses images when a host turned them off, except from moderators', () => {
+    const noImages = policy({ attachmentsDisabled: true });
+    expect(checkChatSend(noImages, viewer, '', undefined, 0, true)).toMatchObject({
+      allowed: false,
+      reason: 'attachments_disabled',
+    });
+    expect(checkChatSend(noImages, viewer, 'hi', undefined, 0).allowed).toBe(true);
+    expect(checkChatSend(noImages, host, '', undefined, 0, true).allowed).toBe(true);
+  });
+});
+
+describe('hideMutedMessages', () => {
+  const muted = policy({ mutedIdentities: ['troll'] });
+  const entries = [
+    { id: '1', from: { identity: 'troll' } },
+    { id: '2', from: { identity: 'friend' } },
+    { id: '3' },
+  ];
+
+  it('hides the messages of muted participants from everyone else', () => {
+    expect(hideMutedMessages(entries, muted, 'friend').map((e) => e.id)).toEqual(['2', '3']);
+    expect(hideMutedMessages(entries, muted, 'troll')).toHaveLength(3);
+    expect(hideMutedMessages(entries, DEFAULT_CHAT_POLICY, 'friend')).toBe(entries);
+  });
+});
@@ -0,0 +1,181 @@
+export const CHAT_SLOW_MODE_MAX_SECONDS = 300;
+/** Slow mode intervals offered to hosts, 0 turns slow mode off */
+export const CHAT_SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60] as const;
+export const CHAT_BLOCKED_WORDS_MAX = 100;
+export const CHAT_BLOCKED_WORD_MAX_LENGTH = 40;
+
+/**
+ * Chat rules of a room, kept in the room metadata so every participant applies the same ones.
+ * Hosts and co-hosts are exempt from slow mode, can't be muted and can always share images.
+ */
+export interface ChatPolicy {
+  /** Minimum seconds between two messages of the same participant */
+  slowModeSeconds: number;
+  /** Lowercase words that can't be sent and are masked when rendered */
+  blockedWords: string[];
+  /** Identities of participants who may not chat */
+  mutedIdentities: string[];
+  /** Whether only hosts and co-hosts can share images */
+  attachmentsDisabled: boolean;
+}
+
+export const DEFAULT_CHAT_POLICY: ChatPolicy = {
+  slowModeSeconds: 0,
+  blockedWords: [],
+  mutedIdentities: [],
+  attachmentsDisabled: false,
+};
+
+/** Body of `POST /api/room/chat`, `mute` and `unmute` take a participant identity */
+export interface ChatPolicyUpdate {
+  slowModeSeconds?: number;
+  blockedWords?: string[];
+  attachmentsDisabled?: boolean;
+  mute?: string;
+  unmute?: string;
+}
+
+export type ChatSendCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: 'muted' | 'slow_mode' | 'blocked_word' | 'attachments_disabled';
+      message: string;
+    };
+
+export function isSlowModeSeconds(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= CHAT_SLOW_MODE_MAX_SECONDS
+  );
+}
+
+/**
+ * Trims, lowercases and deduplicates a list of blocked words.
+ * Returns `undefined` if the list is not a list of strings or exceeds the limits.
+ */
+export function normalizeBlockedWords(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.some((word) => typeof word !== 'string')) {
+    return undefined;
+  }
+  const words = Array.from(
+    new Set((value as string[]).map((word) => word.trim().toLowerCase()).filter(Boolean)),
+  );
+  if (
+    words.length > CHAT_BLOCKED_WORDS_MAX ||
+    words.some((word) => word.length > CHAT_BLOCKED_WORD_MAX_LENGTH)
+  ) {
+    return undefined;
+  }
+  return words;
+}
+
+/**
+ * Reads the chat policy from the room metadata, falling back to the defaults for anything
+ * missing or malformed.
+ */
+export function parseChatPolicy(value: unknown): ChatPolicy {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_CHAT_POLICY;
+  }
+  const { slowModeSeconds, blockedWords, mutedIdentities, attachmentsDisabled } = value as Record<
+    string,
+    unknown
+  >;
+  return {
+    slowModeSeconds: isSlowModeSeconds(slowModeSeconds) ? slowModeSeconds : 0,
+    blockedWords: normalizeBlockedWords(blockedWords) ?? [],
+    mutedIdentities: Array.isArray(mutedIdentities)
+      ? mutedIdentities.filter((identity): identity is string => typeof identity === 'string')
+      : [],
+    attachmentsDisabled: attachmentsDisabled === true,
+  };
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches blocked words on their own, so blocking "ass" doesn't touch "class" */
+function blockedWordsPattern(words: string[]): RegExp | null {
+  if (words.length === 0) {
+    return null;
+  }
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  );
+}
+
+export function containsBlockedWord(text: string, words: string[]): boolean {
+  return blockedWordsPattern(words)?.test(text) ?? false;
+}
+
+export function maskBlockedWords(text: string, words: string[]): string {
+  const pattern = blockedWordsPattern(words);
+  return pattern ? text.replace(pattern, (match) => '*'.repeat(match.length)) : text;
+}
+
+/**
+ * Drops the messages of muted participants, so a client that ignores the policy can't get
+ * them in front of anyone. Muted participants still see their own messages.
+ */
+export function hideMutedMessages<T extends { from?: { identity: string } }>(
+  entries: T[],
+  policy: ChatPolicy,
+  localIdentity: string,
+): T[] {
+  if (policy.mutedIdentities.length === 0) {
+    return entries;
+  }
+  return entries.filter(
+    (entry) =>
+      !entry.from ||
+      entry.from.identity === localIdentity ||
+      !policy.mutedIdentities.includes(entry.from.identity),
+  );
+}
+
+/**
+ * Decides whether a participant may send `text` right now under the room's chat policy.
+ * Pass `withAttachment` when the message shares an image.
+ */
+export function checkChatSend(
+  policy: ChatPolicy,
+  sender: { identity: string; isModerator: boolean },
+  text: string,
+  lastSentAt: number | undefined,
+  now: number,
+  withAttachment = false,
+): ChatSendCheck {
+  if (!sender.isModerator && policy.mutedIdentities.includes(sender.identity)) {
+    return { allowed: false, reason: 'muted', message: 'A host has muted your chat' };
+  }
+  if (withAttachment && !sender.isModerator && policy.attachmentsDisabled) {
+    return {
+      allowed: false,
+      reason: 'attachments_disabled',
+      message: 'A host has turned off images in this chat',
+    };
+  }
+  if (containsBlockedWord(text, policy.blockedWords)) {
+    return {
+      allowed: false,
+      reason: 'blocked_word',
+      message: 'Your message contains a word that is not allowed in this room',
+    };
+  }
+  if (!sender.isModerator && policy.slowModeSeconds > 0 && lastSentAt !== undefined) {
+    const waitMs = lastSentAt + policy.slowModeSeconds * 1000 - now;
+    if (waitMs > 0) {
+      return {
+        allowed: false,
+        reason: 'slow_mode',
+        message: `Slow mode is on, wait ${Math.ceil(waitMs / 1000)}s before sending again`,
+      };
+    }
+  }
+  return { allowed: true };
+}
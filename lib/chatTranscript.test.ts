@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { ChatEntry } from './chat';
+import { ChatMessageStates } from './chatEvents';
+import {
+  buildChatTranscript,
+  formatChatTranscript,
+  getChatTranscriptFilename,
+  toChatSystemEvent,
+} from './chatTranscript';
+
+const ann = { identity: 'ann__ab12', name: 'Ann' };
+const bob = { identity: 'bob__cd34', name: 'Bob' };
+const start = Date.UTC(2026, 9, 19, 18, 0, 0);
+const time = (ms: number) => format(new Date(ms), 'yyyy-MM-dd HH:mm:ss');
+
+const messages: ChatEntry[] = [
+  {
+    id: 'm1',
+    timestamp: start,
+    from: ann,
+    message: JSON.stringify({
+      v: 2,
+      text: 'look at this part',
+      position: { url: 'https://example.com/movie.mp4', seconds: 5025 },
+    }),
+  },
+  {
+    id: 'm2',
+    timestamp: start + 2_000,
+    from: bob,
+    message: JSON.stringify({
+      text: 'wow',
+      replyTo: { id: 'm1', sender: 'Ann', text: 'look at this part' },
+    }),
+  },
+  { id: 'm3', timestamp: start + 3_000, from: bob, message: 'spoiler: deleted' },
+];
+
+const states: ChatMessageStates = {
+  m1: { reactions: [{ emoji: '🔥', reactors: [ann, bob] }] },
+  m2: { reactions: [], editedText: 'wow!', editedAt: start + 5_000 },
+  m3: { reactions: [], deleted: true },
+};
+
+const transcript = buildChatTranscript('movie-night', messages, {
+  states,
+  systemEvents: [{ id: 'e1', timestamp: start + 1_000, text: 'Bob joined' }],
+  exportedAt: start + 60_000,
+});
+
+describe('buildChatTranscript', () => {
+  it('resolves messages, reactions, edits and system events in order', () => {
+    expect(transcript.entries.map((e) => e.id)).toEqual(['m1', 'e1', 'm2']);
+    expect(transcript.entries[0]).toMatchObject({
+      type: 'message',
+      time: '2026-10-19T18:00:00.000Z',
+      sender: { identity: ann.identity, name: 'Ann' },
+      position: { seconds: 5025, formatted: '1:23:45' },
+      reactions: [{ emoji: '🔥', count: 2, names: ['Ann', 'Bob'] }],
+    });
+    expect(transcript.entries[2]).toMatchObject({
+      text: 'wow!',
+      editedAt: '2026-10-19T18:00:05.000Z',
+      replyTo: { id: 'm1', sender: 'Ann' },
+    });
+  });
+
+  it('masks blocked words', () => {
+    const masked = buildChatTranscript('movie-night', messages.slice(0, 1), {
+      blockedWords: ['part'],
+    });
+    expect(masked.entries[0]).toMatchObject({ text: 'look at this ****' });
+  });
+});
+
+describe('formatChatTranscript', () => {
+  it('writes plain text lines', () => {
+    const text = formatChatTranscript(transcript, 'txt');
+    expect(text).toContain(`[${time(start)}] Ann @ 1:23:45: look at this part\n`);
+    expect(text).toContain('🔥 2 (Ann, Bob)');
+    expect(text).toContain(`[${time(start + 1_000)}] * Bob joined\n`);
+    expect(text).toContain(`[${time(start + 2_000)}] ↳ replying to Ann: look at this part\n`);
+    expect(text).toContain(`[${time(start + 2_000)}] Bob: wow! (edited)\n`);
+    expect(text).not.toContain('deleted');
+  });
+
+  it('writes Markdown', () => {
+    const markdown = formatChatTranscript(transcript, 'markdown');
+    expect(markdown).toMatch(/^# Chat transcript: movie-night\n/);
+    expect(markdown).toContain(`**Ann** · ${time(start)} · @ 1:23:45\nlook at this part`);
+    expect(markdown).toContain(`**Bob** · ${time(start + 2_000)} · edited\n> Ann: look at`);
+  });
+
+  it('writes JSON that parses back', () => {
+    expect(JSON.parse(formatChatTranscript(transcript, 'json'))).toEqual(transcript);
+  });
+});
+
+describe('transcript helpers', () => {
+  it('builds safe file names', () => {
+    expect(getChatTranscriptFilename('movie night/../x', 'markdown', start)).toMatch(
+      /^chat-movie_night_x-20261019-\d{4}\.md$/,
+    );
+  });
+
+  it('describes room events', () => {
+    const event = {
+      id: 'EV_1',
+      roomName: 'movie-night',
+      createdAt: start,
+      participantIdentity: ann.identity,
+    };
+    expect(toChatSystemEvent({ ...event, event: 'participant_joined' }, false)).toEqual({
+      id: 'EV_1',
+      timestamp: start,
+      text: `${ann.identity} joined`,
+    });
+    expect(toChatSystemEvent({ ...event, event: 'egress_started' }, true)?.text).toBe(
+      'Recording started',
+    );
+    expect(toChatSystemEvent({ ...event, event: 'egress_ended' }, false)?.text).toBe(
+      'Live stream ended',
+    );
+    expect(toChatSystemEvent({ ...event, event: 'track_published' }, false)).toBeUndefined();
+  });
+});
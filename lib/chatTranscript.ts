@@ -0,0 +1,264 @@
+import { format } from 'date-fns';
+import {
+  ChatEntry,
+  getMentions,
+  getPlaybackPosition,
+  getSenderName,
+  parseChatPayload,
+} from './chat';
+import { getAttachment } from './chatAttachments';
+import { ChatMessageStates, getChatMessageState } from './chatEvents';
+import { maskBlockedWords } from './chatModeration';
+import { formatPlaybackPosition } from './playbackSync';
+import type { RoomEventRecord } from './roomEvents';
+
+export type ChatTranscriptFormat = 'json' | 'markdown' | 'txt';
+
+export const CHAT_TRANSCRIPT_FORMATS: Record<
+  ChatTranscriptFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  json: { label: 'JSON', extension: 'json', contentType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  txt: { label: 'Plain text', extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+};
+
+export function isChatTranscriptFormat(value: unknown): value is ChatTranscriptFormat {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(CHAT_TRANSCRIPT_FORMATS, value)
+  );
+}
+
+/** Something that happened in the room, e.g. a participant joining, listed between messages */
+export interface ChatSystemEvent {
+  id: string;
+  timestamp: number;
+  text: string;
+}
+
+export interface TranscriptMessage {
+  type: 'message';
+  id: string;
+  timestamp: number;
+  /** ISO 8601 time of {@link timestamp} */
+  time: string;
+  sender: { identity?: string; name: string };
+  /** Latest text of the message, edits included */
+  text: string;
+  /** ISO 8601 time of the last edit */
+  editedAt?: string;
+  replyTo?: { id: string; sender: string; text: string };
+  mentions?: { identity: string; name: string }[];
+  /** Image shared with the message, the image itself isn't part of the transcript */
+  attachment?: { name: string; mimeType: string; size: number };
+  /** Position of the shared video when the message was sent */
+  position?: { url: string; seconds: number; formatted: string };
+  reactions?: { emoji: string; count: number; names: string[] }[];
+}
+
+export interface TranscriptSystemEntry extends ChatSystemEvent {
+  type: 'system';
+  time: string;
+}
+
+export type TranscriptEntry = TranscriptMessage | TranscriptSystemEntry;
+
+export interface ChatTranscript {
+  roomName: string;
+  exportedAt: string;
+  /** Messages and system events, oldest first */
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Resolves messages, their reactions and edits, and system events into a transcript.
+ * Deleted messages are left out, blocked words are masked like in the chat panel.
+ */
+export function buildChatTranscript(
+  roomName: string,
+  messages: ChatEntry[],
+  {
+    states = {},
+    systemEvents = [],
+    blockedWords = [],
+    exportedAt = Date.now(),
+  }: {
+    states?: ChatMessageStates;
+    systemEvents?: ChatSystemEvent[];
+    blockedWords?: string[];
+    exportedAt?: number;
+  } = {},
+): ChatTranscript {
+  const mask = (text: string) => maskBlockedWords(text, blockedWords);
+  const entries: TranscriptEntry[] = [];
+  for (const entry of messages) {
+    const state = getChatMessageState(states, entry.id);
+    if (state.deleted) continue;
+    const payload = parseChatPayload(entry.message);
+    const message: TranscriptMessage = {
+      type: 'message',
+      id: entry.id,
+      timestamp: entry.timestamp,
+      time: new Date(entry.timestamp).toISOString(),
+      sender: { identity: entry.from?.identity, name: getSenderName(entry.from) },
+      text: mask(state.editedText ?? payload.text),
+    };
+    if (state.editedAt !== undefined) {
+      message.editedAt = new Date(state.editedAt).toISOString();
+    }
+    if (payload.replyTo) {
+      message.replyTo = { ...payload.replyTo, text: mask(payload.replyTo.text) };
+    }
+    const mentions = getMentions(payload);
+    if (mentions.length > 0) {
+      message.mentions = mentions;
+    }
+    const attachment = getAttachment(payload);
+    if (attachment) {
+      message.attachment = {
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      };
+    }
+    const position = getPlaybackPosition(payload);
+    if (position) {
+      message.position = { ...position, formatted: formatPlaybackPosition(position.seconds) };
+    }
+    if (state.reactions.length > 0) {
+      message.reactions = state.reactions.map((reaction) => ({
+        emoji: reaction.emoji,
+        count: reaction.reactors.length,
+        names: reaction.reactors.map((r) => r.name),
+      }));
+    }
+    entries.push(message);
+  }
+  for (const event of systemEvents) {
+    entries.push({ type: 'system', ...event, time: new Date(event.timestamp).toISOString() });
+  }
+  // stable, so messages keep their order when timestamps are equal
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+  return { roomName, exportedAt: new Date(exportedAt).toISOString(), entries };
+}
+
+/** Local date and time used by the Markdown and plain text transcripts */
+const formatTime = (time: string | number) => format(new Date(time), 'yyyy-MM-dd HH:mm:ss');
+
+function formatReactions(message: TranscriptMessage) {
+  return (message.reactions ?? [])
+    .map((r) => `${r.emoji} ${r.count} (${r.names.join(', ')})`)
+    .join(', ');
+}
+
+function toMarkdown(transcript: ChatTranscript) {
+  const lines = [
+    `# Chat transcript: ${transcript.roomName}`,
+    '',
+    `Exported ${formatTime(transcript.exportedAt)}`,
+  ];
+  for (const entry of transcript.entries) {
+    lines.push('');
+    if (entry.type === 'system') {
+      lines.push(`_${formatTime(entry.timestamp)} · ${entry.text}_`);
+      continue;
+    }
+    const details = [formatTime(entry.timestamp)];
+    if (entry.position) details.push(`@ ${entry.position.formatted}`);
+    if (entry.editedAt) details.push('edited');
+    lines.push(`**${entry.sender.name}** · ${details.join(' · ')}`);
+    if (entry.replyTo) {
+      lines.push(`> ${entry.replyTo.sender}: ${entry.replyTo.text.replace(/\n/g, '\n> ')}`, '');
+    }
+    lines.push(entry.text);
+    if (entry.reactions) {
+      lines.push('', formatReactions(entry));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toText(transcript: ChatTranscript) {
+  const lines = [
+    `Chat transcript: ${transcript.roomName}`,
+    `Exported ${formatTime(transcript.exportedAt)}`,
+    '',
+  ];
+  for (const entry of transcript.entries) {
+    const time = `[${formatTime(entry.timestamp)}]`;
+    if (entry.type === 'system') {
+      lines.push(`${time} * ${entry.text}`);
+      continue;
+    }
+    if (entry.replyTo) {
+      lines.push(`${time} ↳ replying to ${entry.replyTo.sender}: ${entry.replyTo.text}`);
+    }
+    const position = entry.position ? ` @ ${entry.position.formatted}` : '';
+    const edited = entry.editedAt ? ' (edited)' : '';
+    lines.push(`${time} ${entry.sender.name}${position}: ${entry.text}${edited}`);
+    if (entry.reactions) {
+      lines.push(`${' '.repeat(time.length)} ${formatReactions(entry)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatChatTranscript(
+  transcript: ChatTranscript,
+  transcriptFormat: ChatTranscriptFormat,
+): string {
+  switch (transcriptFormat) {
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+    case 'markdown':
+      return toMarkdown(transcript);
+    case 'txt':
+      return toText(transcript);
+  }
+}
+
+export function getChatTranscriptFilename(
+  roomName: string,
+  transcriptFormat: ChatTranscriptFormat,
+  exportedAt = Date.now(),
+): string {
+  const safeName = roomName.replace(/[^\w-]+/g, '_');
+  const { extension } = CHAT_TRANSCRIPT_FORMATS[transcriptFormat];
+  return `chat-${safeName}-${format(new Date(exportedAt), 'yyyyMMdd-HHmm')}.${extension}`;
+}
+
+/**
+ * Describes a room event recorded from LiveKit webhooks, for server side transcripts.
+ * `isRecording` tells egress events of recordings apart from live streams.
+ */
+export function toChatSystemEvent(
+  event: RoomEventRecord,
+  isRecording: boolean,
+): ChatSystemEvent | undefined {
+  const name = event.participantName || event.participantIdentity || 'Someone';
+  let text: string;
+  switch (event.event) {
+    case 'room_started':
+      text = 'Room started';
+      break;
+    case 'room_finished':
+      text = 'Room ended';
+      break;
+    case 'participant_joined':
+      text = `${name} joined`;
+      break;
+    case 'participant_left':
+      text = `${name} left`;
+      break;
+    case 'egress_started':
+      text = isRecording ? 'Recording started' : 'Live stream started';
+      break;
+    case 'egress_ended':
+      text = isRecording ? 'Recording ended' : 'Live stream ended';
+      break;
+    default:
+      return undefined;
+  }
+  return { id: event.id, timestamp: event.createdAt, text };
+}
@@ -27,3 +27,13 @@ export function isLowPowerDevice() {
 export function isMeetStaging() {
   return new URL(location.origin).host === 'meet.staging.livekit.io';
 }
+
+/** Saves generated contents as a file through a temporary link */
+export function downloadFile(filename: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareScreenShares,
+  DEFAULT_CONTENT_SELECTION,
+  getDisplayedShares,
+} from './contentSelection';
+import type { ScreenShare } from './useScreenShare';
+
+function share(trackSid: string): ScreenShare {
+  return { trackRef: { publication: { trackSid } } } as unknown as ScreenShare;
+}
+
+const sids = (shares: ScreenShare[]) => shares.map((s) => s.trackRef.publication.trackSid);
+
+describe('getDisplayedShares', () => {
+  const shares = [share('a'), share('b'), share('c')];
+
+  it('falls back to the earliest share', () => {
+    expect(sids(getDisplayedShares(shares, DEFAULT_CONTENT_SELECTION))).toEqual(['a']);
+    expect(
+      sids(getDisplayedShares(shares, { featuredTrackSid: 'gone', sideBySide: false })),
+    ).toEqual(['a']);
+    expect(getDisplayedShares([], DEFAULT_CONTENT_SELECTION)).toEqual([]);
+  });
+
+  it('shows the featured share, first when side by side', () => {
+    expect(sids(getDisplayedShares(shares, { featuredTrackSid: 'b', sideBySide: false }))).toEqual([
+      'b',
+    ]);
+    expect(sids(getDisplayedShares(shares, { featuredTrackSid: 'b', sideBySide: true }))).toEqual([
+      'b',
+      'a',
+      'c',
+    ]);
+  });
+});
+
+describe('compareScreenShares', () => {
+  const joined = (trackSid: string, joinedAt?: number) =>
+    ({
+      trackRef: { publication: { trackSid } },
+      participant: { joinedAt: joinedAt === undefined ? undefined : new Date(joinedAt) },
+    }) as unknown as ScreenShare;
+
+  it('orders by join time, then by track sid, whatever order they are seen in', () => {
+    const shares = [joined('TR_c', 200), joined('TR_b', 100), joined('TR_a', 200), joined('TR_d')];
+    expect(sids([...shares].sort(compareScreenShares))).toEqual(['TR_b', 'TR_a', 'TR_c', 'TR_d']);
+    expect(sids([...shares].reverse().sort(compareScreenShares))).toEqual([
+      'TR_b',
+      'TR_a',
+      'TR_c',
+      'TR_d',
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { SyncVersion } from './syncVersion';
+import type { ScreenShare } from './useScreenShare';
+
+export const CONTENT_TOPIC = 'watchparty.content';
+
+/**
+ * Which screen share(s) fill the cinema view. Chosen by the host and synced to everyone.
+ */
+export interface ContentSelection {
+  /** Track sid of the featured share, `null` falls back to the first share */
+  featuredTrackSid: string | null;
+  /** Show all shares next to each other instead of only the featured one */
+  sideBySide: boolean;
+}
+
+export interface ContentMessage {
+  type: 'selection';
+  selection: ContentSelection;
+  version: SyncVersion;
+}
+
+export const DEFAULT_CONTENT_SELECTION: ContentSelection = {
+  featuredTrackSid: null,
+  sideBySide: false,
+};
+
+/**
+ * Orders shares the same way on every client, whenever it joined: by when the sharing
+ * participant joined the room, as told by the server, then by track sid.
+ */
+export function compareScreenShares(a: ScreenShare, b: ScreenShare): number {
+  const joinedAt = (share: ScreenShare) => share.participant.joinedAt?.getTime() ?? Infinity;
+  const sidA = a.trackRef.publication.trackSid;
+  const sidB = b.trackRef.publication.trackSid;
+  return joinedAt(a) - joinedAt(b) || (sidA < sidB ? -1 : sidA > sidB ? 1 : 0);
+}
+
+export function getFeaturedShare(
+  shares: ScreenShare[],
+  selection: ContentSelection,
+): ScreenShare | undefined {
+  return (
+    shares.find((share) => share.trackRef.publication.trackSid === selection.featuredTrackSid) ??
+    shares[0]
+  );
+}
+
+/**
+ * Returns the shares to render in the cinema view, featured share first.
+ */
+export function getDisplayedShares(
+  shares: ScreenShare[],
+  selection: ContentSelection,
+): ScreenShare[] {
+  const featured = getFeaturedShare(shares, selection);
+  if (!featured) {
+    return [];
+  }
+  if (!selection.sideBySide) {
+    return [featured];
+  }
+  return [featured, ...shares.filter((share) => share !== featured)];
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLobbyAction,
+  checkLobbyAdmission,
+  getLobbyState,
+  LOBBY_REQUEST_TIMEOUT_MS,
+} from './lobby';
+import { InMemoryRoomRegistry, resolveParticipantRole } from './roomRegistry';
+
+async function createRoom(lobbyEnabled: boolean) {
+  const registry = new InMemoryRoomRegistry();
+  await resolveParticipantRole(registry, 'room', 'host');
+  await applyLobbyAction(registry, 'room', { type: 'setEnabled', enabled: lobbyEnabled });
+  return registry;
+}
+
+describe('checkLobbyAdmission', () => {
+  it('admits everyone while the lobby is disabled', async () => {
+    const registry = await createRoom(false);
+    expect(await checkLobbyAdmission(registry, 'room', 'joiner', 'Alice')).toEqual({
+      status: 'admitted',
+    });
+  });
+
+  it('queues joiners until the host admits them', async () => {
+    const registry = await createRoom(true);
+    const first = await checkLobbyAdmission(registry, 'room', 'joiner', 'Alice');
+    expect(first.status).toBe('pending');
+    const again = await checkLobbyAdmission(registry, 'room', 'joiner', 'Alice');
+    expect(again).toEqual(first);
+
+    const record = await registry.get('room');
+    const { requests } = getLobbyState(record!);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].participantName).toBe('Alice');
+    expect(requests[0]).not.toHaveProperty('session');
+
+    await applyLobbyAction(registry, 'room', { type: 'admit', ticket: requests[0].ticket });
+    expect((await checkLobbyAdmission(registry, 'room', 'joiner', 'Alice')).status).toBe(
+      'admitted',
+    );
+    expect(getLobbyState((await registry.get('room'))!).requests).toEqual([]);
+  });
+
+  it('rejects denied joiners', async () => {
+    const registry = await createRoom(true);
+    const pending = await checkLobbyAdmission(registry, 'room', 'joiner', 'Mallory');
+    if (pending.status !== 'pending') throw new Error('expected a pending request');
+    await applyLobbyAction(registry, 'room', { type: 'deny', ticket: pending.ticket });
+    expect((await checkLobbyAdmission(registry, 'room', 'joiner', 'Mallory')).status).toBe(
+      'denied',
+    );
+    expect(getLobbyState((await registry.get('room'))!).requests).toEqual([]);
+  });
+
+  it('keeps denied joiners out after their request would have expired', async () => {
+    const registry = await createRoom(true);
+    const pending = await checkLobbyAdmission(registry, 'room', 'joiner', 'Mallory', 0);
+    if (pending.status !== 'pending') throw new Error('expected a pending request');
+    await applyLobbyAction(registry, 'room', { type: 'deny', ticket: pending.ticket });
+    const later = LOBBY_REQUEST_TIMEOUT_MS + 1;
+    expect((await checkLobbyAdmission(registry, 'room', 'joiner', 'Mallory', later)).status).toBe(
+      'denied',
+    );
+    expect(getLobbyState((await registry.get('room'))!, later).requests).toEqual([]);
+  });
+
+  it('drops requests from joiners that stopped waiting', async () => {
+    const registry = await createRoom(true);
+    await checkLobbyAdmission(registry, 'room', 'joiner', 'Alice', 0);
+    const record = (await registry.get('room'))!;
+    expect(getLobbyState(record, LOBBY_REQUEST_TIMEOUT_MS + 1).requests).toEqual([]);
+  });
+});
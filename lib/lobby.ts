@@ -0,0 +1,134 @@
+import { LobbyRequest, RoomRecord, RoomRegistry } from './roomRegistry';
+
+/** Requests from joiners that stopped polling for this long are dropped from the queue */
+export const LOBBY_REQUEST_TIMEOUT_MS = 30_000;
+
+/** How often a waiting joiner asks whether it was admitted */
+export const LOBBY_POLL_INTERVAL_MS = 3_000;
+
+/** Response of `connection-details` while the joiner waits in the lobby (HTTP 202) */
+export interface LobbyTicket {
+  status: 'pending';
+  ticket: string;
+}
+
+/** A pending request as shown to the host, without the joiner's session key */
+export interface LobbyEntry {
+  ticket: string;
+  participantName: string;
+  requestedAt: number;
+}
+
+export interface LobbyState {
+  enabled: boolean;
+  requests: LobbyEntry[];
+}
+
+export type LobbyAction =
+  | { type: 'admit'; ticket: string }
+  | { type: 'deny'; ticket: string }
+  | { type: 'setEnabled'; enabled: boolean };
+
+export type LobbyAdmission =
+  | { status: 'admitted' }
+  | { status: 'pending'; ticket: string }
+  | { status: 'denied' };
+
+function isStale(request: LobbyRequest, now: number) {
+  return now - request.lastSeenAt > LOBBY_REQUEST_TIMEOUT_MS;
+}
+
+/**
+ * Checks whether a non-host session may join the room. While the lobby is enabled, unknown
+ * sessions are queued for the host, every later call refreshes the request. Sessions the host
+ * denied stay denied, so they can't keep queueing up again.
+ */
+export async function checkLobbyAdmission(
+  registry: RoomRegistry,
+  roomName: string,
+  session: string,
+  participantName: string,
+  now = Date.now(),
+): Promise<LobbyAdmission> {
+  let admission: LobbyAdmission = { status: 'admitted' };
+  await registry.update(roomName, (record) => {
+    if (!record.lobbyEnabled || record.admittedSessions.includes(session)) {
+      admission = { status: 'admitted' };
+      return record;
+    }
+    if (record.deniedSessions.includes(session)) {
+      admission = { status: 'denied' };
+      return record;
+    }
+    const existing = record.lobbyRequests.find((r) => r.session === session && !isStale(r, now));
+    const request: LobbyRequest = existing
+      ? { ...existing, participantName, lastSeenAt: now }
+      : {
+          ticket: crypto.randomUUID(),
+          session,
+          participantName,
+          requestedAt: now,
+          lastSeenAt: now,
+        };
+    admission = { status: 'pending', ticket: request.ticket };
+    return {
+      ...record,
+      lobbyRequests: [
+        ...record.lobbyRequests.filter((r) => r.session !== session && !isStale(r, now)),
+        request,
+      ],
+    };
+  });
+  return admission;
+}
+
+export function getLobbyState(record: RoomRecord, now = Date.now()): LobbyState {
+  return {
+    enabled: record.lobbyEnabled,
+    requests: record.lobbyRequests
+      .filter((r) => !isStale(r, now))
+      .map(({ ticket, participantName, requestedAt }) => ({
+        ticket,
+        participantName,
+        requestedAt,
+      })),
+  };
+}
+
+/**
+ * Applies a host decision to the room's lobby. Returns `undefined` if the room is unknown.
+ */
+export async function applyLobbyAction(
+  registry: RoomRegistry,
+  roomName: string,
+  action: LobbyAction,
+): Promise<RoomRecord | undefined> {
+  return registry.update(roomName, (record) => {
+    switch (action.type) {
+      case 'setEnabled':
+        return { ...record, lobbyEnabled: action.enabled };
+      case 'admit': {
+        const request = record.lobbyRequests.find((r) => r.ticket === action.ticket);
+        if (!request) {
+          return record;
+        }
+        return {
+          ...record,
+          admittedSessions: [...record.admittedSessions, request.session],
+          lobbyRequests: record.lobbyRequests.filter((r) => r !== request),
+        };
+      }
+      case 'deny': {
+        const request = record.lobbyRequests.find((r) => r.ticket === action.ticket);
+        if (!request) {
+          return record;
+        }
+        return {
+          ...record,
+          deniedSessions: [...record.deniedSessions, request.session],
+          lobbyRequests: record.lobbyRequests.filter((r) => r !== request),
+        };
+      }
+    }
+  });
+}
@@ -0,0 +1,33 @@
+import { AccessToken, AccessTokenOptions } from 'livekit-server-sdk';
+import { getVideoGrantForRole } from './roleGrants';
+import type { ParticipantRole } from './roles';
+
+/**
+ * Lifetime of participant tokens. Clients refresh them before they expire,
+ * see `useTokenRefresh`.
+ */
+export const PARTICIPANT_TOKEN_TTL = '5m';
+
+/**
+ * How long after expiry a token can still be traded for a new one, so a client that was
+ * offline briefly, e.g. while switching networks, can rejoin without going through `PreJoin`.
+ * Kept short since a leaked token can be refreshed for that long.
+ */
+export const TOKEN_REFRESH_GRACE_SECONDS = 5 * 60;
+
+/**
+ * Issues a token with the grants of `role`. Participants `muted` in the chat can't send data
+ * messages, see `isChatMuted`.
+ */
+export function createParticipantToken(
+  userInfo: AccessTokenOptions,
+  roomName: string,
+  role: ParticipantRole,
+  muted = false,
+): Promise<string> {
+  const at = new AccessToken(process.env.LIVEKIT_API_KEY, process.env.LIVEKIT_API_SECRET, userInfo);
+  at.ttl = PARTICIPANT_TOKEN_TTL;
+  const grant = getVideoGrantForRole(role, roomName);
+  at.addGrant({ ...grant, canPublishData: grant.canPublishData && !muted });
+  return at.toJwt();
+}
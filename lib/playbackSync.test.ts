@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeDriftCorrection,
+  expectedPosition,
+  formatPlaybackPosition,
+  isHlsUrl,
+  isValidMediaUrl,
+  NUDGE_RATE_FACTOR,
+  PlaybackSnapshot,
+} from './playbackSync';
+
+function snapshot(playing: boolean, position: number, rate = 1): PlaybackSnapshot {
+  return {
+    state: {
+      url: 'https://example.com/movie.mp4',
+      playing,
+      position,
+      rate,
+      controller: 'host',
+      version: { time: 1, by: 'host' },
+    },
+    receivedAt: 10_000,
+  };
+}
+
+describe('expectedPosition', () => {
+  it('returns the captured position while paused', () => {
+    expect(expectedPosition(snapshot(false, 42), 20_000)).toBe(42);
+  });
+
+  it('extrapolates the position while playing', () => {
+    expect(expectedPosition(snapshot(true, 42), 12_000)).toBe(44);
+  });
+
+  it('takes the playback rate into account', () => {
+    expect(expectedPosition(snapshot(true, 10, 2), 11_000)).toBe(12);
+  });
+
+  it('never extrapolates backwards', () => {
+    expect(expectedPosition(snapshot(true, 10), 9_000)).toBe(10);
+  });
+});
+
+describe('computeDriftCorrection', () => {
+  it('does nothing when in sync', () => {
+    expect(computeDriftCorrection(10.05, 10, 1)).toEqual({ action: 'none', rate: 1 });
+  });
+
+  it('speeds up when slightly behind', () => {
+    expect(computeDriftCorrection(9.5, 10, 1)).toEqual({
+      action: 'nudge',
+      rate: 1 + NUDGE_RATE_FACTOR,
+    });
+  });
+
+  it('slows down when slightly ahead', () => {
+    expect(computeDriftCorrection(10.5, 10, 1)).toEqual({
+      action: 'nudge',
+      rate: 1 - NUDGE_RATE_FACTOR,
+    });
+  });
+
+  it('seeks when drift is large', () => {
+    expect(computeDriftCorrection(3, 10, 1.5)).toEqual({ action: 'seek', position: 10, rate: 1.5 });
+  });
+});
+
+describe('media URLs', () => {
+  it('detects HLS playlists', () => {
+    expect(isHlsUrl('https://cdn.example.com/live/index.m3u8?token=abc')).toBe(true);
+    expect(isHlsUrl('https://cdn.example.com/movie.mp4')).toBe(false);
+  });
+
+  it('only accepts http(s) URLs', () => {
+    expect(isValidMediaUrl('https://example.com/movie.mp4')).toBe(true);
+    expect(isValidMediaUrl('javascript:alert(1)')).toBe(false);
+    expect(isValidMediaUrl('not a url')).toBe(false);
+  });
+});
+
+describe('formatPlaybackPosition', () => {
+  it('formats minutes and hours', () => {
+    expect(formatPlaybackPosition(0)).toBe('0:00');
+    expect(formatPlaybackPosition(187.9)).toBe('3:07');
+    expect(formatPlaybackPosition(5025)).toBe('1:23:45');
+  });
+});
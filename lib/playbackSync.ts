@@ -0,0 +1,109 @@
+import type { SyncVersion } from './syncVersion';
+
+/** Data channel topic used for synchronized URL playback */
+export const PLAYBACK_TOPIC = 'watchparty.playback';
+
+/** Interval at which the controller re-broadcasts its playback state */
+export const PLAYBACK_HEARTBEAT_MS = 5_000;
+
+/** Drift (in seconds) above which viewers hard-seek to the expected position */
+export const SEEK_DRIFT_THRESHOLD = 1;
+/** Drift (in seconds) above which viewers gently speed up or slow down */
+export const NUDGE_DRIFT_THRESHOLD = 0.15;
+/** Relative playback rate adjustment used while nudging back into sync */
+export const NUDGE_RATE_FACTOR = 0.05;
+
+export interface PlaybackState {
+  /** Direct media URL (MP4, WebM or HLS playlist) */
+  url: string;
+  playing: boolean;
+  /** Media position in seconds at the moment the state was captured */
+  position: number;
+  rate: number;
+  /** Identity of the participant driving playback */
+  controller: string;
+  /** Newer with every update so late or reordered messages can be dropped */
+  version: SyncVersion;
+}
+
+/**
+ * Messages exchanged on {@link PLAYBACK_TOPIC}. Versions are ordered the same way on every client,
+ * whoever sent them, so receivers drop anything older than the last message they applied.
+ * A `seekRequest` is sent to the controller only, asking it to jump to `position` of `url`.
+ */
+export type PlaybackMessage =
+  | { type: 'state'; state: PlaybackState }
+  | { type: 'stop'; version: SyncVersion; controller: string }
+  | { type: 'seekRequest'; url: string; position: number };
+
+/** A playback state together with the local time it was received or captured at */
+export interface PlaybackSnapshot {
+  state: PlaybackState;
+  receivedAt: number;
+}
+
+export type DriftCorrection =
+  | { action: 'none'; rate: number }
+  | { action: 'nudge'; rate: number }
+  | { action: 'seek'; position: number; rate: number };
+
+/**
+ * Position (in seconds) the media should be at `now`, extrapolated from the last known state.
+ */
+export function expectedPosition(snapshot: PlaybackSnapshot, now: number): number {
+  const { state, receivedAt } = snapshot;
+  if (!state.playing) {
+    return state.position;
+  }
+  const elapsed = Math.max(0, now - receivedAt) / 1000;
+  return state.position + elapsed * state.rate;
+}
+
+/**
+ * Decides how a viewer should correct the difference between its own position and the expected one.
+ * Large drifts are fixed with a seek, small ones by briefly adjusting the playback rate so the
+ * picture doesn't jump.
+ */
+export function computeDriftCorrection(
+  actual: number,
+  expected: number,
+  baseRate: number,
+): DriftCorrection {
+  const drift = actual - expected;
+  if (Math.abs(drift) >= SEEK_DRIFT_THRESHOLD) {
+    return { action: 'seek', position: expected, rate: baseRate };
+  }
+  if (Math.abs(drift) >= NUDGE_DRIFT_THRESHOLD) {
+    const factor = drift < 0 ? 1 + NUDGE_RATE_FACTOR : 1 - NUDGE_RATE_FACTOR;
+    return { action: 'nudge', rate: baseRate * factor };
+  }
+  return { action: 'none', rate: baseRate };
+}
+
+/**
+ * Formats a media position as "1:23:45", or "3:07" below an hour.
+ */
+export function formatPlaybackPosition(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+export function isHlsUrl(url: string): boolean {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+  } catch {
+    return false;
+  }
+}
+
+export function isValidMediaUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
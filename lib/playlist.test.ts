@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPlaylistAction,
+  getNextPlaylistItem,
+  parsePlaylistItems,
+  parsePlaylistProposal,
+  PLAYLIST_MAX_ITEMS,
+  PLAYLIST_NAME_MAX_LENGTH,
+  PLAYLIST_TITLE_MAX_LENGTH,
+  PlaylistItem,
+} from './playlist';
+
+const item = (id: string, approved = true): PlaylistItem => ({
+  id,
+  url: `https://example.com/${id}.mp4`,
+  title: id,
+  proposedBy: 'alice__ab12',
+  proposedByName: 'alice',
+  proposedAt: 0,
+  approved,
+});
+
+describe('parsePlaylistProposal', () => {
+  it('trims the title and note', () => {
+    expect(
+      parsePlaylistProposal({
+        id: 'a',
+        url: 'https://example.com/a.mp4',
+        title: '  Movie  ',
+        note: ' after the break ',
+      }),
+    ).toEqual({
+      id: 'a',
+      url: 'https://example.com/a.mp4',
+      title: 'Movie',
+      note: 'after the break',
+    });
+  });
+
+  it('drops an empty note', () => {
+    expect(
+      parsePlaylistProposal({ id: 'a', url: 'https://example.com/a.mp4', title: 'A', note: ' ' }),
+    ).not.toHaveProperty('note');
+  });
+
+  it('rejects invalid proposals', () => {
+    expect(parsePlaylistProposal(null)).toBeUndefined();
+    expect(
+      parsePlaylistProposal({ id: 'a', url: 'javascript:alert(1)', title: 'A' }),
+    ).toBeUndefined();
+    expect(
+      parsePlaylistProposal({ id: 'a', url: 'https://example.com', title: ' ' }),
+    ).toBeUndefined();
+    expect(parsePlaylistProposal({ url: 'https://example.com', title: 'A' })).toBeUndefined();
+  });
+});
+
+describe('parsePlaylistItems', () => {
+  it('keeps valid items', () => {
+    expect(parsePlaylistItems([item('a'), item('b', false)])).toEqual([
+      item('a'),
+      item('b', false),
+    ]);
+  });
+
+  it('drops items a proposal would be refused for', () => {
+    const planted = { ...item('x'), url: 'javascript:alert(1)' };
+    expect(parsePlaylistItems([planted, item('a'), { ...item('b'), approved: 'yes' }])).toEqual([
+      item('a'),
+    ]);
+    expect(parsePlaylistItems('items')).toBeUndefined();
+  });
+
+  it('enforces the length limits, duplicates and queue size', () => {
+    const [long] = parsePlaylistItems([
+      { ...item('a'), title: 't'.repeat(500), proposedByName: 'n'.repeat(500) },
+    ])!;
+    expect(long.title).toHaveLength(PLAYLIST_TITLE_MAX_LENGTH);
+    expect(long.proposedByName).toHaveLength(PLAYLIST_NAME_MAX_LENGTH);
+    expect(parsePlaylistItems([item('a'), item('a')])).toHaveLength(1);
+    const many = Array.from({ length: PLAYLIST_MAX_ITEMS + 10 }, (_, i) => item(`i${i}`));
+    expect(parsePlaylistItems(many)).toHaveLength(PLAYLIST_MAX_ITEMS);
+  });
+});
+
+describe('applyPlaylistAction', () => {
+  it('adds an item only once', () => {
+    const items = applyPlaylistAction([], { type: 'add', item: item('a') });
+    expect(applyPlaylistAction(items, { type: 'add', item: item('a') })).toBe(items);
+  });
+
+  it('stops growing at the maximum', () => {
+    const full = Array.from({ length: PLAYLIST_MAX_ITEMS }, (_, i) => item(`${i}`));
+    expect(applyPlaylistAction(full, { type: 'add', item: item('extra') })).toBe(full);
+  });
+
+  it('approves and removes items', () => {
+    const items = [item('a', false), item('b')];
+    expect(applyPlaylistAction(items, { type: 'approve', id: 'a' })[0].approved).toBe(true);
+    expect(applyPlaylistAction(items, { type: 'remove', id: 'a' }).map((i) => i.id)).toEqual(['b']);
+  });
+
+  it('moves items within bounds', () => {
+    const items = [item('a'), item('b'), item('c')];
+    expect(
+      applyPlaylistAction(items, { type: 'move', id: 'c', offset: -1 }).map((i) => i.id),
+    ).toEqual(['a', 'c', 'b']);
+    expect(applyPlaylistAction(items, { type: 'move', id: 'a', offset: -1 })).toBe(items);
+    expect(
+      applyPlaylistAction(items, { type: 'move', id: 'a', offset: 10 }).map((i) => i.id),
+    ).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('getNextPlaylistItem', () => {
+  it('skips items waiting for approval', () => {
+    expect(getNextPlaylistItem([item('a', false), item('b')])?.id).toBe('b');
+    expect(getNextPlaylistItem([item('a', false)])).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import { isValidMediaUrl } from './playbackSync';
+import type { SyncVersion } from './syncVersion';
+
+/** Data channel topic used for the shared up-next queue */
+export const PLAYLIST_TOPIC = 'watchparty.playlist';
+
+export const PLAYLIST_MAX_ITEMS = 50;
+export const PLAYLIST_TITLE_MAX_LENGTH = 120;
+export const PLAYLIST_NOTE_MAX_LENGTH = 280;
+export const PLAYLIST_NAME_MAX_LENGTH = 64;
+
+/** What a participant fills in to suggest a video */
+export interface PlaylistProposal {
+  id: string;
+  url: string;
+  title: string;
+  note?: string;
+}
+
+export interface PlaylistItem extends PlaylistProposal {
+  /** Identity and name of the participant who proposed the item */
+  proposedBy: string;
+  proposedByName: string;
+  proposedAt: number;
+  /** Only approved items are played, proposals wait for a host */
+  approved: boolean;
+}
+
+export interface PlaylistState {
+  items: PlaylistItem[];
+  /** Orders updates so late or reordered messages can be dropped, see `syncVersion.ts` */
+  version: SyncVersion;
+}
+
+/**
+ * Messages exchanged on {@link PLAYLIST_TOPIC}. Anyone may propose an item, only moderators
+ * publish the queue itself. One participant resends the newest queue to every participant
+ * who joins late.
+ */
+export type PlaylistMessage =
+  | { type: 'propose'; proposal: PlaylistProposal }
+  | { type: 'state'; state: PlaylistState };
+
+export type PlaylistAction =
+  | { type: 'add'; item: PlaylistItem }
+  | { type: 'approve'; id: string }
+  | { type: 'remove'; id: string }
+  | { type: 'move'; id: string; offset: number };
+
+/**
+ * Validates a proposal received from another participant, trimming its text fields.
+ * Returns `undefined` if it can't be queued.
+ */
+export function parsePlaylistProposal(value: unknown): PlaylistProposal | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const { id, url, title, note } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !id || typeof url !== 'string' || !isValidMediaUrl(url)) {
+    return undefined;
+  }
+  if (typeof title !== 'string' || !title.trim()) {
+    return undefined;
+  }
+  const proposal: PlaylistProposal = {
+    id,
+    url,
+    title: title.trim().slice(0, PLAYLIST_TITLE_MAX_LENGTH),
+  };
+  if (typeof note === 'string' && note.trim()) {
+    proposal.note = note.trim().slice(0, PLAYLIST_NOTE_MAX_LENGTH);
+  }
+  return proposal;
+}
+
+/**
+ * Validates a queued item received from another participant like a proposal, and checks who
+ * proposed it. Returns `undefined` if it can't be queued.
+ */
+export function parsePlaylistItem(value: unknown): PlaylistItem | undefined {
+  const proposal = parsePlaylistProposal(value);
+  if (!proposal) {
+    return undefined;
+  }
+  const { proposedBy, proposedByName, proposedAt, approved } = value as Record<string, unknown>;
+  if (
+    typeof proposedBy !== 'string' ||
+    !proposedBy ||
+    typeof proposedByName !== 'string' ||
+    typeof proposedAt !== 'number' ||
+    !Number.isFinite(proposedAt) ||
+    typeof approved !== 'boolean'
+  ) {
+    return undefined;
+  }
+  return {
+    ...proposal,
+    proposedBy,
+    proposedByName: proposedByName.trim().slice(0, PLAYLIST_NAME_MAX_LENGTH) || proposedBy,
+    proposedAt,
+    approved,
+  };
+}
+
+/**
+ * Validates a whole queue received from a moderator. Invalid and duplicate items are dropped,
+ * and the queue is cut to {@link PLAYLIST_MAX_ITEMS}. Returns `undefined` if it isn't a list.
+ */
+export function parsePlaylistItems(value: unknown): PlaylistItem[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .map(parsePlaylistItem)
+    .reduce<
+      PlaylistItem[]
+    >((items, item) => (item ? applyPlaylistAction(items, { type: 'add', item }) : items), []);
+}
+
+/**
+ * Applies a queue change. Adding is idempotent so a proposal handled by several moderators
+ * is only queued once, and the queue never grows beyond {@link PLAYLIST_MAX_ITEMS}.
+ */
+export function applyPlaylistAction(items: PlaylistItem[], action: PlaylistAction): PlaylistItem[] {
+  switch (action.type) {
+    case 'add':
+      if (items.length >= PLAYLIST_MAX_ITEMS || items.some((i) => i.id === action.item.id)) {
+        return items;
+      }
+      return [...items, action.item];
+    case 'approve':
+      return items.map((item) => (item.id === action.id ? { ...item, approved: true } : item));
+    case 'remove':
+      return items.filter((item) => item.id !== action.id);
+    case 'move': {
+      const from = items.findIndex((item) => item.id === action.id);
+      if (from === -1) {
+        return items;
+      }
+      const to = Math.min(Math.max(from + action.offset, 0), items.length - 1);
+      if (to === from) {
+        return items;
+      }
+      const next = [...items];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    }
+  }
+}
+
+/** The first approved item, i.e. what plays next */
+export function getNextPlaylistItem(items: PlaylistItem[]): PlaylistItem | undefined {
+  return items.find((item) => item.approved);
+}
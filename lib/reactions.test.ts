@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addFloatingReaction,
+  FloatingReaction,
+  REACTION_AGGREGATE_AFTER,
+  REACTION_FLOAT_MS,
+  REACTION_RATE_LIMIT,
+  REACTION_RATE_WINDOW_MS,
+  ReactionRateLimiter,
+} from './reactions';
+
+let id = 0;
+const createId = () => `r${++id}`;
+
+describe('ReactionRateLimiter', () => {
+  it('limits each participant separately within the window', () => {
+    const limiter = new ReactionRateLimiter();
+    for (let i = 0; i < REACTION_RATE_LIMIT; i++) {
+      expect(limiter.allow('alice', 0)).toBe(true);
+    }
+    expect(limiter.allow('alice', 0)).toBe(false);
+    expect(limiter.allow('bob', 0)).toBe(true);
+    expect(limiter.allow('alice', REACTION_RATE_WINDOW_MS)).toBe(true);
+  });
+});
+
+describe('addFloatingReaction', () => {
+  it('floats individual reactions until many arrive at once', () => {
+    let floating: FloatingReaction[] = [];
+    for (let i = 0; i < REACTION_AGGREGATE_AFTER; i++) {
+      floating = addFloatingReaction(floating, '🔥', 0, createId);
+    }
+    expect(floating.map((r) => r.count)).toEqual(Array(REACTION_AGGREGATE_AFTER).fill(1));
+
+    floating = addFloatingReaction(floating, '🔥', 10, createId);
+    expect(floating).toHaveLength(1);
+    expect(floating[0].count).toBe(REACTION_AGGREGATE_AFTER + 1);
+
+    floating = addFloatingReaction(floating, '🔥', 20, createId);
+    floating = addFloatingReaction(floating, '👍', 20, createId);
+    expect(floating.map((r) => [r.emoji, r.count])).toEqual([
+      ['🔥', REACTION_AGGREGATE_AFTER + 2],
+      ['👍', 1],
+    ]);
+  });
+
+  it('drops reactions that finished floating', () => {
+    const floating = addFloatingReaction([], '😂', 0, createId);
+    expect(addFloatingReaction(floating, '😮', REACTION_FLOAT_MS, createId)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,81 @@
+export const REACTIONS_TOPIC = 'watchparty.reactions';
+
+export const REACTION_EMOJIS = ['👍', '😂', '😮', '😢', '❤️', '🔥', '👏'] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export interface ReactionMessage {
+  type: 'reaction';
+  emoji: ReactionEmoji;
+}
+
+/** How long a reaction floats over the content */
+export const REACTION_FLOAT_MS = 3000;
+/** Reactions allowed per participant within {@link REACTION_RATE_WINDOW_MS} */
+export const REACTION_RATE_LIMIT = 5;
+export const REACTION_RATE_WINDOW_MS = 3000;
+/**
+ * Once this many reactions with the same emoji are floating, further ones are merged
+ * into a single counter ("🔥 x12") instead of flooding the screen.
+ */
+export const REACTION_AGGREGATE_AFTER = 3;
+
+export interface FloatingReaction {
+  id: string;
+  emoji: ReactionEmoji;
+  count: number;
+  /** Horizontal position in percent of the overlay width */
+  left: number;
+  createdAt: number;
+}
+
+export function isReactionEmoji(emoji: unknown): emoji is ReactionEmoji {
+  return typeof emoji === 'string' && (REACTION_EMOJIS as readonly string[]).includes(emoji);
+}
+
+/**
+ * Sliding window rate limiter keyed by participant identity.
+ */
+export class ReactionRateLimiter {
+  private events = new Map<string, number[]>();
+
+  constructor(
+    private limit = REACTION_RATE_LIMIT,
+    private windowMs = REACTION_RATE_WINDOW_MS,
+  ) {}
+
+  allow(key: string, now = Date.now()): boolean {
+    const recent = (this.events.get(key) ?? []).filter((t) => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.events.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.events.set(key, recent);
+    return true;
+  }
+}
+
+/**
+ * Adds a reaction to the floating ones, merging it into a counter when many people
+ * react with the same emoji at once. Expired reactions are dropped.
+ */
+export function addFloatingReaction(
+  floating: FloatingReaction[],
+  emoji: ReactionEmoji,
+  now: number,
+  createId: () => string,
+  random: () => number = Math.random,
+): FloatingReaction[] {
+  const active = floating.filter((r) => now - r.createdAt < REACTION_FLOAT_MS);
+  const sameEmoji = active.filter((r) => r.emoji === emoji);
+  const isAggregating = sameEmoji.some((r) => r.count > 1);
+  if (isAggregating || sameEmoji.length >= REACTION_AGGREGATE_AFTER) {
+    const total = sameEmoji.reduce((sum, r) => sum + r.count, 0) + 1;
+    const latest = sameEmoji[sameEmoji.length - 1];
+    // Restart the aggregate with a new id so it floats up again with the new count
+    const aggregate: FloatingReaction = { ...latest, id: createId(), count: total, createdAt: now };
+    return [...active.filter((r) => r.emoji !== emoji), aggregate];
+  }
+  return [...active, { id: createId(), emoji, count: 1, left: 10 + random() * 80, createdAt: now }];
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EgressClient,
+  EncodedFileType,
+  RoomServiceClient,
+  SegmentedFileProtocol,
+  TrackSource,
+} from 'livekit-server-sdk';
+import {
+  buildRecordingOutput,
+  findScreenShareTracks,
+  parseRecordingOptions,
+  startRecordingEgress,
+} from './recordingEgress';
+
+const now = new Date('2024-05-01T20:00:00.000Z');
+const noUpload = { case: undefined };
+
+describe('parseRecordingOptions', () => {
+  it('defaults to an MP4 with content and facecams', () => {
+    expect(parseRecordingOptions(new URLSearchParams())).toEqual({
+      layout: 'content-facecam',
+      output: 'mp4',
+    });
+  });
+
+  it('accepts valid options', () => {
+    expect(
+      parseRecordingOptions(new URLSearchParams({ output: 'screen_share', trackSid: 'TR_1' })),
+    ).toEqual({ layout: 'content-facecam', output: 'screen_share', trackSid: 'TR_1' });
+  });
+
+  it('rejects unknown layouts and outputs', () => {
+    expect(() => parseRecordingOptions(new URLSearchParams({ layout: 'speaker' }))).toThrow(
+      expect.objectContaining({ status: 400, code: 'invalid_layout' }),
+    );
+    expect(() => parseRecordingOptions(new URLSearchParams({ output: 'webm' }))).toThrow(
+      expect.objectContaining({ status: 400, code: 'invalid_output' }),
+    );
+  });
+});
+
+describe('buildRecordingOutput', () => {
+  it('names files after the start time and room', () => {
+    const { file } = buildRecordingOutput('movie-night', 'mp4', noUpload, now);
+    expect(file?.fileType).toBe(EncodedFileType.MP4);
+    expect(file?.filepath).toBe('2024-05-01T20:00:00.000Z-movie-night.mp4');
+  });
+
+  it('records audio only to OGG', () => {
+    const { file } = buildRecordingOutput('movie-night', 'ogg', noUpload, now);
+    expect(file?.fileType).toBe(EncodedFileType.OGG);
+    expect(file?.filepath).toBe('2024-05-01T20:00:00.000Z-movie-night.ogg');
+  });
+
+  it('writes HLS segments next to their playlist', () => {
+    const { file, segments } = buildRecordingOutput('movie-night', 'hls', noUpload, now);
+    expect(file).toBeUndefined();
+    expect(segments?.protocol).toBe(SegmentedFileProtocol.HLS_PROTOCOL);
+    expect(segments?.playlistName).toBe('2024-05-01T20:00:00.000Z-movie-night/index.m3u8');
+    expect(segments?.filenamePrefix).toBe('2024-05-01T20:00:00.000Z-movie-night/segment');
+  });
+});
+
+describe('findScreenShareTracks', () => {
+  const client = (participants: { tracks: { sid: string; source: TrackSource }[] }[]) =>
+    ({ listParticipants: async () => participants }) as unknown as RoomServiceClient;
+
+  const sharing = client([
+    { tracks: [{ sid: 'TR_cam', source: TrackSource.CAMERA }] },
+    {
+      tracks: [
+        { sid: 'TR_screen', source: TrackSource.SCREEN_SHARE },
+        { sid: 'TR_screen_audio', source: TrackSource.SCREEN_SHARE_AUDIO },
+      ],
+    },
+    { tracks: [{ sid: 'TR_other', source: TrackSource.SCREEN_SHARE }] },
+  ]);
+
+  it('picks the first screen share with its audio', async () => {
+    expect(await findScreenShareTracks(sharing, 'room')).toEqual({
+      videoTrackId: 'TR_screen',
+      audioTrackId: 'TR_screen_audio',
+    });
+  });
+
+  it('picks the requested screen share', async () => {
+    expect(await findScreenShareTracks(sharing, 'room', 'TR_other')).toEqual({
+      videoTrackId: 'TR_other',
+      audioTrackId: undefined,
+    });
+    await expect(findScreenShareTracks(sharing, 'room', 'TR_gone')).rejects.toMatchObject({
+      code: 'track_not_found',
+    });
+  });
+
+  it('fails when nobody is sharing', async () => {
+    await expect(findScreenShareTracks(client([{ tracks: [] }]), 'room')).rejects.toMatchObject({
+      status: 409,
+      code: 'no_screen_share',
+    });
+  });
+});
+
+describe('startRecordingEgress', () => {
+  const output = buildRecordingOutput('movie-night', 'mp4', noUpload, now);
+  const egressClient = () =>
+    ({
+      startRoomCompositeEgress: vi.fn(async () => ({})),
+      startTrackCompositeEgress: vi.fn(async () => ({})),
+    }) as unknown as EgressClient & {
+      startRoomCompositeEgress: ReturnType<typeof vi.fn>;
+      startTrackCompositeEgress: ReturnType<typeof vi.fn>;
+    };
+  const roomClient = (sharing: boolean) =>
+    ({
+      listParticipants: async () => [
+        { tracks: sharing ? [{ sid: 'TR_screen', source: TrackSource.SCREEN_SHARE }] : [] },
+      ],
+    }) as unknown as RoomServiceClient;
+
+  it('maps composite layouts to egress templates', async () => {
+    const client = egressClient();
+    await startRecordingEgress(
+      client,
+      roomClient(false),
+      'room',
+      { layout: 'grid', output: 'mp4' },
+      output,
+    );
+    await startRecordingEgress(
+      client,
+      roomClient(false),
+      'room',
+      { layout: 'content-facecam', output: 'hls' },
+      output,
+    );
+    expect(client.startRoomCompositeEgress.mock.calls.map((call) => call[2])).toEqual([
+      { layout: 'grid' },
+      { layout: 'speaker' },
+    ]);
+  });
+
+  it('records content only as the screen share alone', async () => {
+    const client = egressClient();
+    await startRecordingEgress(
+      client,
+      roomClient(true),
+      'room',
+      { layout: 'content', output: 'mp4' },
+      output,
+    );
+    expect(client.startRoomCompositeEgress).not.toHaveBeenCalled();
+    expect(client.startTrackCompositeEgress).toHaveBeenCalledWith('room', output, {
+      videoTrackId: 'TR_screen',
+      audioTrackId: undefined,
+    });
+  });
+
+  it('refuses content only recordings while nothing is shared', async () => {
+    const client = egressClient();
+    await expect(
+      startRecordingEgress(
+        client,
+        roomClient(false),
+        'room',
+        { layout: 'content', output: 'mp4' },
+        output,
+      ),
+    ).rejects.toMatchObject({ status: 409, code: 'no_screen_share' });
+    expect(client.startRoomCompositeEgress).not.toHaveBeenCalled();
+  });
+
+  it('records audio without a layout', async () => {
+    const client = egressClient();
+    await startRecordingEgress(
+      client,
+      roomClient(false),
+      'room',
+      { layout: 'content', output: 'ogg' },
+      output,
+    );
+    expect(client.startRoomCompositeEgress.mock.calls[0][2]).toEqual({ audioOnly: true });
+  });
+});
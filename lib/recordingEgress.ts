@@ -0,0 +1,185 @@
+import {
+  EgressClient,
+  EgressInfo,
+  EncodedFileOutput,
+  EncodedOutputs,
+  EncodedFileType,
+  RoomServiceClient,
+  S3Upload,
+  SegmentedFileOutput,
+  SegmentedFileProtocol,
+  TrackSource,
+} from 'livekit-server-sdk';
+import { ApiError } from './apiErrors';
+import {
+  DEFAULT_RECORDING_OPTIONS,
+  isRecordingLayout,
+  isRecordingOutput,
+  RECORDING_LAYOUTS,
+  RECORDING_OUTPUTS,
+  RecordingLayout,
+  RecordingOptions,
+  RecordingOutput,
+} from './recordingOptions';
+import { S3Config } from './s3';
+
+/**
+ * Layouts composited from the whole room. `content` captures the screen share alone with a
+ * track composite instead, the egress templates show a camera while nothing is shared.
+ */
+export type CompositeLayout = Exclude<RecordingLayout, 'content'>;
+
+/** Egress templates matching our layouts, the speaker template features screen shares */
+const EGRESS_LAYOUTS: Record<CompositeLayout, string> = {
+  'content-facecam': 'speaker',
+  grid: 'grid',
+};
+
+const HLS_SEGMENT_DURATION_SECONDS = 6;
+
+/**
+ * Reads and validates the recording options of a start request, missing ones get defaults.
+ *
+ * @throws ApiError 400 for unknown layouts or outputs
+ */
+export function parseRecordingOptions(params: URLSearchParams): RecordingOptions {
+  const layout = params.get('layout') ?? DEFAULT_RECORDING_OPTIONS.layout;
+  const output = params.get('output') ?? DEFAULT_RECORDING_OPTIONS.output;
+  if (!isRecordingLayout(layout)) {
+    throw new ApiError(
+      400,
+      'invalid_layout',
+      `Layout must be one of ${RECORDING_LAYOUTS.join(', ')}`,
+    );
+  }
+  if (!isRecordingOutput(output)) {
+    throw new ApiError(
+      400,
+      'invalid_output',
+      `Output must be one of ${RECORDING_OUTPUTS.join(', ')}`,
+    );
+  }
+  const options: RecordingOptions = { layout, output };
+  const trackSid = params.get('trackSid');
+  if (trackSid) {
+    options.trackSid = trackSid;
+  }
+  return options;
+}
+
+export function toS3Upload(config: S3Config | null): EncodedFileOutput['output'] {
+  if (!config) {
+    // egress falls back to the storage configured on the egress service
+    return { case: undefined };
+  }
+  return {
+    case: 's3',
+    value: new S3Upload({
+      endpoint: config.endpoint,
+      accessKey: config.accessKeyId,
+      secret: config.secretAccessKey,
+      region: config.region,
+      bucket: config.bucket,
+      forcePathStyle: !!config.endpoint,
+    }),
+  };
+}
+
+/**
+ * Builds the egress output for a recording, named `<ISO date>-<room>` like the MP4 recordings.
+ */
+export function buildRecordingOutput(
+  roomName: string,
+  output: RecordingOutput,
+  upload: EncodedFileOutput['output'],
+  now = new Date(),
+): EncodedOutputs {
+  const basename = `${now.toISOString()}-${roomName}`;
+  switch (output) {
+    case 'ogg':
+      return {
+        file: new EncodedFileOutput({
+          fileType: EncodedFileType.OGG,
+          filepath: `${basename}.ogg`,
+          output: upload,
+        }),
+      };
+    case 'hls':
+      return {
+        segments: new SegmentedFileOutput({
+          protocol: SegmentedFileProtocol.HLS_PROTOCOL,
+          filenamePrefix: `${basename}/segment`,
+          playlistName: `${basename}/index.m3u8`,
+          segmentDuration: HLS_SEGMENT_DURATION_SECONDS,
+          output: upload,
+        }),
+      };
+    default:
+      return {
+        file: new EncodedFileOutput({
+          fileType: EncodedFileType.MP4,
+          filepath: `${basename}.mp4`,
+          output: upload,
+        }),
+      };
+  }
+}
+
+export function getEgressLayout(layout: CompositeLayout): string {
+  return EGRESS_LAYOUTS[layout];
+}
+
+/**
+ * Starts the egress of a recording. Content only recordings and `screen_share` outputs
+ * capture just the screen share, so they can't start while nothing is shared.
+ *
+ * @throws ApiError 409 if a screen share is needed but nobody is sharing
+ */
+export async function startRecordingEgress(
+  egressClient: EgressClient,
+  roomClient: RoomServiceClient,
+  roomName: string,
+  options: RecordingOptions,
+  output: EncodedOutputs,
+): Promise<EgressInfo> {
+  if (options.output === 'ogg') {
+    return egressClient.startRoomCompositeEgress(roomName, output, { audioOnly: true });
+  }
+  if (options.output === 'screen_share' || options.layout === 'content') {
+    const tracks = await findScreenShareTracks(roomClient, roomName, options.trackSid);
+    return egressClient.startTrackCompositeEgress(roomName, output, tracks);
+  }
+  return egressClient.startRoomCompositeEgress(roomName, output, {
+    layout: getEgressLayout(options.layout),
+  });
+}
+
+/**
+ * Finds the tracks of a screen share to record, `trackSid` picks one when several
+ * participants share at once.
+ *
+ * @throws ApiError 409 if nobody is sharing their screen, 404 if `trackSid` is unknown
+ */
+export async function findScreenShareTracks(
+  client: RoomServiceClient,
+  roomName: string,
+  trackSid?: string,
+): Promise<{ videoTrackId: string; audioTrackId?: string }> {
+  const participants = await client.listParticipants(roomName);
+  const shares = participants.flatMap((participant) => {
+    const video = participant.tracks.find((t) => t.source === TrackSource.SCREEN_SHARE);
+    const audio = participant.tracks.find((t) => t.source === TrackSource.SCREEN_SHARE_AUDIO);
+    return video ? [{ videoTrackId: video.sid, audioTrackId: audio?.sid }] : [];
+  });
+  if (shares.length === 0) {
+    throw new ApiError(409, 'no_screen_share', 'Nobody is sharing their screen');
+  }
+  if (!trackSid) {
+    return shares[0];
+  }
+  const share = shares.find((s) => s.videoTrackId === trackSid);
+  if (!share) {
+    throw new ApiError(404, 'track_not_found', 'Screen share not found');
+  }
+  return share;
+}
@@ -0,0 +1,63 @@
+/**
+ * What a recording captures and how it is stored, chosen by the host when starting it.
+ */
+export const RECORDING_LAYOUTS = ['content', 'content-facecam', 'grid'] as const;
+export type RecordingLayout = (typeof RECORDING_LAYOUTS)[number];
+
+/**
+ * - mp4: composite video of the room
+ * - ogg: audio only
+ * - hls: composite video as HLS segments and playlist
+ * - screen_share: just the screen share and its audio, without the composite layout
+ */
+export const RECORDING_OUTPUTS = ['mp4', 'ogg', 'hls', 'screen_share'] as const;
+export type RecordingOutput = (typeof RECORDING_OUTPUTS)[number];
+
+export interface RecordingOptions {
+  layout: RecordingLayout;
+  output: RecordingOutput;
+  /** Screen share to record for `screen_share` output, defaults to the first one */
+  trackSid?: string;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  layout: 'content-facecam',
+  output: 'mp4',
+};
+
+export const RECORDING_LAYOUT_LABELS: Record<RecordingLayout, string> = {
+  content: 'Content only',
+  'content-facecam': 'Content with facecam strip',
+  grid: 'Grid',
+};
+
+export const RECORDING_OUTPUT_LABELS: Record<RecordingOutput, string> = {
+  mp4: 'Video (MP4)',
+  ogg: 'Audio only (OGG)',
+  hls: 'Segmented video (HLS)',
+  screen_share: 'Screen share only (MP4)',
+};
+
+export function isRecordingLayout(value: unknown): value is RecordingLayout {
+  return typeof value === 'string' && (RECORDING_LAYOUTS as readonly string[]).includes(value);
+}
+
+export function isRecordingOutput(value: unknown): value is RecordingOutput {
+  return typeof value === 'string' && (RECORDING_OUTPUTS as readonly string[]).includes(value);
+}
+
+/** Whether the layout matters for an output, audio and single track outputs have none */
+export function usesLayout(output: RecordingOutput): boolean {
+  return output === 'mp4' || output === 'hls';
+}
+
+export function toRecordingQuery(options: RecordingOptions): Record<string, string> {
+  const query: Record<string, string> = { output: options.output };
+  if (usesLayout(options.output)) {
+    query.layout = options.layout;
+  }
+  if (options.trackSid) {
+    query.trackSid = options.trackSid;
+  }
+  return query;
+}
@@ -0,0 +1,40 @@
+import { EgressClient } from 'livekit-server-sdk';
+import { RecordingRecord, RoomEventStore, toRecordingRecord } from './roomEvents';
+
+/** Response of `/api/recordings/download` */
+export interface RecordingDownload {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Lists the recordings the given parties of a room made, newest first. LiveKit only remembers
+ * egresses for a while, recordings reported by webhooks fill in the older ones.
+ */
+export async function listRoomRecordings(
+  roomName: string,
+  partyIds: string[],
+  store: RoomEventStore,
+  egressClient?: EgressClient,
+): Promise<RecordingRecord[]> {
+  const recordings = new Map<string, RecordingRecord>();
+  for (const recording of await store.listRecordings(roomName)) {
+    if (recording.partyId && partyIds.includes(recording.partyId)) {
+      recordings.set(recording.egressId, recording);
+    }
+  }
+  if (egressClient) {
+    try {
+      for (const egress of await egressClient.listEgress({ roomName })) {
+        // Egresses of other parties, and streams, never made it into the store
+        const known = recordings.get(egress.egressId);
+        if (known) {
+          recordings.set(egress.egressId, { ...toRecordingRecord(egress), partyId: known.partyId });
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to list egresses, showing recordings from webhooks only', error);
+    }
+  }
+  return Array.from(recordings.values()).sort((a, b) => b.startedAt - a.startedAt);
+}
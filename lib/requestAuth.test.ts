@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AccessToken } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import { ApiError } from './apiErrors';
+import { authorizeRoomRequest } from './requestAuth';
+import { ParticipantRole } from './roles';
+import { createRoomRecord, InMemoryRoomRegistry, setRoomRegistry } from './roomRegistry';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+/** Current metadata of connected participants, by identity */
+const liveMetadata = new Map<string, string>();
+
+vi.mock('./roomService', () => ({
+  getRoomServiceClient: () => ({
+    getParticipant: async (_room: string, identity: string) => {
+      const metadata = liveMetadata.get(identity);
+      if (metadata === undefined) {
+        throw new Error('participant not found');
+      }
+      return { identity, metadata };
+    },
+  }),
+}));
+
+async function tokenFor(room: string, role: ParticipantRole, secret = API_SECRET) {
+  const at = new AccessToken(API_KEY, secret, {
+    identity: `${role}__abcd`,
+    metadata: JSON.stringify({ role }),
+  });
+  at.addGrant({ room, roomJoin: true });
+  return at.toJwt();
+}
+
+function requestWithToken(token?: string) {
+  return new NextRequest('http://localhost/api/record/start?roomName=room', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+async function expectApiError(promise: Promise<unknown>, status: number, code: string) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error).toMatchObject({ status, code });
+}
+
+describe('authorizeRoomRequest', () => {
+  const env = { ...process.env };
+  beforeAll(() => {
+    process.env.LIVEKIT_API_KEY = API_KEY;
+    process.env.LIVEKIT_API_SECRET = API_SECRET;
+  });
+  afterAll(() => {
+    process.env = env;
+  });
+  beforeEach(() => {
+    liveMetadata.clear();
+    for (const role of ['host', 'viewer'] as const) {
+      liveMetadata.set(`${role}__abcd`, JSON.stringify({ role }));
+    }
+  });
+
+  it('accepts the host of the room', async () => {
+    const caller = await authorizeRoomRequest(
+      requestWithToken(await tokenFor('room', 'host')),
+      'room',
+      {
+        requireModerator: true,
+      },
+    );
+    expect(caller).toMatchObject({ identity: 'host__abcd', role: 'host' });
+  });
+
+  it('rejects requests without a token', async () => {
+    await expectApiError(
+      authorizeRoomRequest(requestWithToken(), 'room'),
+      401,
+      'missing_credentials',
+    );
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const token = await tokenFor('room', 'host', 'some-other-secret-that-is-long-enough');
+    await expectApiError(
+      authorizeRoomRequest(requestWithToken(token), 'room'),
+      401,
+      'invalid_token',
+    );
+  });
+
+  it('rejects tokens issued for another room', async () => {
+    const token = await tokenFor('other-room', 'host');
+    await expectApiError(authorizeRoomRequest(requestWithToken(token), 'room'), 403, 'wrong_room');
+  });
+
+  it('rejects viewers when a moderator is required', async () => {
+    const token = await tokenFor('room', 'viewer');
+    await expectApiError(
+      authorizeRoomRequest(requestWithToken(token), 'room', { requireModerator: true }),
+      403,
+      'not_host',
+    );
+  });
+
+  it('checks moderators against their current role', async () => {
+    liveMetadata.set('host__abcd', JSON.stringify({ role: 'viewer' }));
+    await expectApiError(
+      authorizeRoomRequest(requestWithToken(await tokenFor('room', 'host')), 'room', {
+        requireModerator: true,
+      }),
+      403,
+      'not_host',
+    );
+  });
+
+  it('accepts a participant promoted after their token was issued', async () => {
+    liveMetadata.set('viewer__abcd', JSON.stringify({ role: 'cohost' }));
+    const caller = await authorizeRoomRequest(
+      requestWithToken(await tokenFor('room', 'viewer')),
+      'room',
+      { requireModerator: true },
+    );
+    expect(caller.role).toBe('cohost');
+  });
+
+  it('falls back to the room registry while the participant is not connected', async () => {
+    liveMetadata.clear();
+    const registry = new InMemoryRoomRegistry();
+    setRoomRegistry(registry);
+    await registry.getOrCreate('room', () => ({
+      ...createRoomRecord('room', 'host-session'),
+      participantSessions: { host__abcd: 'host-session' },
+    }));
+    const caller = await authorizeRoomRequest(
+      requestWithToken(await tokenFor('room', 'host')),
+      'room',
+      { requireModerator: true },
+    );
+    expect(caller.role).toBe('host');
+  });
+});
@@ -0,0 +1,159 @@
+import { ClaimGrants, TokenVerifier } from 'livekit-server-sdk';
+import { NextRequest } from 'next/server';
+import { ApiError } from './apiErrors';
+import { checkChatSend, parseChatPolicy } from './chatModeration';
+import { DEFAULT_ROLE, getRoleCapabilities, getRoleFromMetadata, ParticipantRole } from './roles';
+import {
+  getManagedParties,
+  getRegisteredRole,
+  getRoomRegistry,
+  requireRoomRecord,
+  RoomRecord,
+} from './roomRegistry';
+import { getRoomMetadata, getRoomServiceClient } from './roomService';
+import { SESSION_COOKIE_KEY } from './session';
+
+export interface AuthorizedCaller {
+  identity: string;
+  role: ParticipantRole;
+  claims: ClaimGrants;
+}
+
+/**
+ * Authenticates an API request with the caller's LiveKit access token, sent as
+ * `Authorization: Bearer <token>`, and checks that the token was issued for `roomName`.
+ * `expiredGraceSeconds` accepts tokens that expired at most that long ago.
+ * Moderators are checked against their current role rather than the one in the token.
+ *
+ * @throws ApiError 401 if the token is missing or invalid, 403 if the caller is not allowed
+ */
+export async function authorizeRoomRequest(
+  request: NextRequest,
+  roomName: string,
+  options: { requireModerator?: boolean; expiredGraceSeconds?: number } = {},
+): Promise<AuthorizedCaller> {
+  const { LIVEKIT_API_KEY, LIVEKIT_API_SECRET } = process.env;
+  if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
+    throw new Error('LIVEKIT_API_KEY and LIVEKIT_API_SECRET must be defined');
+  }
+
+  const authorization = request.headers.get('Authorization');
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    throw new ApiError(401, 'missing_credentials', 'Missing bearer token');
+  }
+
+  let claims: ClaimGrants;
+  try {
+    claims = await new TokenVerifier(LIVEKIT_API_KEY, LIVEKIT_API_SECRET).verify(
+      token,
+      options.expiredGraceSeconds,
+    );
+  } catch {
+    throw new ApiError(401, 'invalid_token', 'Access token is invalid or has expired');
+  }
+
+  if (!claims.sub || claims.video?.room !== roomName) {
+    throw new ApiError(403, 'wrong_room', `Access token was not issued for room ${roomName}`);
+  }
+
+  let role = getRoleFromMetadata(claims.metadata);
+  // Tokens keep the role they were issued with until they expire, promotions and demotions
+  // since then only show in the participant's current role
+  if (options.requireModerator || getRoleCapabilities(role).canModerate) {
+    role = await getCurrentRole(roomName, claims.sub);
+  }
+  if (options.requireModerator && !getRoleCapabilities(role).canModerate) {
+    throw new ApiError(403, 'not_host', 'Only the host can perform this action');
+  }
+
+  return { identity: claims.sub, role, claims };
+}
+
+/**
+ * Role a participant has right now, read from its live metadata, or from the room registry
+ * while it isn't connected.
+ */
+async function getCurrentRole(roomName: string, identity: string): Promise<ParticipantRole> {
+  try {
+    const participant = await getRoomServiceClient().getParticipant(roomName, identity);
+    return getRoleFromMetadata(participant.metadata);
+  } catch {
+    const record = await getRoomRegistry().get(roomName);
+    const session = record?.participantSessions[identity];
+    return (record && session && getRegisteredRole(record, session)) || DEFAULT_ROLE;
+  }
+}
+
+/**
+ * Looks up the party a caller's access token belongs to. Tokens issued before the room was
+ * ended stay valid for the room name, but don't give access to what later parties leave behind.
+ *
+ * @throws ApiError 404 if the room is unknown, 403 if the token was issued for an earlier party
+ */
+export async function requireCallerParty(roomName: string, identity: string): Promise<RoomRecord> {
+  const record = await requireRoomRecord(getRoomRegistry(), roomName);
+  if (!record.participantSessions[identity]) {
+    throw new ApiError(403, 'wrong_party', 'Access token was issued for an earlier party');
+  }
+  return record;
+}
+
+/**
+ * Authenticates a moderator by access token like `authorizeRoomRequest`, or, for pages used
+ * outside of the room, by the session cookie of the room's host or one of its co-hosts.
+ *
+ * Hosts of ended parties may still manage what their party left behind, e.g. its recordings,
+ * `partyIds` lists the parties the caller moderates or moderated, the current one first.
+ *
+ * @throws ApiError 401 if neither identifies a moderator of the room
+ */
+export async function authorizeRoomModerator(
+  request: NextRequest,
+  roomName: string,
+): Promise<{ record: RoomRecord; partyIds: string[] }> {
+  if (request.headers.has('Authorization')) {
+    const caller = await authorizeRoomRequest(request, roomName, { requireModerator: true });
+    const record = await requireCallerParty(roomName, caller.identity);
+    const session = record.participantSessions[caller.identity];
+    const pastParties = getManagedParties(record, session).filter((id) => id !== record.partyId);
+    return { record, partyIds: [record.partyId, ...pastParties] };
+  }
+  const session = request.cookies.get(SESSION_COOKIE_KEY)?.value;
+  const record = await getRoomRegistry().get(roomName);
+  if (!session || !record) {
+    throw new ApiError(401, 'missing_credentials', 'Only the host can perform this action');
+  }
+  const partyIds = getManagedParties(record, session);
+  if (partyIds.length === 0) {
+    throw new ApiError(403, 'not_host', 'Only the host can perform this action');
+  }
+  return { record, partyIds };
+}
+
+/**
+ * Checks a message or edit the caller sends against the room's chat policy, e.g. refuses
+ * muted participants. Slow mode is left to the clients, the timestamps of stored messages
+ * come from the sender's clock.
+ *
+ * @throws ApiError 403 if the policy doesn't allow it
+ */
+export async function requireChatAllowed(
+  roomName: string,
+  caller: AuthorizedCaller,
+  text: string,
+  hasAttachment = false,
+) {
+  const metadata = await getRoomMetadata(getRoomServiceClient(), roomName);
+  const check = checkChatSend(
+    parseChatPolicy(metadata?.chatPolicy),
+    { identity: caller.identity, isModerator: getRoleCapabilities(caller.role).canModerate },
+    text,
+    undefined,
+    Date.now(),
+    hasAttachment,
+  );
+  if (!check.allowed) {
+    throw new ApiError(403, check.reason, check.message);
+  }
+}
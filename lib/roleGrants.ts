@@ -0,0 +1,28 @@
+import { TrackSource, VideoGrant } from 'livekit-server-sdk';
+import { getRoleCapabilities, ParticipantRole } from './roles';
+
+/**
+ * Maps a participant role to the LiveKit grant embedded in its access token,
+ * so the server enforces what the UI hides.
+ */
+export function getVideoGrantForRole(role: ParticipantRole, roomName: string): VideoGrant {
+  const { canPublishMedia, canShareScreen } = getRoleCapabilities(role);
+  const canPublishSources: TrackSource[] = [];
+  if (canPublishMedia) {
+    canPublishSources.push(TrackSource.CAMERA, TrackSource.MICROPHONE);
+  }
+  if (canShareScreen) {
+    canPublishSources.push(TrackSource.SCREEN_SHARE, TrackSource.SCREEN_SHARE_AUDIO);
+  }
+  const grant: VideoGrant = {
+    room: roomName,
+    roomJoin: true,
+    canPublish: canPublishSources.length > 0,
+    canPublishData: true,
+    canSubscribe: true,
+  };
+  if (canPublishSources.length > 0) {
+    grant.canPublishSources = canPublishSources;
+  }
+  return grant;
+}
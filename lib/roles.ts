@@ -0,0 +1,88 @@
+import type { Participant } from 'livekit-client';
+
+/**
+ * Roles a participant can have in a WatchParty room.
+ * - host: created the room, controls content and can moderate
+ * - cohost: same capabilities as the host, assigned by the host
+ * - viewer: can talk and use their camera but cannot share content
+ * - guest: watch and chat only
+ */
+export const PARTICIPANT_ROLES = ['host', 'cohost', 'viewer', 'guest'] as const;
+
+export type ParticipantRole = (typeof PARTICIPANT_ROLES)[number];
+
+export const DEFAULT_ROLE: ParticipantRole = 'viewer';
+
+/** Roles that can be requested by a joiner, everything else is assigned by the server */
+export const SELF_ASSIGNABLE_ROLES: readonly ParticipantRole[] = ['viewer', 'guest'];
+
+export interface ParticipantMetadata {
+  role?: ParticipantRole;
+  [key: string]: unknown;
+}
+
+export interface RoleCapabilities {
+  /** Publish camera and microphone */
+  canPublishMedia: boolean;
+  canShareScreen: boolean;
+  /** Load, play, pause and seek URL playback for everyone */
+  canControlPlayback: boolean;
+  /** Moderate the room and manage recordings */
+  canModerate: boolean;
+}
+
+const ROLE_CAPABILITIES: Record<ParticipantRole, RoleCapabilities> = {
+  host: {
+    canPublishMedia: true,
+    canShareScreen: true,
+    canControlPlayback: true,
+    canModerate: true,
+  },
+  cohost: {
+    canPublishMedia: true,
+    canShareScreen: true,
+    canControlPlayback: true,
+    canModerate: true,
+  },
+  viewer: {
+    canPublishMedia: true,
+    canShareScreen: false,
+    canControlPlayback: false,
+    canModerate: false,
+  },
+  guest: {
+    canPublishMedia: false,
+    canShareScreen: false,
+    canControlPlayback: false,
+    canModerate: false,
+  },
+};
+
+export function isParticipantRole(role: unknown): role is ParticipantRole {
+  return typeof role === 'string' && (PARTICIPANT_ROLES as readonly string[]).includes(role);
+}
+
+export function getRoleCapabilities(role: ParticipantRole): RoleCapabilities {
+  return ROLE_CAPABILITIES[role];
+}
+
+export function parseParticipantMetadata(metadata: string | undefined | null): ParticipantMetadata {
+  if (!metadata) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRoleFromMetadata(metadata: string | undefined | null): ParticipantRole {
+  const { role } = parseParticipantMetadata(metadata);
+  return isParticipantRole(role) ? role : DEFAULT_ROLE;
+}
+
+export function getParticipantRole(participant: Participant | undefined): ParticipantRole {
+  return getRoleFromMetadata(participant?.metadata);
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { AccessToken, WebhookReceiver } from 'livekit-server-sdk';
+import { InMemoryRoomEventStore, recordWebhookEvent, RecordingRecord } from './roomEvents';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const fixtures = {
+  participantJoined: {
+    event: 'participant_joined',
+    id: 'EV_joined',
+    createdAt: '1700000000',
+    room: { sid: 'RM_1', name: 'movie-night' },
+    participant: { sid: 'PA_1', identity: 'alice__ab12', name: 'Alice' },
+  },
+  egressStarted: {
+    event: 'egress_started',
+    id: 'EV_egress_started',
+    createdAt: '1700000100',
+    egressInfo: {
+      egressId: 'EG_1',
+      roomName: 'movie-night',
+      status: 'EGRESS_ACTIVE',
+      startedAt: '1700000100000000000',
+    },
+  },
+  egressEnded: {
+    event: 'egress_ended',
+    id: 'EV_egress_ended',
+    createdAt: '1700003700',
+    egressInfo: {
+      egressId: 'EG_1',
+      roomName: 'movie-night',
+      status: 'EGRESS_COMPLETE',
+      startedAt: '1700000100000000000',
+      endedAt: '1700003700000000000',
+      fileResults: [
+        {
+          filename: '2023-11-14T22:15:00.000Z-movie-night.mp4',
+          location: 'https://bucket.s3.amazonaws.com/2023-11-14T22:15:00.000Z-movie-night.mp4',
+          size: '1048576',
+          duration: '3600000000000',
+        },
+      ],
+    },
+  },
+};
+
+async function sign(body: string) {
+  const token = new AccessToken(API_KEY, API_SECRET);
+  token.sha256 = createHash('sha256').update(body).digest('base64');
+  return token.toJwt();
+}
+
+async function deliver(store: InMemoryRoomEventStore, payload: object) {
+  const body = JSON.stringify(payload);
+  const receiver = new WebhookReceiver(API_KEY, API_SECRET);
+  const event = await receiver.receive(body, await sign(body));
+  return recordWebhookEvent(store, event);
+}
+
+describe('recordWebhookEvent', () => {
+  it('records signed participant events', async () => {
+    const store = new InMemoryRoomEventStore();
+    expect(await deliver(store, fixtures.participantJoined)).toBe(true);
+    expect(await store.list('movie-night', 10)).toEqual([
+      {
+        id: 'EV_joined',
+        event: 'participant_joined',
+        roomName: 'movie-night',
+        createdAt: 1_700_000_000_000,
+        participantIdentity: 'alice__ab12',
+        participantName: 'Alice',
+      },
+    ]);
+  });
+
+  it('ignores redelivered events', async () => {
+    const store = new InMemoryRoomEventStore();
+    await deliver(store, fixtures.participantJoined);
+    expect(await deliver(store, fixtures.participantJoined)).toBe(false);
+    expect(await store.list('movie-night', 10)).toHaveLength(1);
+  });
+
+  it('links finished egress to its recording file', async () => {
+    const store = new InMemoryRoomEventStore();
+    await deliver(store, fixtures.egressStarted);
+    expect(await store.getRecording('EG_1')).toMatchObject({ status: 'active' });
+
+    await deliver(store, fixtures.egressEnded);
+    expect(await store.listRecordings('movie-night')).toEqual([
+      {
+        egressId: 'EG_1',
+        roomName: 'movie-night',
+        status: 'complete',
+        startedAt: 1_700_000_100_000,
+        endedAt: 1_700_003_700_000,
+        filename: '2023-11-14T22:15:00.000Z-movie-night.mp4',
+        location: 'https://bucket.s3.amazonaws.com/2023-11-14T22:15:00.000Z-movie-night.mp4',
+        size: 1_048_576,
+        duration: 3_600_000,
+      },
+    ]);
+  });
+
+  it('ignores egress updates that arrive after the egress ended', async () => {
+    const store = new InMemoryRoomEventStore();
+    await deliver(store, fixtures.egressEnded);
+    await deliver(store, fixtures.egressStarted);
+    await deliver(store, {
+      ...fixtures.egressStarted,
+      event: 'egress_updated',
+      id: 'EV_egress_updated',
+    });
+    expect(await store.getRecording('EG_1')).toMatchObject({
+      status: 'complete',
+      endedAt: 1_700_003_700_000,
+      filename: '2023-11-14T22:15:00.000Z-movie-night.mp4',
+    });
+  });
+
+  it('keeps the party that started the recording', async () => {
+    const store = new InMemoryRoomEventStore();
+    const started: RecordingRecord = {
+      egressId: 'EG_1',
+      roomName: 'movie-night',
+      partyId: 'party-1',
+      status: 'active',
+      startedAt: 1_700_000_100_000,
+    };
+    await store.saveRecording(started);
+
+    await deliver(store, fixtures.egressEnded);
+    expect(await store.getRecording('EG_1')).toMatchObject({
+      partyId: 'party-1',
+      status: 'complete',
+    });
+  });
+});
+
+describe('webhook signatures', () => {
+  it('rejects tampered payloads', async () => {
+    const body = JSON.stringify(fixtures.participantJoined);
+    const tampered = body.replace('Alice', 'Mallory');
+    const receiver = new WebhookReceiver(API_KEY, API_SECRET);
+    await expect(receiver.receive(tampered, await sign(body))).rejects.toThrow();
+  });
+});
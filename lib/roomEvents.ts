@@ -0,0 +1,242 @@
+import { EgressInfo, EgressStatus, WebhookEvent } from 'livekit-server-sdk';
+
+/**
+ * Room lifecycle events received from LiveKit webhooks, kept for analytics,
+ * recording listings and cleaning up rooms that ended.
+ */
+export interface RoomEventRecord {
+  /** Webhook event id, LiveKit retries deliveries with the same id */
+  id: string;
+  event: WebhookEvent['event'];
+  roomName: string;
+  createdAt: number;
+  participantIdentity?: string;
+  participantName?: string;
+  trackSid?: string;
+  egressId?: string;
+}
+
+export type RecordingStatus = 'active' | 'complete' | 'failed';
+
+/** A recording made by egress, linked to its output file once egress ends */
+export interface RecordingRecord {
+  egressId: string;
+  roomName: string;
+  /** Party that started the recording, see `RoomRecord.partyId` */
+  partyId?: string;
+  status: RecordingStatus;
+  startedAt: number;
+  endedAt?: number;
+  /** Object key of the recording in the storage bucket */
+  filename?: string;
+  /** Full URL of the uploaded file as reported by egress */
+  location?: string;
+  /**
+   * HLS recordings are stored as segments next to the playlist in `filename`,
+   * they can't be downloaded as a single file
+   */
+  segmented?: boolean;
+  size?: number;
+  /** Duration in milliseconds */
+  duration?: number;
+  error?: string;
+}
+
+export interface RoomEventStore {
+  /** Records an event, returns `false` if an event with the same id was already recorded */
+  append(event: RoomEventRecord): Promise<boolean>;
+  /** Returns the last `limit` events of a room, oldest first */
+  list(roomName: string, limit: number): Promise<RoomEventRecord[]>;
+  saveRecording(recording: RecordingRecord): Promise<void>;
+  getRecording(egressId: string): Promise<RecordingRecord | undefined>;
+  /** Returns recordings newest first, optionally only those of one room */
+  listRecordings(roomName?: string): Promise<RecordingRecord[]>;
+}
+
+/** Maximum number of events kept per room by the in-memory store */
+const MAX_EVENTS_PER_ROOM = 1000;
+
+export class InMemoryRoomEventStore implements RoomEventStore {
+  private events = new Map<string, RoomEventRecord[]>();
+  private recordings = new Map<string, RecordingRecord>();
+
+  async append(event: RoomEventRecord) {
+    const events = this.events.get(event.roomName) ?? [];
+    if (events.some((e) => e.id === event.id)) {
+      return false;
+    }
+    events.push(event);
+    if (events.length > MAX_EVENTS_PER_ROOM) {
+      events.splice(0, events.length - MAX_EVENTS_PER_ROOM);
+    }
+    this.events.set(event.roomName, events);
+    return true;
+  }
+
+  async list(roomName: string, limit: number) {
+    return (this.events.get(roomName) ?? []).slice(-limit);
+  }
+
+  async saveRecording(recording: RecordingRecord) {
+    this.recordings.set(recording.egressId, recording);
+  }
+
+  async getRecording(egressId: string) {
+    return this.recordings.get(egressId);
+  }
+
+  async listRecordings(roomName?: string) {
+    return Array.from(this.recordings.values())
+      .filter((r) => roomName === undefined || r.roomName === roomName)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+}
+
+let roomEventStore: RoomEventStore | undefined;
+
+export function getRoomEventStore(): RoomEventStore {
+  if (!roomEventStore) {
+    roomEventStore = new InMemoryRoomEventStore();
+  }
+  return roomEventStore;
+}
+
+/** Allows swapping the store implementation, e.g. for a database-backed one */
+export function setRoomEventStore(store: RoomEventStore) {
+  roomEventStore = store;
+}
+
+/** LiveKit timestamps are in seconds for events and nanoseconds for egress */
+const secondsToMs = (seconds: bigint) => Number(seconds) * 1000;
+const nanosToMs = (nanos: bigint) => Number(nanos / 1_000_000n);
+
+function getRecordingStatus(status: EgressStatus): RecordingStatus {
+  switch (status) {
+    case EgressStatus.EGRESS_COMPLETE:
+    case EgressStatus.EGRESS_LIMIT_REACHED:
+      return 'complete';
+    case EgressStatus.EGRESS_FAILED:
+    case EgressStatus.EGRESS_ABORTED:
+      return 'failed';
+    default:
+      return 'active';
+  }
+}
+
+/** Stream egress pushes to RTMP destinations and never produces a recording */
+export function isStreamEgress(egress: EgressInfo): boolean {
+  return (
+    egress.streamResults.length > 0 ||
+    egress.result.case === 'stream' ||
+    ((egress.request.case === 'roomComposite' || egress.request.case === 'trackComposite') &&
+      egress.request.value.streamOutputs.length > 0)
+  );
+}
+
+/**
+ * Builds the recording of an egress, taking its output file from the first file result,
+ * or the playlist of segmented recordings.
+ */
+export function toRecordingRecord(egress: EgressInfo): RecordingRecord {
+  const file =
+    egress.fileResults[0] ?? (egress.result.case === 'file' ? egress.result.value : undefined);
+  const recording: RecordingRecord = {
+    egressId: egress.egressId,
+    roomName: egress.roomName,
+    status: getRecordingStatus(egress.status),
+    startedAt: nanosToMs(egress.startedAt),
+  };
+  if (egress.endedAt) {
+    recording.endedAt = nanosToMs(egress.endedAt);
+  }
+  const segments = egress.segmentResults[0];
+  if (file?.filename) {
+    recording.filename = file.filename;
+    recording.location = file.location;
+    recording.size = Number(file.size);
+    recording.duration = nanosToMs(file.duration);
+  } else if (segments?.playlistName) {
+    // HLS recordings are identified by their playlist
+    recording.filename = segments.playlistName;
+    recording.location = segments.playlistLocation;
+    recording.segmented = true;
+    recording.size = Number(segments.size);
+    recording.duration = nanosToMs(segments.duration);
+  }
+  if (egress.error) {
+    recording.error = egress.error;
+  }
+  return recording;
+}
+
+/** Recordings only move forward through these, a finished one never becomes active again */
+const RECORDING_STATUS_RANK: Record<RecordingStatus, number> = {
+  active: 0,
+  complete: 1,
+  failed: 1,
+};
+
+/**
+ * Whether `next` describes a later state of a recording than `saved`. Webhooks may arrive
+ * out of order, e.g. `egress_updated` after `egress_ended`.
+ */
+function isRecordingUpdate(saved: RecordingRecord, next: RecordingRecord): boolean {
+  const rank = RECORDING_STATUS_RANK[next.status] - RECORDING_STATUS_RANK[saved.status];
+  return rank > 0 || (rank === 0 && (next.endedAt ?? 0) >= (saved.endedAt ?? 0));
+}
+
+/**
+ * Saves the recording of an egress unless a later state of it is saved already, keeping the
+ * party it was started by when `partyId` isn't given. Webhooks may report an egress before
+ * its start request returns.
+ */
+export async function saveEgressRecording(
+  store: RoomEventStore,
+  egress: EgressInfo,
+  partyId?: string,
+): Promise<void> {
+  const saved = await store.getRecording(egress.egressId);
+  const next = toRecordingRecord(egress);
+  const recording = saved && !isRecordingUpdate(saved, next) ? saved : next;
+  await store.saveRecording({ ...recording, partyId: partyId ?? saved?.partyId });
+}
+
+/**
+ * Records a verified webhook event. Redelivered events are ignored, egress events update
+ * the recording they belong to unless the egress is a stream.
+ *
+ * @returns `false` if the event was a duplicate or not related to a room
+ */
+export async function recordWebhookEvent(
+  store: RoomEventStore,
+  event: WebhookEvent,
+): Promise<boolean> {
+  const roomName = event.room?.name ?? event.egressInfo?.roomName ?? event.ingressInfo?.roomName;
+  if (!roomName) {
+    return false;
+  }
+  const record: RoomEventRecord = {
+    id: event.id,
+    event: event.event,
+    roomName,
+    createdAt: event.createdAt ? secondsToMs(event.createdAt) : Date.now(),
+  };
+  if (event.participant) {
+    record.participantIdentity = event.participant.identity;
+    record.participantName = event.participant.name;
+  }
+  if (event.track) {
+    record.trackSid = event.track.sid;
+  }
+  if (event.egressInfo) {
+    record.egressId = event.egressInfo.egressId;
+  }
+
+  if (!(await store.append(record))) {
+    return false;
+  }
+  if (event.egressInfo && !isStreamEgress(event.egressInfo)) {
+    await saveEgressRecording(store, event.egressInfo);
+  }
+  return true;
+}
@@ -0,0 +1,23 @@
+/**
+ * Room metadata, written by the API routes only and read by every participant.
+ * Each feature keeps its own key, updates must preserve the keys they don't own.
+ */
+export interface RoomMetadata {
+  /** Set while the room is restreamed, see `streaming.ts` */
+  live?: boolean;
+  /** Raw chat policy, read it with `parseChatPolicy` from `chatModeration.ts` */
+  chatPolicy?: unknown;
+  [key: string]: unknown;
+}
+
+export function parseRoomMetadata(metadata: string | undefined | null): RoomMetadata {
+  if (!metadata) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
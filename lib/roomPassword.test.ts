@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  checkRoomPassword,
+  FailedAttemptLimiter,
+  hashPassword,
+  PASSWORD_FAILURE_WINDOW_MS,
+  PASSWORD_MAX_FAILURES,
+  verifyPassword,
+} from './roomPassword';
+import { createRoomRecord, InMemoryRoomRegistry } from './roomRegistry';
+import { getClientAddress } from './routeHelpers';
+
+async function createProtectedRoom(password: string) {
+  const registry = new InMemoryRoomRegistry();
+  const record = createRoomRecord('room', 'host', await hashPassword(password));
+  await registry.getOrCreate('room', () => record);
+  return registry;
+}
+
+describe('hashPassword', () => {
+  it('verifies the original password only', async () => {
+    const hash = await hashPassword('popcorn');
+    expect(hash).not.toContain('popcorn');
+    expect(await verifyPassword('popcorn', hash)).toBe(true);
+    expect(await verifyPassword('Popcorn', hash)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('popcorn')).not.toBe(await hashPassword('popcorn'));
+  });
+
+  it('rejects malformed hashes', async () => {
+    expect(await verifyPassword('popcorn', 'plain')).toBe(false);
+  });
+});
+
+describe('FailedAttemptLimiter', () => {
+  it('blocks a client after too many failures until the window passes', () => {
+    const limiter = new FailedAttemptLimiter(2, 1000);
+    limiter.recordFailure('1.2.3.4', 0);
+    expect(limiter.retryAfter('1.2.3.4', 100)).toBe(0);
+    limiter.recordFailure('1.2.3.4', 200);
+    expect(limiter.retryAfter('1.2.3.4', 300)).toBe(700);
+    expect(limiter.retryAfter('5.6.7.8', 300)).toBe(0);
+    expect(limiter.retryAfter('1.2.3.4', 1000)).toBe(0);
+  });
+
+  it('forgets clients whose failures left the window', () => {
+    const limiter = new FailedAttemptLimiter(2, 1000);
+    limiter.recordFailure('1.2.3.4', 0);
+    limiter.recordFailure('5.6.7.8', 500);
+    limiter.recordFailure('9.9.9.9', 1200);
+    expect(limiter.size).toBe(2);
+  });
+});
+
+describe('checkRoomPassword', () => {
+  it('lets everyone into rooms without a password', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await registry.getOrCreate('room', () => createRoomRecord('room', 'host'));
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', null, 'ip', new FailedAttemptLimiter()),
+    ).resolves.toBeUndefined();
+  });
+
+  it('requires the password and remembers verified sessions', async () => {
+    const registry = await createProtectedRoom('popcorn');
+    const limiter = new FailedAttemptLimiter();
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', null, 'ip', limiter),
+    ).rejects.toMatchObject({ status: 401, code: 'password_required' });
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', 'nachos', 'ip', limiter),
+    ).rejects.toMatchObject({ status: 401, code: 'invalid_password' });
+    await checkRoomPassword(registry, 'room', 'guest', 'popcorn', 'ip', limiter);
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', null, 'ip', limiter),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rate limits clients that keep guessing', async () => {
+    const registry = await createProtectedRoom('popcorn');
+    const limiter = new FailedAttemptLimiter();
+    for (let i = 0; i < PASSWORD_MAX_FAILURES; i++) {
+      await expect(
+        checkRoomPassword(registry, 'room', 'guest', 'wrong', 'ip', limiter, 0),
+      ).rejects.toMatchObject({ code: 'invalid_password' });
+    }
+    // even the right password is refused while blocked
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', 'popcorn', 'ip', limiter, 1),
+    ).rejects.toMatchObject({ status: 429, code: 'too_many_attempts' });
+    await expect(
+      checkRoomPassword(
+        registry,
+        'room',
+        'guest',
+        'popcorn',
+        'ip',
+        limiter,
+        PASSWORD_FAILURE_WINDOW_MS,
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it('counts concurrent guesses before verifying them', async () => {
+    const registry = await createProtectedRoom('popcorn');
+    const limiter = new FailedAttemptLimiter();
+    const results = await Promise.allSettled(
+      Array.from({ length: PASSWORD_MAX_FAILURES * 2 }, () =>
+        checkRoomPassword(registry, 'room', 'guest', 'wrong', 'ip', limiter, 0),
+      ),
+    );
+    const codes = results.map((r) => (r.status === 'rejected' ? r.reason.code : 'ok'));
+    expect(codes.filter((c) => c === 'invalid_password')).toHaveLength(PASSWORD_MAX_FAILURES);
+    expect(codes.filter((c) => c === 'too_many_attempts')).toHaveLength(PASSWORD_MAX_FAILURES);
+  });
+
+  it('does not count a right password as a failure', async () => {
+    const registry = await createProtectedRoom('popcorn');
+    const limiter = new FailedAttemptLimiter();
+    await checkRoomPassword(registry, 'room', 'guest', 'popcorn', 'ip', limiter, 0);
+    expect(limiter.size).toBe(0);
+  });
+
+  it('keeps counting when the client spoofs X-Forwarded-For', async () => {
+    const registry = await createProtectedRoom('popcorn');
+    const limiter = new FailedAttemptLimiter();
+    const clientKey = (i: number) =>
+      getClientAddress(
+        new NextRequest('http://localhost/api/connection-details', {
+          headers: { 'X-Forwarded-For': `10.0.0.${i}, 203.0.113.7` },
+        }),
+      );
+    for (let i = 0; i < PASSWORD_MAX_FAILURES; i++) {
+      await expect(
+        checkRoomPassword(registry, 'room', 'guest', 'wrong', clientKey(i), limiter, 0),
+      ).rejects.toMatchObject({ code: 'invalid_password' });
+    }
+    await expect(
+      checkRoomPassword(registry, 'room', 'guest', 'popcorn', clientKey(99), limiter, 1),
+    ).rejects.toMatchObject({ status: 429, code: 'too_many_attempts' });
+  });
+});
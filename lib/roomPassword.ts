@@ -0,0 +1,151 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { ApiError } from './apiErrors';
+import { RoomRegistry } from './roomRegistry';
+
+/** Failed password attempts allowed per client within `PASSWORD_FAILURE_WINDOW_MS` */
+export const PASSWORD_MAX_FAILURES = 5;
+export const PASSWORD_FAILURE_WINDOW_MS = 15 * 60_000;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+/**
+ * Hashes a room password with a random salt, encoded as `scrypt$<salt>$<key>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return ['scrypt', salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Counts failed attempts per client, e.g. per IP address, and blocks clients that fail too
+ * often until their oldest failure leaves the window. Clients whose failures all left the
+ * window are forgotten, at most once per window.
+ */
+export class FailedAttemptLimiter {
+  private failures = new Map<string, number[]>();
+  private lastPruneAt = 0;
+
+  constructor(
+    private limit = PASSWORD_MAX_FAILURES,
+    private windowMs = PASSWORD_FAILURE_WINDOW_MS,
+  ) {}
+
+  /** Milliseconds until `key` may try again, 0 if it isn't blocked */
+  retryAfter(key: string, now = Date.now()): number {
+    const recent = this.recent(key, now);
+    return recent.length >= this.limit ? recent[0] + this.windowMs - now : 0;
+  }
+
+  recordFailure(key: string, now = Date.now()) {
+    this.prune(now);
+    this.failures.set(key, [...this.recent(key, now), now]);
+  }
+
+  /** Takes back a failure recorded at `at`, e.g. for an attempt counted before it succeeded */
+  forgive(key: string, at: number) {
+    const failures = this.failures.get(key) ?? [];
+    const index = failures.indexOf(at);
+    if (index === -1) {
+      return;
+    }
+    const remaining = failures.filter((_, i) => i !== index);
+    if (remaining.length === 0) {
+      this.failures.delete(key);
+    } else {
+      this.failures.set(key, remaining);
+    }
+  }
+
+  /** Number of clients with failures on record */
+  get size() {
+    return this.failures.size;
+  }
+
+  private prune(now: number) {
+    if (now - this.lastPruneAt < this.windowMs) {
+      return;
+    }
+    this.lastPruneAt = now;
+    for (const key of Array.from(this.failures.keys())) {
+      this.recent(key, now);
+    }
+  }
+
+  private recent(key: string, now: number) {
+    const recent = (this.failures.get(key) ?? []).filter((t) => now - t < this.windowMs);
+    if (recent.length === 0) {
+      this.failures.delete(key);
+    }
+    return recent;
+  }
+}
+
+let passwordAttemptLimiter: FailedAttemptLimiter | undefined;
+
+export function getPasswordAttemptLimiter(): FailedAttemptLimiter {
+  if (!passwordAttemptLimiter) {
+    passwordAttemptLimiter = new FailedAttemptLimiter();
+  }
+  return passwordAttemptLimiter;
+}
+
+/**
+ * Lets a session into a password protected room. Once verified, the session is remembered
+ * so lobby polling and rejoining don't need the password again.
+ *
+ * @throws ApiError 401 if the password is missing or wrong, 429 if `clientKey` failed too often
+ */
+export async function checkRoomPassword(
+  registry: RoomRegistry,
+  roomName: string,
+  session: string,
+  password: string | null,
+  clientKey: string,
+  limiter: FailedAttemptLimiter,
+  now = Date.now(),
+): Promise<void> {
+  const record = await registry.get(roomName);
+  if (!record?.passwordHash || record.passwordVerifiedSessions.includes(session)) {
+    return;
+  }
+  if (!password) {
+    throw new ApiError(401, 'password_required', 'This room is protected by a password');
+  }
+  const retryAfter = limiter.retryAfter(clientKey, now);
+  if (retryAfter > 0) {
+    throw new ApiError(
+      429,
+      'too_many_attempts',
+      `Too many wrong passwords, try again in ${Math.ceil(retryAfter / 60_000)} min`,
+    );
+  }
+  // Counted before verifying, so concurrent guesses can't all get past the limit
+  limiter.recordFailure(clientKey, now);
+  if (!(await verifyPassword(password, record.passwordHash))) {
+    throw new ApiError(401, 'invalid_password', 'Wrong room password');
+  }
+  limiter.forgive(clientKey, now);
+  await registry.update(roomName, (r) => ({
+    ...r,
+    passwordVerifiedSessions: [...r.passwordVerifiedSessions, session],
+  }));
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bindParticipantSession,
+  createRoomRecord,
+  endParty,
+  getManagedParties,
+  InMemoryRoomRegistry,
+  resolveParticipantRole,
+} from './roomRegistry';
+
+describe('resolveParticipantRole', () => {
+  it('makes the first session to join the host', async () => {
+    const registry = new InMemoryRoomRegistry();
+    expect(await resolveParticipantRole(registry, 'room', 'first')).toBe('host');
+    expect(await resolveParticipantRole(registry, 'room', 'second')).toBe('viewer');
+    expect(await resolveParticipantRole(registry, 'room', 'first')).toBe('host');
+  });
+
+  it('keeps rooms separate', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await resolveParticipantRole(registry, 'room-a', 'first');
+    expect(await resolveParticipantRole(registry, 'room-b', 'second')).toBe('host');
+  });
+
+  it('grants co-host to promoted sessions', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await resolveParticipantRole(registry, 'room', 'host');
+    await registry.update('room', (record) => ({ ...record, cohostSessions: ['friend'] }));
+    expect(await resolveParticipantRole(registry, 'room', 'friend')).toBe('cohost');
+  });
+
+  it('only honours self-assignable role requests', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await resolveParticipantRole(registry, 'room', 'host');
+    expect(await resolveParticipantRole(registry, 'room', 'other', 'guest')).toBe('guest');
+    expect(await resolveParticipantRole(registry, 'room', 'other', 'host')).toBe('viewer');
+    expect(await resolveParticipantRole(registry, 'room', 'other', 'cohost')).toBe('viewer');
+  });
+});
+
+describe('endParty', () => {
+  it('lets the next joiner host a new party', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await resolveParticipantRole(registry, 'room', 'host');
+    const { partyId } = (await registry.get('room'))!;
+    await registry.update('room', (record) => endParty(record));
+
+    expect(await resolveParticipantRole(registry, 'room', 'next')).toBe('host');
+    expect(await resolveParticipantRole(registry, 'room', 'host')).toBe('viewer');
+    expect((await registry.get('room'))?.partyId).not.toBe(partyId);
+  });
+
+  it('keeps the parties a session hosted', async () => {
+    const registry = new InMemoryRoomRegistry();
+    await resolveParticipantRole(registry, 'room', 'host');
+    await registry.update('room', (record) => ({ ...record, cohostSessions: ['friend'] }));
+    const first = (await registry.get('room'))!.partyId;
+    await registry.update('room', (record) => endParty(record));
+    await resolveParticipantRole(registry, 'room', 'next');
+    const record = (await registry.get('room'))!;
+
+    expect(getManagedParties(record, 'host')).toEqual([first]);
+    expect(getManagedParties(record, 'friend')).toEqual([first]);
+    expect(getManagedParties(record, 'next')).toEqual([record.partyId]);
+    expect(getManagedParties(record, 'stranger')).toEqual([]);
+  });
+});
+
+describe('bindParticipantSession', () => {
+  it('keeps an identity bound to the session it was first issued to', () => {
+    const record = bindParticipantSession(createRoomRecord('room', 'host'), 'ann__ab12', 'ann');
+    expect(bindParticipantSession(record, 'ann__ab12', 'ann')).toBe(record);
+    expect(bindParticipantSession(record, 'ann__ab12', 'copycat').participantSessions).toEqual({
+      ann__ab12: 'ann',
+    });
+  });
+});
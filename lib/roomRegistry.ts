@@ -0,0 +1,285 @@
+import { ApiError } from './apiErrors';
+import { ParticipantRole, SELF_ASSIGNABLE_ROLES, DEFAULT_ROLE } from './roles';
+
+/** Number of ended parties remembered per room, so their hosts keep access to recordings */
+const MAX_PAST_PARTIES = 20;
+
+/**
+ * Server-side bookkeeping for WatchParty rooms.
+ *
+ * Participants are recognised by a session key, a random secret stored in an HttpOnly cookie.
+ * Unlike the identity postfix it is never shared with other participants, so it can't be spoofed.
+ *
+ * A room name can be used for several parties one after another, a new one starts when the
+ * host ends the room. Chat history and recordings belong to a party rather than the room name,
+ * so whoever hosts the next party can't see those of the previous one.
+ */
+export interface RoomRecord {
+  roomName: string;
+  /** Id of the current party, chat history and recordings are stored by it */
+  partyId: string;
+  /** When the current party started */
+  createdAt: number;
+  /** Session key of the host, empty after a party ended until the next joiner claims it */
+  hostSession: string;
+  /** Session keys of participants promoted to co-host */
+  cohostSessions: string[];
+  /** Session key behind each identity a token was issued to, by identity */
+  participantSessions: Record<string, string>;
+  /** A locked room turns away everyone except its hosts */
+  locked: boolean;
+  /** Hash of the room password set by the host, see `roomPassword.ts` */
+  passwordHash?: string;
+  /** Session keys that already entered the correct password */
+  passwordVerifiedSessions: string[];
+  /** When enabled, joiners wait in the lobby until a host admits them */
+  lobbyEnabled: boolean;
+  /** Session keys of participants admitted from the lobby */
+  admittedSessions: string[];
+  /** Session keys the host turned away from the lobby, they can't ask again */
+  deniedSessions: string[];
+  /** Session keys of participants a moderator removed, they can't refresh their token */
+  removedSessions: string[];
+  lobbyRequests: LobbyRequest[];
+  /**
+   * Full URLs of the running stream's destinations. LiveKit only reports them with the stream
+   * key redacted, removing one needs its full URL.
+   */
+  streamUrls: string[];
+  /** Parties that ended in this room, oldest first */
+  pastParties: PastParty[];
+}
+
+/** An ended party, its hosts can still manage what it left behind, e.g. its recordings */
+export interface PastParty {
+  partyId: string;
+  hostSession: string;
+  cohostSessions: string[];
+  endedAt: number;
+}
+
+/** A participant waiting in the lobby, identified towards the host by its ticket */
+export interface LobbyRequest {
+  ticket: string;
+  session: string;
+  participantName: string;
+  requestedAt: number;
+  /** Last time the joiner polled for admission, stale requests are dropped */
+  lastSeenAt: number;
+}
+
+export interface RoomRegistry {
+  get(roomName: string): Promise<RoomRecord | undefined>;
+  /** Returns the existing record, or atomically stores and returns the one built by `init` */
+  getOrCreate(roomName: string, init: () => RoomRecord): Promise<RoomRecord>;
+  /** Applies `updater` to an existing record, returns `undefined` if the room is unknown */
+  update(
+    roomName: string,
+    updater: (record: RoomRecord) => RoomRecord,
+  ): Promise<RoomRecord | undefined>;
+  /** Forgets a room, the next joiner starts it over as its host */
+  delete(roomName: string): Promise<void>;
+}
+
+export class InMemoryRoomRegistry implements RoomRegistry {
+  private rooms = new Map<string, RoomRecord>();
+
+  async get(roomName: string) {
+    return this.rooms.get(roomName);
+  }
+
+  async getOrCreate(roomName: string, init: () => RoomRecord) {
+    let record = this.rooms.get(roomName);
+    if (!record) {
+      record = init();
+      this.rooms.set(roomName, record);
+    }
+    return record;
+  }
+
+  async update(roomName: string, updater: (record: RoomRecord) => RoomRecord) {
+    const record = this.rooms.get(roomName);
+    if (!record) {
+      return undefined;
+    }
+    const updated = updater(record);
+    this.rooms.set(roomName, updated);
+    return updated;
+  }
+
+  async delete(roomName: string) {
+    this.rooms.delete(roomName);
+  }
+}
+
+let roomRegistry: RoomRegistry | undefined;
+
+export function getRoomRegistry(): RoomRegistry {
+  if (!roomRegistry) {
+    roomRegistry = new InMemoryRoomRegistry();
+  }
+  return roomRegistry;
+}
+
+/** Allows swapping the registry implementation, e.g. for a database-backed one */
+export function setRoomRegistry(registry: RoomRegistry) {
+  roomRegistry = registry;
+}
+
+export function createRoomRecord(
+  roomName: string,
+  hostSession: string,
+  passwordHash?: string,
+  pastParties: PastParty[] = [],
+): RoomRecord {
+  return {
+    roomName,
+    partyId: crypto.randomUUID(),
+    createdAt: Date.now(),
+    hostSession,
+    cohostSessions: [],
+    participantSessions: {},
+    locked: false,
+    passwordHash,
+    passwordVerifiedSessions: [],
+    lobbyEnabled: false,
+    admittedSessions: [],
+    deniedSessions: [],
+    removedSessions: [],
+    lobbyRequests: [],
+    streamUrls: [],
+    pastParties,
+  };
+}
+
+/**
+ * Ends the current party: hosts, lobby, lock and password are forgotten and the next joiner
+ * hosts a new party. The hosts of the ended party are remembered in `pastParties`.
+ */
+export function endParty(record: RoomRecord, now = Date.now()): RoomRecord {
+  const ended: PastParty = {
+    partyId: record.partyId,
+    hostSession: record.hostSession,
+    cohostSessions: record.cohostSessions,
+    endedAt: now,
+  };
+  return createRoomRecord(
+    record.roomName,
+    '',
+    undefined,
+    [...record.pastParties, ended].slice(-MAX_PAST_PARTIES),
+  );
+}
+
+/**
+ * Ids of the parties a session hosted or co-hosted in this room, the current one first
+ * if the session is one of its hosts.
+ */
+export function getManagedParties(record: RoomRecord, session: string): string[] {
+  const parties = getRegisteredRole(record, session) ? [record.partyId] : [];
+  for (const party of record.pastParties) {
+    if (party.hostSession === session || party.cohostSessions.includes(session)) {
+      parties.push(party.partyId);
+    }
+  }
+  return parties;
+}
+
+/**
+ * Looks up a room known to the registry.
+ *
+ * @throws ApiError 404 if nobody joined the room yet
+ */
+export async function requireRoomRecord(
+  registry: RoomRegistry,
+  roomName: string,
+): Promise<RoomRecord> {
+  const record = await registry.get(roomName);
+  if (!record) {
+    throw new ApiError(404, 'room_not_found', `Room ${roomName} does not exist`);
+  }
+  return record;
+}
+
+/** Role the room grants a session, `undefined` for anyone but its host and co-hosts */
+export function getRegisteredRole(
+  record: RoomRecord,
+  session: string,
+): ParticipantRole | undefined {
+  if (record.hostSession && record.hostSession === session) {
+    return 'host';
+  }
+  if (record.cohostSessions.includes(session)) {
+    return 'cohost';
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the role of a joining participant.
+ * The first session to join a room, or to join it after its last party ended, becomes its host.
+ * Later joiners get the role they asked for as long as it is one they may pick themselves.
+ */
+export async function resolveParticipantRole(
+  registry: RoomRegistry,
+  roomName: string,
+  session: string,
+  requestedRole?: ParticipantRole,
+): Promise<ParticipantRole> {
+  let record = await registry.getOrCreate(roomName, () => createRoomRecord(roomName, session));
+  if (!record.hostSession) {
+    record =
+      (await registry.update(roomName, (current) =>
+        current.hostSession ? current : { ...current, hostSession: session },
+      )) ?? record;
+  }
+  const registeredRole = getRegisteredRole(record, session);
+  if (registeredRole) {
+    return registeredRole;
+  }
+  if (requestedRole && SELF_ASSIGNABLE_ROLES.includes(requestedRole)) {
+    return requestedRole;
+  }
+  return DEFAULT_ROLE;
+}
+
+/**
+ * Binds `identity` to the session it is issued to, unless another session already holds it.
+ * Identities are built from a chosen name and a postfix cookie, both sent by the client,
+ * so a second browser could otherwise take over someone's role, removal and token refreshes.
+ */
+export function bindParticipantSession(
+  record: RoomRecord,
+  identity: string,
+  session: string,
+): RoomRecord {
+  if (record.participantSessions[identity]) {
+    return record;
+  }
+  return {
+    ...record,
+    participantSessions: { ...record.participantSessions, [identity]: session },
+  };
+}
+
+/** Remembers that the participant behind `identity` was removed from the room */
+export function markRemoved(record: RoomRecord, identity: string): RoomRecord {
+  const session = record.participantSessions[identity];
+  if (!session || record.removedSessions.includes(session)) {
+    return record;
+  }
+  return { ...record, removedSessions: [...record.removedSessions, session] };
+}
+
+/**
+ * Promotes the participant behind `identity` to co-host, or demotes them, so their role
+ * survives reloads and reconnects. Identities that never got a token are left alone.
+ */
+export function setCohost(record: RoomRecord, identity: string, cohost: boolean): RoomRecord {
+  const session = record.participantSessions[identity];
+  if (!session) {
+    return record;
+  }
+  const cohostSessions = record.cohostSessions.filter((s) => s !== session);
+  return { ...record, cohostSessions: cohost ? [...cohostSessions, session] : cohostSessions };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { RoomServiceClient } from 'livekit-server-sdk';
+import { ApiError } from './apiErrors';
+import type { AuthorizedCaller } from './requestAuth';
+import { getModerationTarget, updateRoomMetadata } from './roomService';
+
+const participants: Record<string, { identity: string; metadata: string }> = {
+  host: { identity: 'host', metadata: JSON.stringify({ role: 'host' }) },
+  cohost: { identity: 'cohost', metadata: JSON.stringify({ role: 'cohost' }) },
+  viewer: { identity: 'viewer', metadata: JSON.stringify({ role: 'viewer' }) },
+};
+
+const client = {
+  async getParticipant(_roomName: string, identity: string) {
+    const participant = participants[identity];
+    if (!participant) {
+      throw new Error('participant not found');
+    }
+    return participant;
+  },
+} as unknown as RoomServiceClient;
+
+function caller(identity: 'host' | 'cohost'): AuthorizedCaller {
+  return { identity, role: identity, claims: {} };
+}
+
+async function expectError(promise: Promise<unknown>, code: string) {
+  await expect(promise).rejects.toBeInstanceOf(ApiError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('getModerationTarget', () => {
+  it('returns the targeted participant', async () => {
+    const target = await getModerationTarget(client, 'room', 'viewer', caller('cohost'));
+    expect(target.identity).toBe('viewer');
+  });
+
+  it('lets the host moderate co-hosts', async () => {
+    const target = await getModerationTarget(client, 'room', 'cohost', caller('host'));
+    expect(target.identity).toBe('cohost');
+  });
+
+  it('rejects moderating yourself', async () => {
+    await expectError(
+      getModerationTarget(client, 'room', 'cohost', caller('cohost')),
+      'cannot_moderate_self',
+    );
+  });
+
+  it('rejects moderating the host', async () => {
+    await expectError(
+      getModerationTarget(client, 'room', 'host', caller('cohost')),
+      'cannot_moderate_host',
+    );
+  });
+
+  it('reports participants that are not in the room', async () => {
+    await expectError(
+      getModerationTarget(client, 'room', 'missing', caller('cohost')),
+      'participant_not_found',
+    );
+  });
+});
+
+describe('updateRoomMetadata', () => {
+  it('applies concurrent updates one after another', async () => {
+    let stored = JSON.stringify({ chatPolicy: { slowModeSeconds: 0 } });
+    const metadataClient = {
+      async listRooms() {
+        const metadata = stored;
+        // the room is read before any update of it went through
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return [{ name: 'room', metadata }];
+      },
+      async updateRoomMetadata(_roomName: string, metadata: string) {
+        stored = metadata;
+      },
+    } as unknown as RoomServiceClient;
+
+    await Promise.all([
+      updateRoomMetadata(metadataClient, 'room', (metadata) => ({ ...metadata, live: true })),
+      updateRoomMetadata(metadataClient, 'room', (metadata) => ({
+        ...metadata,
+        chatPolicy: { slowModeSeconds: 10 },
+      })),
+    ]);
+    expect(JSON.parse(stored)).toEqual({ live: true, chatPolicy: { slowModeSeconds: 10 } });
+  });
+});
@@ -0,0 +1,136 @@
+import { EgressClient, RoomServiceClient } from 'livekit-server-sdk';
+import { ApiError } from './apiErrors';
+import { parseChatPolicy } from './chatModeration';
+import { getRoleCapabilities, getRoleFromMetadata, ParticipantRole } from './roles';
+import { parseRoomMetadata, RoomMetadata } from './roomMetadata';
+import type { AuthorizedCaller } from './requestAuth';
+
+/** The server APIs live on the HTTPS origin of the `wss://` URL clients connect to */
+function getApiHost(): string {
+  const { LIVEKIT_URL } = process.env;
+  if (!LIVEKIT_URL) {
+    throw new Error('LIVEKIT_URL is not defined');
+  }
+  const hostURL = new URL(LIVEKIT_URL);
+  hostURL.protocol = 'https:';
+  return hostURL.origin;
+}
+
+export function getRoomServiceClient(): RoomServiceClient {
+  const { LIVEKIT_API_KEY, LIVEKIT_API_SECRET } = process.env;
+  return new RoomServiceClient(getApiHost(), LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+}
+
+export function getEgressClient(): EgressClient {
+  const { LIVEKIT_API_KEY, LIVEKIT_API_SECRET } = process.env;
+  return new EgressClient(getApiHost(), LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+}
+
+/**
+ * Looks up the participant a moderation request targets. Co-hosts can moderate everyone
+ * but the host, the host can moderate everyone but themselves.
+ *
+ * @throws ApiError 404 if the participant is not in the room, 403 if it can't be moderated
+ */
+export async function getModerationTarget(
+  client: RoomServiceClient,
+  roomName: string,
+  identity: string,
+  caller: AuthorizedCaller,
+) {
+  if (identity === caller.identity) {
+    throw new ApiError(403, 'cannot_moderate_self', 'You cannot moderate yourself');
+  }
+  let participant;
+  try {
+    participant = await client.getParticipant(roomName, identity);
+  } catch {
+    throw new ApiError(404, 'participant_not_found', `${identity} is not in the room`);
+  }
+  if (getRoleFromMetadata(participant.metadata) === 'host') {
+    throw new ApiError(403, 'cannot_moderate_host', 'The host cannot be moderated');
+  }
+  return participant;
+}
+
+/** Reads the metadata of a running room, `undefined` if the room isn't running */
+export async function getRoomMetadata(
+  client: RoomServiceClient,
+  roomName: string,
+): Promise<RoomMetadata | undefined> {
+  const [room] = await client.listRooms([roomName]);
+  return room ? parseRoomMetadata(room.metadata) : undefined;
+}
+
+/**
+ * Whether the chat policy of a running room mutes `identity`. Moderators can't be muted.
+ * Muted participants may not send data messages, whatever grants their role.
+ */
+export async function isChatMuted(
+  client: RoomServiceClient,
+  roomName: string,
+  identity: string,
+  role: ParticipantRole,
+): Promise<boolean> {
+  if (getRoleCapabilities(role).canModerate) {
+    return false;
+  }
+  const metadata = await getRoomMetadata(client, roomName);
+  return parseChatPolicy(metadata?.chatPolicy).mutedIdentities.includes(identity);
+}
+
+/**
+ * Allows or stops a participant's data messages, e.g. chat, keeping its other permissions.
+ * Does nothing if the participant isn't in the room.
+ */
+export async function setCanPublishData(
+  client: RoomServiceClient,
+  roomName: string,
+  identity: string,
+  canPublishData: boolean,
+) {
+  let participant;
+  try {
+    participant = await client.getParticipant(roomName, identity);
+  } catch {
+    return;
+  }
+  await client.updateParticipant(roomName, identity, {
+    permission: { ...participant.permission, canPublishData },
+  });
+}
+
+/** Pending metadata updates by room, see `updateRoomMetadata` */
+const metadataUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Rewrites the metadata of a running room with `updater`, which must keep the keys it
+ * doesn't own. Returns the new metadata, or `undefined` if the room isn't running.
+ *
+ * Updates of a room run one after another, so concurrent ones, e.g. going live while the
+ * chat policy changes, each see the result of the previous one instead of overwriting it.
+ */
+export function updateRoomMetadata(
+  client: RoomServiceClient,
+  roomName: string,
+  updater: (metadata: RoomMetadata) => RoomMetadata,
+): Promise<RoomMetadata | undefined> {
+  const update = async () => {
+    const [room] = await client.listRooms([roomName]);
+    if (!room) {
+      return undefined;
+    }
+    const metadata = updater(parseRoomMetadata(room.metadata));
+    await client.updateRoomMetadata(roomName, JSON.stringify(metadata));
+    return metadata;
+  };
+  const next = (metadataUpdates.get(roomName) ?? Promise.resolve()).then(update, update);
+  const settled = next.catch(() => undefined);
+  metadataUpdates.set(roomName, settled);
+  settled.then(() => {
+    if (metadataUpdates.get(roomName) === settled) {
+      metadataUpdates.delete(roomName);
+    }
+  });
+  return next;
+}
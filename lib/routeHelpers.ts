@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { ApiError } from './apiErrors';
+
+/**
+ * Reads the mandatory `roomName` query parameter of an API request.
+ */
+export function requireRoomName(req: NextRequest): string {
+  const roomName = req.nextUrl.searchParams.get('roomName');
+  if (roomName === null) {
+    throw new ApiError(400, 'missing_room_name', 'Missing roomName parameter');
+  }
+  return roomName;
+}
+
+/**
+ * Parses the JSON body of an API request, the caller still has to validate its shape.
+ */
+export async function readJsonBody(req: NextRequest): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError(400, 'invalid_body', 'Request body must be JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError(400, 'invalid_body', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Reads the identity of the participant a request targets from its body.
+ */
+export function requireIdentity(body: Record<string, unknown>): string {
+  if (typeof body.identity !== 'string' || !body.identity) {
+    throw new ApiError(400, 'missing_identity', 'Missing participant identity');
+  }
+  return body.identity;
+}
+
+/**
+ * Identifies the client of a request for rate limiting. Proxies append the address they
+ * received a request from to `X-Forwarded-For`, so only its last `TRUSTED_PROXY_HOPS` entries
+ * (1 by default) come from proxies in front of the app, anything before them is up to the client.
+ */
+export function getClientAddress(
+  req: NextRequest,
+  trustedHops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1),
+): string {
+  const hops = Number.isInteger(trustedHops) && trustedHops > 0 ? trustedHops : 1;
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return (
+    forwarded[Math.max(forwarded.length - hops, 0)] || req.headers.get('x-real-ip') || 'unknown'
+  );
+}
@@ -0,0 +1,130 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * Minimal S3 client for recordings: builds object URLs and signs them with AWS Signature
+ * Version 4 query parameters, so files can be downloaded without proxying them.
+ * Works with AWS and S3-compatible services such as MinIO or R2 through `S3_ENDPOINT`.
+ */
+export interface S3Config {
+  /** Custom endpoint, objects are then addressed path-style as `<endpoint>/<bucket>/<key>` */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/** Lifetime of pre-signed download URLs */
+export const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+/** Reads the recording bucket configuration, `null` if recordings aren't stored on S3 */
+export function getS3Config(): S3Config | null {
+  const { S3_KEY_ID, S3_KEY_SECRET, S3_BUCKET, S3_ENDPOINT, S3_REGION } = process.env;
+  if (!S3_KEY_ID || !S3_KEY_SECRET || !S3_BUCKET) {
+    return null;
+  }
+  return {
+    endpoint: S3_ENDPOINT || undefined,
+    region: S3_REGION || 'us-east-1',
+    bucket: S3_BUCKET,
+    accessKeyId: S3_KEY_ID,
+    secretAccessKey: S3_KEY_SECRET,
+  };
+}
+
+/** RFC 3986 encoding as required by SigV4, `encodeURIComponent` leaves `!'()*` alone */
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function encodeKey(key: string) {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+export function getObjectUrl(config: S3Config, key: string): URL {
+  if (config.endpoint) {
+    const base = config.endpoint.replace(/\/+$/, '');
+    return new URL(`${base}/${encodeRfc3986(config.bucket)}/${encodeKey(key)}`);
+  }
+  return new URL(`https://${config.bucket}.s3.${config.region}.amazonaws.com/${encodeKey(key)}`);
+}
+
+const sha256 = (data: string) => createHash('sha256').update(data, 'utf8').digest('hex');
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data, 'utf8').digest();
+
+/** `20130524T000000Z` */
+function toAmzDate(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Adds SigV4 query authentication to a GET `url`. Query parameters already on the URL,
+ * e.g. `response-content-disposition`, are covered by the signature.
+ */
+export function presignUrl(
+  url: URL,
+  credentials: S3Credentials,
+  region: string,
+  expiresInSeconds: number,
+  now = new Date(),
+): URL {
+  const amzDate = toAmzDate(now);
+  const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+  const signed = new URL(url);
+  signed.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  signed.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+  signed.searchParams.set('X-Amz-Date', amzDate);
+  signed.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+  signed.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const canonicalQuery = Array.from(signed.searchParams)
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const canonicalRequest = [
+    'GET',
+    signed.pathname,
+    canonicalQuery,
+    `host:${signed.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  let signingKey = hmac(`AWS4${credentials.secretAccessKey}`, amzDate.slice(0, 8));
+  for (const part of [region, 's3', 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  signed.search = `${canonicalQuery}&X-Amz-Signature=${hmac(signingKey, stringToSign).toString('hex')}`;
+  return signed;
+}
+
+/**
+ * Pre-signed URL that downloads `key` as an attachment named `filename`.
+ */
+export function presignDownload(
+  config: S3Config,
+  key: string,
+  filename = key.split('/').pop() ?? key,
+  now = new Date(),
+): URL {
+  const url = getObjectUrl(config, key);
+  url.searchParams.set(
+    'response-content-disposition',
+    `attachment; filename="${filename.replace(/["\\]/g, '_')}"`,
+  );
+  return presignUrl(url, config, config.region, DOWNLOAD_URL_EXPIRY_SECONDS, now);
+}
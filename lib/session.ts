@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+
+export const SESSION_COOKIE_KEY = 'watchparty-session';
+
+const SESSION_COOKIE_MAX_AGE_SECONDS = 60 * 120;
+
+/**
+ * Returns the caller's session key, or a new one that still has to be stored
+ * with `sessionCookie`. See `roomRegistry.ts` for what sessions are used for.
+ */
+export function getOrCreateSession(request: NextRequest): string {
+  return request.cookies.get(SESSION_COOKIE_KEY)?.value ?? crypto.randomUUID();
+}
+
+/** `Set-Cookie` value storing the session key */
+export function sessionCookie(session: string): string {
+  return `${SESSION_COOKIE_KEY}=${session}; Path=/; HttpOnly; SameSite=Strict; Secure; Max-Age=${SESSION_COOKIE_MAX_AGE_SECONDS}`;
+}
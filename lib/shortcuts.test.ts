@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bindingFromEvent,
+  findConflicts,
+  getDefaultBindings,
+  loadBindings,
+  normalizeBinding,
+  saveBindings,
+  SHORTCUTS_STORAGE_KEY,
+} from './shortcuts';
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+const keyPress = (
+  key: string,
+  mods: Partial<Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>> = {},
+) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...mods,
+});
+
+describe('shortcut bindings', () => {
+  it('has no conflicts by default', () => {
+    expect(findConflicts(getDefaultBindings())).toEqual([]);
+  });
+
+  it('normalizes modifier order and key case', () => {
+    expect(normalizeBinding('Shift+Control+K')).toBe('Control+Shift+k');
+    expect(bindingFromEvent(keyPress('K', { shiftKey: true, ctrlKey: true }))).toBe(
+      'Control+Shift+k',
+    );
+    expect(bindingFromEvent(keyPress('Shift', { shiftKey: true }))).toBeNull();
+  });
+
+  it('detects actions sharing a binding', () => {
+    const bindings = { ...getDefaultBindings(), toggleChat: 'M' };
+    expect(findConflicts(bindings)).toEqual([['toggleMicrophone', 'toggleChat']]);
+  });
+
+  it('persists only changed bindings', () => {
+    const storage = memoryStorage();
+    saveBindings(storage, { ...getDefaultBindings(), toggleCamera: 'Shift+V' });
+    expect(JSON.parse(storage.getItem(SHORTCUTS_STORAGE_KEY)!)).toEqual({
+      toggleCamera: 'Shift+V',
+    });
+    expect(loadBindings(storage).toggleCamera).toBe('Shift+V');
+    expect(loadBindings(storage).toggleMicrophone).toBe('m');
+  });
+
+  it('ignores malformed stored bindings', () => {
+    const storage = memoryStorage();
+    storage.setItem(SHORTCUTS_STORAGE_KEY, '{not json');
+    expect(loadBindings(storage)).toEqual(getDefaultBindings());
+  });
+});
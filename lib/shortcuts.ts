@@ -0,0 +1,135 @@
+import { REACTION_EMOJIS, ReactionEmoji } from './reactions';
+
+/**
+ * Central list of keyboard shortcuts. Bindings use the tinykeys syntax, e.g. `Shift+D`,
+ * and single keys without modifiers are only active while no text field has focus.
+ */
+export type ShortcutAction =
+  | 'toggleMicrophone'
+  | 'toggleCamera'
+  | 'toggleScreenShare'
+  | 'toggleChat'
+  | 'toggleFullscreen'
+  | 'swapPiP'
+  | 'showShortcuts'
+  | 'toggleDebug'
+  | `react:${ReactionEmoji}`;
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  defaultBinding: string;
+}
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'toggleMicrophone', label: 'Mute / unmute microphone', defaultBinding: 'm' },
+  { action: 'toggleCamera', label: 'Turn camera on / off', defaultBinding: 'v' },
+  { action: 'toggleScreenShare', label: 'Start / stop screen share', defaultBinding: 's' },
+  { action: 'toggleChat', label: 'Show / hide chat', defaultBinding: 'c' },
+  { action: 'toggleFullscreen', label: 'Toggle fullscreen', defaultBinding: 'f' },
+  { action: 'swapPiP', label: 'Swap picture-in-picture videos', defaultBinding: 'p' },
+  ...REACTION_EMOJIS.map((emoji, index) => ({
+    action: `react:${emoji}` as const,
+    label: `React with ${emoji}`,
+    defaultBinding: String(index + 1),
+  })),
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', defaultBinding: 'Shift+?' },
+  { action: 'toggleDebug', label: 'Toggle debug panel', defaultBinding: 'Shift+D' },
+];
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUTS_STORAGE_KEY = 'watchparty.shortcuts';
+
+const MODIFIER_ORDER = ['Control', 'Alt', 'Shift', 'Meta'];
+
+export function getDefaultBindings(): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUT_DEFINITIONS.map(({ action, defaultBinding }) => [action, defaultBinding]),
+  ) as ShortcutBindings;
+}
+
+/**
+ * Canonical form of a binding, used to compare bindings regardless of modifier order or case.
+ */
+export function normalizeBinding(binding: string): string {
+  const parts = binding.trim().split(/\b\+/);
+  const key = parts.pop() ?? '';
+  const modifiers = parts.sort((a, b) => MODIFIER_ORDER.indexOf(a) - MODIFIER_ORDER.indexOf(b));
+  return [...modifiers, key.length === 1 ? key.toLowerCase() : key].join('+');
+}
+
+/**
+ * Builds a binding from a key press, `null` while only modifiers are held down.
+ */
+export function bindingFromEvent(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>,
+): string | null {
+  if (MODIFIER_ORDER.includes(event.key) || event.key === 'Dead') {
+    return null;
+  }
+  const modifiers = [
+    event.ctrlKey && 'Control',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta',
+  ].filter(Boolean);
+  const key = event.key === ' ' ? 'Space' : event.key;
+  return normalizeBinding([...modifiers, key].join('+'));
+}
+
+/**
+ * Groups actions that share the same binding. Unbound actions never conflict.
+ */
+export function findConflicts(bindings: ShortcutBindings): ShortcutAction[][] {
+  const byBinding = new Map<string, ShortcutAction[]>();
+  for (const [action, binding] of Object.entries(bindings) as [ShortcutAction, string][]) {
+    if (!binding) continue;
+    const key = normalizeBinding(binding);
+    byBinding.set(key, [...(byBinding.get(key) ?? []), action]);
+  }
+  return Array.from(byBinding.values()).filter((actions) => actions.length > 1);
+}
+
+/**
+ * Reads the user's custom bindings, unknown actions and malformed entries are ignored.
+ */
+export function loadBindings(storage: Pick<Storage, 'getItem'> | undefined): ShortcutBindings {
+  const bindings = getDefaultBindings();
+  try {
+    const stored = JSON.parse(storage?.getItem(SHORTCUTS_STORAGE_KEY) ?? '{}');
+    for (const action of Object.keys(bindings) as ShortcutAction[]) {
+      if (typeof stored?.[action] === 'string') {
+        bindings[action] = stored[action];
+      }
+    }
+  } catch {
+    // fall back to the defaults
+  }
+  return bindings;
+}
+
+/**
+ * Persists only the bindings that differ from the defaults.
+ */
+export function saveBindings(storage: Pick<Storage, 'setItem'>, bindings: ShortcutBindings) {
+  const defaults = getDefaultBindings();
+  const overrides = Object.fromEntries(
+    Object.entries(bindings).filter(
+      ([action, binding]) => binding !== defaults[action as ShortcutAction],
+    ),
+  );
+  storage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+/**
+ * Human readable form of a binding, e.g. `Shift + D`.
+ */
+export function formatBinding(binding: string): string {
+  if (!binding) {
+    return 'Not set';
+  }
+  const parts = binding.split(/\b\+/);
+  const key = parts.pop() ?? '';
+  return [...parts, key.length === 1 ? key.toUpperCase() : key].join(' + ');
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { EgressInfo, EgressStatus } from 'livekit-server-sdk';
+import { getDestinationId, parseStreamUrls, toStreamStatus } from './streamEgress';
+
+describe('parseStreamUrls', () => {
+  it('accepts rtmp and rtmps URLs and drops duplicates', () => {
+    expect(
+      parseStreamUrls(
+        [
+          'rtmp://a.rtmp.youtube.com/live2/key',
+          'rtmps://live.twitch.tv/app/key',
+          'rtmp://a.rtmp.youtube.com/live2/key',
+        ],
+        'urls',
+      ),
+    ).toEqual(['rtmp://a.rtmp.youtube.com/live2/key', 'rtmps://live.twitch.tv/app/key']);
+  });
+
+  it('treats a missing field as an empty list', () => {
+    expect(parseStreamUrls(undefined, 'add')).toEqual([]);
+  });
+
+  it('rejects other protocols and oversized lists', () => {
+    expect(() => parseStreamUrls(['https://example.com/live'], 'urls')).toThrow(
+      expect.objectContaining({ status: 400, code: 'invalid_urls' }),
+    );
+    expect(() => parseStreamUrls('rtmp://example.com/live', 'urls')).toThrow(
+      expect.objectContaining({ status: 400, code: 'invalid_urls' }),
+    );
+    const tooMany = Array.from({ length: 6 }, (_, i) => `rtmp://example.com/live/${i}`);
+    expect(() => parseStreamUrls(tooMany, 'urls')).toThrow(
+      expect.objectContaining({ status: 400, code: 'invalid_urls' }),
+    );
+  });
+});
+
+describe('toStreamStatus', () => {
+  it('reports the status of every destination', () => {
+    const egress = new EgressInfo({
+      egressId: 'EG_1',
+      status: EgressStatus.EGRESS_ACTIVE,
+      startedAt: 1_714_593_600_000_000_000n,
+      streamResults: [
+        { url: 'rtmp://a.example.com/live', status: 0 },
+        { url: 'rtmp://b.example.com/live', status: 2, error: 'connection refused' },
+      ],
+    });
+    expect(toStreamStatus(egress)).toEqual({
+      egressId: 'EG_1',
+      status: 'active',
+      startedAt: 1_714_593_600_000,
+      destinations: [
+        { url: 'rtmp://a.example.com/live', status: 'active' },
+        { url: 'rtmp://b.example.com/live', status: 'failed', error: 'connection refused' },
+      ],
+    });
+  });
+
+  it('identifies destinations by their full URL despite the redacted stream keys', () => {
+    const egress = new EgressInfo({
+      status: EgressStatus.EGRESS_ACTIVE,
+      streamResults: [
+        { url: 'rtmp://a.rtmp.youtube.com/live2/{redacted}', status: 0 },
+        { url: 'rtmps://live.twitch.tv/app/{redacted}', status: 0 },
+        { url: 'rtmp://a.rtmp.youtube.com/live2/{redacted}', status: 0 },
+      ],
+    });
+    const urls = [
+      'rtmp://a.rtmp.youtube.com/live2/first-key',
+      'rtmp://a.rtmp.youtube.com/live2/second-key',
+      'rtmps://live.twitch.tv/app/twitch-key',
+    ];
+    expect(toStreamStatus(egress, urls).destinations.map((d) => d.id)).toEqual([
+      getDestinationId(urls[0]),
+      getDestinationId(urls[2]),
+      getDestinationId(urls[1]),
+    ]);
+    expect(toStreamStatus(egress).destinations[0].id).toBeUndefined();
+  });
+
+  it('maps starting and ending egress', () => {
+    expect(toStreamStatus(new EgressInfo({ status: EgressStatus.EGRESS_STARTING })).status).toBe(
+      'starting',
+    );
+    expect(toStreamStatus(new EgressInfo({ status: EgressStatus.EGRESS_ENDING })).status).toBe(
+      'ending',
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { EgressClient, EgressInfo, EgressStatus, RoomServiceClient } from 'livekit-server-sdk';
+import { ApiError } from './apiErrors';
+import { isStreamEgress } from './roomEvents';
+import { updateRoomMetadata } from './roomService';
+import {
+  isRtmpUrl,
+  STREAM_MAX_DESTINATIONS,
+  StreamDestinationState,
+  StreamStatus,
+} from './streaming';
+
+/**
+ * Reads a list of RTMP destination URLs from a request body, without duplicates.
+ *
+ * @throws ApiError 400 if the list or one of its URLs is invalid
+ */
+export function parseStreamUrls(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > STREAM_MAX_DESTINATIONS) {
+    throw new ApiError(
+      400,
+      'invalid_urls',
+      `${field} must be a list of at most ${STREAM_MAX_DESTINATIONS} URLs`,
+    );
+  }
+  const invalid = value.find((url) => !isRtmpUrl(url));
+  if (invalid !== undefined) {
+    throw new ApiError(400, 'invalid_urls', `${String(invalid)} is not an rtmp:// or rtmps:// URL`);
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+/**
+ * Reads a list of destination ids, see `getDestinationId`, from a request body.
+ *
+ * @throws ApiError 400 if the list is malformed
+ */
+export function parseDestinationIds(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length > STREAM_MAX_DESTINATIONS ||
+    !value.every((id) => typeof id === 'string')
+  ) {
+    throw new ApiError(400, 'invalid_ids', 'remove must be a list of destination ids');
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+export async function findActiveStream(
+  client: EgressClient,
+  roomName: string,
+): Promise<EgressInfo | undefined> {
+  const egresses = await client.listEgress({ roomName, active: true });
+  return egresses.find(isStreamEgress);
+}
+
+// indexed by `StreamInfo.Status`, which livekit-server-sdk doesn't re-export
+const DESTINATION_STATES: StreamDestinationState[] = ['active', 'finished', 'failed'];
+
+/** Id of a destination towards clients, it doesn't give away the stream key */
+export function getDestinationId(url: string): string {
+  return createHash('sha256').update(url).digest('base64url').slice(0, 16);
+}
+
+/** A destination URL up to its stream key, the part LiveKit leaves alone when redacting it */
+function withoutStreamKey(url: string): string {
+  return url.slice(0, url.lastIndexOf('/') + 1);
+}
+
+/**
+ * Reports a stream egress. Its destinations are matched with their full `urls`, in the order
+ * they were added, to give each one an id.
+ */
+export function toStreamStatus(egress: EgressInfo, urls: string[] = []): StreamStatus {
+  const unmatched = [...urls];
+  const findUrl = (redacted: string) => {
+    const index = unmatched.findIndex(
+      (url) => withoutStreamKey(url) === withoutStreamKey(redacted),
+    );
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+  const status: StreamStatus = {
+    egressId: egress.egressId,
+    status:
+      egress.status === EgressStatus.EGRESS_STARTING
+        ? 'starting'
+        : egress.status === EgressStatus.EGRESS_ACTIVE
+          ? 'active'
+          : 'ending',
+    destinations: egress.streamResults.map((result) => {
+      const url = findUrl(result.url);
+      return {
+        ...(url ? { id: getDestinationId(url) } : {}),
+        url: result.url,
+        status: DESTINATION_STATES[result.status] ?? 'active',
+        ...(result.error ? { error: result.error } : {}),
+      };
+    }),
+  };
+  if (egress.startedAt) {
+    status.startedAt = Number(egress.startedAt / 1_000_000n);
+  }
+  return status;
+}
+
+/**
+ * Marks the room as live in its metadata, keeping whatever else is stored there.
+ */
+export async function setRoomLive(client: RoomServiceClient, roomName: string, live: boolean) {
+  await updateRoomMetadata(client, roomName, (metadata) => ({ ...metadata, live }));
+}
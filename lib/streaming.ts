@@ -0,0 +1,40 @@
+/**
+ * Restreaming a watch party to external RTMP ingests, e.g. YouTube or Twitch.
+ */
+
+/** Most RTMP destinations a single stream egress is allowed to push to */
+export const STREAM_MAX_DESTINATIONS = 5;
+
+export type StreamDestinationState = 'active' | 'finished' | 'failed';
+
+export interface StreamDestination {
+  /**
+   * Identifies the destination in `/api/stream/destinations` requests, unset if the server
+   * no longer knows its full URL, e.g. after a restart
+   */
+  id?: string;
+  /** URL as reported by LiveKit, with the stream key redacted */
+  url: string;
+  status: StreamDestinationState;
+  error?: string;
+}
+
+/** Response of `GET /api/stream`, only moderators ever see destination URLs */
+export interface StreamStatus {
+  egressId: string;
+  status: 'starting' | 'active' | 'ending';
+  startedAt?: number;
+  destinations: StreamDestination[];
+}
+
+export function isRtmpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'rtmp:' || url.protocol === 'rtmps:') && !!url.hostname;
+  } catch {
+    return false;
+  }
+}
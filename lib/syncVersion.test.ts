@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isNewerSyncVersion,
+  MAX_SYNC_VERSION_LEAD_MS,
+  nextSyncVersion,
+  pickResponder,
+  shouldApplySyncedState,
+} from './syncVersion';
+
+describe('nextSyncVersion', () => {
+  it('uses the wall clock', () => {
+    expect(nextSyncVersion(null, 'host', 5_000.7)).toEqual({ time: 5_000, by: 'host' });
+  });
+
+  it('stays ahead of the latest version when the clock is behind', () => {
+    expect(nextSyncVersion({ time: 9_000, by: 'cohost' }, 'host', 5_000)).toEqual({
+      time: 9_001,
+      by: 'host',
+    });
+  });
+});
+
+describe('isNewerSyncVersion', () => {
+  it('orders by time, then by sender', () => {
+    const latest = { time: 100, by: 'bob' };
+    expect(isNewerSyncVersion({ time: 101, by: 'ann' }, latest)).toBe(true);
+    expect(isNewerSyncVersion({ time: 99, by: 'cy' }, latest)).toBe(false);
+    expect(isNewerSyncVersion({ time: 100, by: 'cy' }, latest)).toBe(true);
+    expect(isNewerSyncVersion({ time: 100, by: 'ann' }, latest)).toBe(false);
+    expect(isNewerSyncVersion(latest, latest)).toBe(false);
+  });
+
+  it('lets concurrent updates converge on every client', () => {
+    const a = { time: 100, by: 'ann' };
+    const b = { time: 100, by: 'bob' };
+    expect(isNewerSyncVersion(b, a) && !isNewerSyncVersion(a, b)).toBe(true);
+  });
+});
+
+describe('shouldApplySyncedState', () => {
+  const latest = { time: 5_000, by: 'host' };
+
+  it('applies a new controller starting without any state', () => {
+    // The controller reloaded, or a co-host missed the earlier updates
+    expect(shouldApplySyncedState(nextSyncVersion(null, 'host', 6_000), latest, true)).toBe(true);
+    expect(shouldApplySyncedState(nextSyncVersion(null, 'cohost', 6_000), latest, true)).toBe(true);
+  });
+
+  it('drops stale versions and updates from others', () => {
+    expect(shouldApplySyncedState({ time: 4_000, by: 'host' }, latest, true)).toBe(false);
+    expect(shouldApplySyncedState({ time: 6_000, by: 'viewer' }, latest, false)).toBe(false);
+    expect(shouldApplySyncedState({ time: '6000', by: 'host' }, latest, true)).toBe(false);
+  });
+
+  it('takes a relayed state when there is none yet', () => {
+    expect(shouldApplySyncedState({ time: 4_000, by: 'host' }, null, true)).toBe(true);
+  });
+
+  it('refuses a viewer state even without a state yet', () => {
+    expect(shouldApplySyncedState({ time: 4_000, by: 'viewer' }, null, false)).toBe(false);
+  });
+
+  it('refuses versions far ahead of the local clock', () => {
+    const now = 5_000;
+    const ahead = { time: now + MAX_SYNC_VERSION_LEAD_MS + 1, by: 'host' };
+    expect(shouldApplySyncedState(ahead, null, true, now)).toBe(false);
+    expect(shouldApplySyncedState({ time: Number.MAX_VALUE, by: '\uffff' }, latest, true)).toBe(
+      false,
+    );
+    expect(
+      shouldApplySyncedState(
+        { time: now + MAX_SYNC_VERSION_LEAD_MS, by: 'host' },
+        latest,
+        true,
+        now,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('pickResponder', () => {
+  it('prefers the given participant while it is around', () => {
+    expect(pickResponder(['bob', 'ann', 'host'], 'host')).toBe('host');
+    expect(pickResponder(['bob', 'ann'], 'host')).toBe('ann');
+    expect(pickResponder([], 'host')).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Version of a state shared over data messages, e.g. URL playback or the playlist.
+ * A hybrid clock: the sender's wall clock time, kept ahead of every version the sender has
+ * seen, with the sender's identity breaking ties. Every client orders versions the same way,
+ * whoever sent them and whether or not they reloaded in between.
+ */
+export interface SyncVersion {
+  time: number;
+  by: string;
+}
+
+/**
+ * How far a version may be ahead of the receiver's clock. Allows for clocks that are off,
+ * but keeps a participant from sending a version no later update could ever beat.
+ */
+export const MAX_SYNC_VERSION_LEAD_MS = 10 * 60 * 1000;
+
+export function isSyncVersion(value: unknown): value is SyncVersion {
+  const version = value as Partial<SyncVersion> | undefined;
+  return (
+    !!version &&
+    typeof version.time === 'number' &&
+    Number.isFinite(version.time) &&
+    typeof version.by === 'string'
+  );
+}
+
+/**
+ * Version for the next update sent by `by`. It is newer than `latest` even when the sender's
+ * clock is behind the clock of whoever sent `latest`.
+ */
+export function nextSyncVersion(
+  latest: SyncVersion | null,
+  by: string,
+  now = Date.now(),
+): SyncVersion {
+  return { time: Math.max(Math.floor(now), (latest?.time ?? 0) + 1), by };
+}
+
+export function isNewerSyncVersion(version: SyncVersion, latest: SyncVersion | null): boolean {
+  if (!latest) {
+    return true;
+  }
+  return version.time > latest.time || (version.time === latest.time && version.by > latest.by);
+}
+
+/**
+ * Whether a received state replaces the local one. It has to come from a participant allowed
+ * to publish it, be newer, and not be further ahead of the local clock than
+ * {@link MAX_SYNC_VERSION_LEAD_MS}. A client without any state yet takes the state relayed
+ * to it by whoever answers late joiners, see {@link pickResponder}, if it's allowed to publish it.
+ */
+export function shouldApplySyncedState(
+  version: unknown,
+  latest: SyncVersion | null,
+  fromPublisher: boolean,
+  now = Date.now(),
+): version is SyncVersion {
+  if (!fromPublisher || !isSyncVersion(version) || version.time > now + MAX_SYNC_VERSION_LEAD_MS) {
+    return false;
+  }
+  return isNewerSyncVersion(version, latest);
+}
+
+/**
+ * Picks the one participant that sends the current state to a late joiner or takes over a
+ * state whose owner left: `preferred` while it is among `identities`, the smallest identity
+ * otherwise. Every client picks the same one, so the state isn't sent once per participant.
+ * `identities` must only list participants allowed to publish the state, receivers drop it
+ * from anyone else.
+ */
+export function pickResponder(identities: string[], preferred?: string): string | undefined {
+  if (preferred && identities.includes(preferred)) {
+    return preferred;
+  }
+  return [...identities].sort()[0];
+}
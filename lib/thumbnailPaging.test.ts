@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { TrackReferenceOrPlaceholder } from '@livekit/components-react';
+import { arrangeThumbnails } from './thumbnailPaging';
+
+function camera(identity: string): TrackReferenceOrPlaceholder {
+  return { participant: { identity } } as unknown as TrackReferenceOrPlaceholder;
+}
+
+const identities = (tracks: TrackReferenceOrPlaceholder[]) =>
+  tracks.map((t) => t.participant.identity);
+
+describe('arrangeThumbnails', () => {
+  const tracks = ['a', 'b', 'c', 'd', 'e'].map((id) => camera(id));
+
+  it('pages through all cameras', () => {
+    const first = arrangeThumbnails(tracks, [], 0, 2);
+    expect(first.pageCount).toBe(3);
+    expect(identities(first.visible)).toEqual(['a', 'b']);
+    expect(identities(first.hidden)).toEqual(['c', 'd', 'e']);
+    expect(identities(arrangeThumbnails(tracks, [], 2, 2).visible)).toEqual(['e']);
+    // pages beyond the end clamp to the last page
+    expect(identities(arrangeThumbnails(tracks, [], 7, 2).visible)).toEqual(['e']);
+  });
+
+  it('keeps pages in join order when people speak', () => {
+    const page = arrangeThumbnails(tracks, ['d', 'b'], 0, 2);
+    expect(identities(page.visible.slice(-2))).toEqual(['a', 'b']);
+    expect(identities(arrangeThumbnails(tracks, ['d', 'b'], 1, 2).visible.slice(-2))).toEqual([
+      'c',
+      'd',
+    ]);
+  });
+
+  it('shows active speakers from other pages on top of the page', () => {
+    const { visible, hidden, promoted } = arrangeThumbnails(tracks, ['c', 'a'], 1, 2);
+    expect(identities(visible)).toEqual(['a', 'c', 'd']);
+    expect(identities(hidden)).toEqual(['b', 'e']);
+    // Only 'a' comes from another page and gets the speaker outline
+    expect(identities(promoted)).toEqual(['a']);
+    expect(arrangeThumbnails(tracks, [], 1, 2).promoted).toEqual([]);
+  });
+
+  it('leaves every camera on some page while speakers are promoted', () => {
+    const seen = new Set<string>();
+    for (let page = 0; page < 3; page++) {
+      const { visible } = arrangeThumbnails(tracks, ['e'], page, 2);
+      identities(visible).forEach((identity) => seen.add(identity));
+    }
+    expect(seen.size).toBe(tracks.length);
+  });
+});
@@ -0,0 +1,37 @@
+import type { TrackReferenceOrPlaceholder } from '@livekit/components-react';
+
+/** Number of camera thumbnails shown at once in cinema mode */
+export const THUMBNAILS_PER_PAGE = 6;
+
+export interface ThumbnailPage {
+  visible: TrackReferenceOrPlaceholder[];
+  hidden: TrackReferenceOrPlaceholder[];
+  /** Active speakers from other pages, shown in front of the page */
+  promoted: TrackReferenceOrPlaceholder[];
+  pageCount: number;
+}
+
+/**
+ * Splits the camera tracks into the visible page and the offscreen rest. Pages follow the
+ * order of `tracks`, i.e. join order, so they don't reshuffle whenever someone speaks.
+ * Active speakers from other pages are shown in front of the page, on top of its slots.
+ */
+export function arrangeThumbnails(
+  tracks: TrackReferenceOrPlaceholder[],
+  speakingIdentities: string[],
+  page: number,
+  pageSize = THUMBNAILS_PER_PAGE,
+): ThumbnailPage {
+  const pageCount = Math.max(1, Math.ceil(tracks.length / pageSize));
+  const start = Math.min(page, pageCount - 1) * pageSize;
+  const pageTracks = tracks.slice(start, start + pageSize);
+
+  const speakingRank = (trackRef: TrackReferenceOrPlaceholder) =>
+    speakingIdentities.indexOf(trackRef.participant.identity);
+  const promoted = tracks
+    .filter((trackRef) => speakingRank(trackRef) !== -1 && !pageTracks.includes(trackRef))
+    .sort((a, b) => speakingRank(a) - speakingRank(b));
+  const visible = [...promoted, ...pageTracks];
+  const hidden = tracks.filter((trackRef) => !visible.includes(trackRef));
+  return { visible, hidden, promoted, pageCount };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { DisconnectReason } from 'livekit-client';
+import {
+  getRefreshDelay,
+  getTokenExpiry,
+  shouldRejoin,
+  TOKEN_REFRESH_MARGIN_MS,
+} from './tokenRefresh';
+
+function createToken(payload: object) {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(payload)}.signature`;
+}
+
+describe('getTokenExpiry', () => {
+  it('reads the expiry of a token', () => {
+    expect(getTokenExpiry(createToken({ exp: 1_700_000_000, name: 'Zoë ✨' }))).toBe(
+      1_700_000_000_000,
+    );
+  });
+
+  it('ignores tokens without an expiry or that are malformed', () => {
+    expect(getTokenExpiry(createToken({ sub: 'alice' }))).toBeUndefined();
+    expect(getTokenExpiry('not-a-token')).toBeUndefined();
+    expect(getTokenExpiry('a.%%%.c')).toBeUndefined();
+  });
+});
+
+describe('getRefreshDelay', () => {
+  it('refreshes shortly before the token expires', () => {
+    const token = createToken({ exp: 600 });
+    expect(getRefreshDelay(token, 0)).toBe(600_000 - TOKEN_REFRESH_MARGIN_MS);
+    expect(getRefreshDelay(token, 599_000)).toBe(0);
+  });
+});
+
+describe('shouldRejoin', () => {
+  it('rejoins after connection failures only', () => {
+    expect(shouldRejoin(undefined)).toBe(true);
+    expect(shouldRejoin(DisconnectReason.JOIN_FAILURE)).toBe(true);
+    expect(shouldRejoin(DisconnectReason.SIGNAL_CLOSE)).toBe(true);
+    expect(shouldRejoin(DisconnectReason.CLIENT_INITIATED)).toBe(false);
+    expect(shouldRejoin(DisconnectReason.PARTICIPANT_REMOVED)).toBe(false);
+    expect(shouldRejoin(DisconnectReason.ROOM_DELETED)).toBe(false);
+  });
+});
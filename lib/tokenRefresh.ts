@@ -0,0 +1,48 @@
+import { DisconnectReason } from 'livekit-client';
+
+/** Participant tokens are refreshed this long before they expire */
+export const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+/** Attempts to rejoin after the connection was lost for good, before giving up */
+export const MAX_REJOIN_ATTEMPTS = 3;
+export const REJOIN_RETRY_DELAY_MS = 2_000;
+
+/**
+ * Reads the expiry of a JWT in milliseconds, without verifying it.
+ */
+export function getTokenExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof exp === 'number' ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Milliseconds until a token should be refreshed, `undefined` if its expiry is unknown.
+ */
+export function getRefreshDelay(token: string, now = Date.now()): number | undefined {
+  const expiry = getTokenExpiry(token);
+  return expiry === undefined ? undefined : Math.max(0, expiry - TOKEN_REFRESH_MARGIN_MS - now);
+}
+
+const FINAL_DISCONNECT_REASONS = [
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED,
+  DisconnectReason.ROOM_CLOSED,
+];
+
+/**
+ * Whether the connection was lost by accident, e.g. a reconnect that failed after a
+ * network blip, rather than because the user left or the host removed them.
+ */
+export function shouldRejoin(reason: DisconnectReason | undefined): boolean {
+  return reason === undefined || !FINAL_DISCONNECT_REASONS.includes(reason);
+}
@@ -1,5 +1,6 @@
 import { LocalAudioTrack, LocalVideoTrack, videoCodecs } from 'livekit-client';
 import { VideoCodec } from 'livekit-client';
+import type { ParticipantRole } from './roles';
 
 export interface SessionProps {
   roomName: string;
@@ -25,4 +26,14 @@ export type ConnectionDetails = {
   roomName: string;
   participantName: string;
   participantToken: string;
+  /** Role assigned by the server, also stored in the participant's metadata */
+  participantRole?: ParticipantRole;
 };
+
+/** Header carrying the room password on `connection-details` requests */
+export const ROOM_PASSWORD_HEADER = 'X-Room-Password';
+
+export const ROOM_PASSWORD_MAX_LENGTH = 128;
+
+/** Response of `connection-details/refresh` */
+export type RefreshedToken = Pick<ConnectionDetails, 'participantToken' | 'participantRole'>;
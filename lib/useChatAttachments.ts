@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { useLocalParticipant, useRoomContext } from '@livekit/components-react';
+import type { ByteStreamReader } from 'livekit-client';
+import {
+  CHAT_ATTACHMENT_MAX_BYTES,
+  CHAT_ATTACHMENT_TOPIC,
+  ChatAttachment,
+  ChatAttachmentState,
+  isChatAttachmentType,
+  ReceivedChatAttachment,
+} from './chatAttachments';
+import { ChatPolicy } from './chatModeration';
+import { getParticipantRole, getRoleCapabilities } from './roles';
+
+export interface ChatAttachments {
+  /** Images sent or received on this client with their senders, by stream id */
+  states: Record<string, ReceivedChatAttachment>;
+  /** Upload progress of the image being sent, from 0 to 1 */
+  uploadProgress: number | null;
+  /** Sends an image to everyone, the returned attachment goes into the chat message */
+  send: (file: File, spoiler: boolean) => Promise<ChatAttachment>;
+}
+
+/**
+ * Shares chat images as LiveKit byte streams. Received images are kept as object URLs
+ * for as long as the room is open. Streams breaking the size and type limits, or sent by
+ * participants while a host has turned images off, are ignored.
+ */
+export function useChatAttachments(policy: ChatPolicy): ChatAttachments {
+  const room = useRoomContext();
+  const { localParticipant } = useLocalParticipant();
+  const [states, setStates] = React.useState<Record<string, ReceivedChatAttachment>>({});
+  const [uploadProgress, setUploadProgress] = React.useState<number | null>(null);
+  const urlsRef = React.useRef<string[]>([]);
+  const policyRef = React.useRef(policy);
+  policyRef.current = policy;
+
+  const setState = React.useCallback(
+    (id: string, from: string, state: ChatAttachmentState) =>
+      setStates((current) => ({ ...current, [id]: { from, state } })),
+    [],
+  );
+
+  const createUrl = React.useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    urlsRef.current.push(url);
+    return url;
+  }, []);
+
+  React.useEffect(() => {
+    const handleStream = async (reader: ByteStreamReader, { identity }: { identity: string }) => {
+      const { id, mimeType, size } = reader.info;
+      const sender = room.getParticipantByIdentity(identity);
+      const isModerator = !!sender && getRoleCapabilities(getParticipantRole(sender)).canModerate;
+      if (
+        !isChatAttachmentType(mimeType) ||
+        !(size !== undefined && size > 0 && size <= CHAT_ATTACHMENT_MAX_BYTES) ||
+        (policyRef.current.attachmentsDisabled && !isModerator)
+      ) {
+        return;
+      }
+      setState(id, identity, { status: 'receiving', progress: 0 });
+      reader.onProgress = (progress) =>
+        setState(id, identity, { status: 'receiving', progress: progress ?? 0 });
+      try {
+        // Chunks never come from a SharedArrayBuffer, TypeScript can't tell
+        const chunks = (await reader.readAll()) as BlobPart[];
+        setState(id, identity, {
+          status: 'ready',
+          url: createUrl(new Blob(chunks, { type: mimeType })),
+        });
+      } catch (error) {
+        console.warn('Failed to receive chat image', error);
+        setState(id, identity, { status: 'failed', error: 'The image could not be received' });
+      }
+    };
+    room.registerByteStreamHandler(CHAT_ATTACHMENT_TOPIC, handleStream);
+    return () => room.unregisterByteStreamHandler(CHAT_ATTACHMENT_TOPIC);
+  }, [room, setState, createUrl]);
+
+  React.useEffect(() => {
+    const urls = urlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const send = React.useCallback(
+    async (file: File, spoiler: boolean): Promise<ChatAttachment> => {
+      setUploadProgress(0);
+      try {
+        const { id } = await localParticipant.sendFile(file, {
+          topic: CHAT_ATTACHMENT_TOPIC,
+          mimeType: file.type,
+          onProgress: setUploadProgress,
+        });
+        setState(id, localParticipant.identity, { status: 'ready', url: createUrl(file) });
+        return { id, name: file.name, mimeType: file.type, size: file.size, spoiler };
+      } finally {
+        setUploadProgress(null);
+      }
+    },
+    [localParticipant, setState, createUrl],
+  );
+
+  return { states, uploadProgress, send };
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { fetchWithToken, readApiError } from './apiClient';
+import { ChatEntry } from './chat';
+import { ChatEvent, ChatMessageState, ChatMessageStates, getPersistedStates } from './chatEvents';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+
+/** Number of messages replayed to a participant joining a room */
+const HISTORY_REPLAY_LIMIT = 50;
+
+/**
+ * Loads the recent chat history of the current room with the reactions and edits of its
+ * messages. Persists messages, reactions and edits the local participant sends so later
+ * joiners can see them, and removes deleted messages.
+ * Does nothing unless `NEXT_PUBLIC_CHAT_HISTORY_ENDPOINT` is configured.
+ */
+export function useChatHistory() {
+  const connectionDetails = useConnectionDetails();
+  const endpoint = process.env.NEXT_PUBLIC_CHAT_HISTORY_ENDPOINT;
+  const roomName = connectionDetails?.roomName;
+  const token = connectionDetails?.participantToken;
+  // Only replay once per room, a refreshed token must not trigger another fetch
+  const tokenRef = React.useRef(token);
+  tokenRef.current = token;
+  const [history, setHistory] = React.useState<ChatEntry[]>([]);
+  const [states, setStates] = React.useState<ChatMessageStates>({});
+  /** Whether the replay is done, or failed, or there's no chat history to replay */
+  const [loaded, setLoaded] = React.useState(!endpoint);
+
+  React.useEffect(() => {
+    if (!endpoint || !roomName) {
+      return;
+    }
+    let cancelled = false;
+    const params = new URLSearchParams({ roomName, limit: String(HISTORY_REPLAY_LIMIT) });
+    fetchWithToken(`${endpoint}?${params}`, tokenRef.current)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readApiError(response));
+        }
+        const body: { messages: (ChatEntry & { state?: ChatMessageState })[] } =
+          await response.json();
+        if (!cancelled) {
+          setHistory(body.messages.map(({ state: _state, ...entry }) => entry));
+          setStates(getPersistedStates(body.messages));
+        }
+      })
+      .catch((error) => console.warn('Failed to load chat history', error))
+      .finally(() => {
+        if (!cancelled) {
+          setLoaded(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint, roomName]);
+
+  const persist = React.useCallback(
+    (entry: ChatEntry) => {
+      if (!endpoint || !roomName) {
+        return;
+      }
+      const { id, timestamp, message } = entry;
+      fetchWithToken(`${endpoint}?${new URLSearchParams({ roomName })}`, token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, timestamp, message }),
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(await readApiError(response));
+          }
+        })
+        .catch((error) => console.warn('Failed to persist chat message', error));
+    },
+    [endpoint, roomName, token],
+  );
+
+  /** Persists a reaction or edit the local participant sent */
+  const persistEvent = React.useCallback(
+    (event: ChatEvent) => {
+      if (!endpoint || !roomName) {
+        return;
+      }
+      fetchWithToken(`${endpoint}/events?${new URLSearchParams({ roomName })}`, token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event }),
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(await readApiError(response));
+          }
+        })
+        .catch((error) => console.warn('Failed to persist chat event', error));
+    },
+    [endpoint, roomName, token],
+  );
+
+  /** Removes a message the local participant deleted, so it isn't replayed to later joiners */
+  const remove = React.useCallback(
+    (id: string) => {
+      if (!endpoint || !roomName) {
+        return;
+      }
+      fetchWithToken(`${endpoint}?${new URLSearchParams({ roomName, id })}`, token, {
+        method: 'DELETE',
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(await readApiError(response));
+          }
+        })
+        .catch((error) => console.warn('Failed to delete chat message', error));
+    },
+    [endpoint, roomName, token],
+  );
+
+  return { history, states, loaded, persist, persistEvent, remove };
+}
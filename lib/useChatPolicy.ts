@@ -0,0 +1,14 @@
+'use client';
+
+import React from 'react';
+import { useRoomInfo } from '@livekit/components-react';
+import { ChatPolicy, parseChatPolicy } from './chatModeration';
+import { parseRoomMetadata } from './roomMetadata';
+
+/**
+ * Hook that returns the room's chat policy, updated whenever a host changes it.
+ */
+export function useChatPolicy(): ChatPolicy {
+  const { metadata } = useRoomInfo();
+  return React.useMemo(() => parseChatPolicy(parseRoomMetadata(metadata).chatPolicy), [metadata]);
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import {
+  CHAT_TYPING_TOPIC,
+  ChatTypingMessage,
+  pruneTyping,
+  TYPING_EXPIRY_MS,
+  TYPING_THROTTLE_MS,
+  TypingParticipants,
+} from './chatActivity';
+import { getSenderName } from './chat';
+import { useJsonDataChannel } from './useJsonDataChannel';
+
+/**
+ * Tells the room while the local participant types a chat message, and returns the names
+ * of the other participants typing. Indicators are best effort and sent over lossy data
+ * messages, a lost "stopped" simply expires.
+ *
+ * @param draft the local participant's chat input
+ */
+export function useChatTyping(draft: string): string[] {
+  const [typing, setTyping] = React.useState<TypingParticipants>({});
+  const lastSentAtRef = React.useRef(0);
+
+  const { send } = useJsonDataChannel<ChatTypingMessage>(CHAT_TYPING_TOPIC, (message, from) => {
+    if (!from) return;
+    setTyping((current) => {
+      const next = { ...current };
+      if (message.type === 'typing') {
+        next[from.identity] = {
+          name: getSenderName(from),
+          expiresAt: Date.now() + TYPING_EXPIRY_MS,
+        };
+      } else {
+        delete next[from.identity];
+      }
+      return next;
+    });
+  });
+
+  const announce = React.useCallback(
+    (type: ChatTypingMessage['type']) =>
+      send({ type }, { reliable: false }).catch((error) =>
+        console.warn('Failed to send typing indicator', error),
+      ),
+    [send],
+  );
+
+  const isTyping = draft.trim().length > 0;
+  React.useEffect(() => {
+    if (isTyping) {
+      const now = Date.now();
+      if (now - lastSentAtRef.current >= TYPING_THROTTLE_MS) {
+        lastSentAtRef.current = now;
+        announce('typing');
+      }
+    } else if (lastSentAtRef.current > 0) {
+      lastSentAtRef.current = 0;
+      announce('stopped');
+    }
+  }, [draft, isTyping, announce]);
+
+  const hasTyping = Object.keys(typing).length > 0;
+  React.useEffect(() => {
+    if (!hasTyping) return;
+    const interval = setInterval(
+      () => setTyping((current) => pruneTyping(current, Date.now())),
+      1_000,
+    );
+    return () => clearInterval(interval);
+  }, [hasTyping]);
+
+  return React.useMemo(() => Object.values(typing).map((t) => t.name), [typing]);
+}
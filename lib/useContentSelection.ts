@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import { useLocalParticipant, useRoomContext } from '@livekit/components-react';
+import { Participant, RemoteParticipant, RoomEvent } from 'livekit-client';
+import {
+  CONTENT_TOPIC,
+  ContentMessage,
+  ContentSelection,
+  DEFAULT_CONTENT_SELECTION,
+  getDisplayedShares,
+} from './contentSelection';
+import { getParticipantRole, getRoleCapabilities } from './roles';
+import { nextSyncVersion, pickResponder, shouldApplySyncedState, SyncVersion } from './syncVersion';
+import { useJsonDataChannel } from './useJsonDataChannel';
+import { useRoleCapabilities } from './useParticipantRole';
+import { ScreenShare } from './useScreenShare';
+
+const canControlPlayback = (participant: Participant | undefined) =>
+  !!participant && getRoleCapabilities(getParticipantRole(participant)).canControlPlayback;
+
+/**
+ * Keeps the featured screen share in sync. Participants who control playback pick the
+ * featured share for everyone, others may look at a different share locally until the
+ * host changes the selection again.
+ */
+export function useContentSelection(screenShares: ScreenShare[]) {
+  const room = useRoomContext();
+  const { localParticipant } = useLocalParticipant();
+  const isPublisher = useRoleCapabilities(localParticipant).canControlPlayback;
+  const [shared, setSharedState] = React.useState<ContentSelection>(DEFAULT_CONTENT_SELECTION);
+  const [localOverride, setLocalOverride] = React.useState<ContentSelection | null>(null);
+  const sharedRef = React.useRef(shared);
+  const latestVersionRef = React.useRef<SyncVersion | null>(null);
+
+  const setShared = React.useCallback((selection: ContentSelection) => {
+    sharedRef.current = selection;
+    setSharedState(selection);
+    setLocalOverride(null);
+  }, []);
+
+  const { send } = useJsonDataChannel<ContentMessage>(CONTENT_TOPIC, (message, from) => {
+    // Only participants who control playback pick the featured share, relays to late joiners too
+    if (
+      message.type !== 'selection' ||
+      !shouldApplySyncedState(message.version, latestVersionRef.current, canControlPlayback(from))
+    ) {
+      return;
+    }
+    latestVersionRef.current = message.version;
+    setShared(message.selection);
+  });
+
+  const broadcast = React.useCallback(
+    (selection: ContentSelection, version: SyncVersion, destinationIdentities?: string[]) => {
+      send({ type: 'selection', selection, version }, { destinationIdentities }).catch((error) =>
+        console.error('Failed to send content selection', error),
+      );
+    },
+    [send],
+  );
+
+  const select = React.useCallback(
+    (update: Partial<ContentSelection>) => {
+      if (isPublisher) {
+        const selection = { ...sharedRef.current, ...update };
+        const version = nextSyncVersion(latestVersionRef.current, localParticipant.identity);
+        latestVersionRef.current = version;
+        setShared(selection);
+        broadcast(selection, version);
+      } else {
+        setLocalOverride((current) => ({ ...(current ?? sharedRef.current), ...update }));
+      }
+    },
+    [localParticipant, isPublisher, broadcast, setShared],
+  );
+
+  // Late joiners get the current selection right away, from one participant that may pick it
+  React.useEffect(() => {
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      const version = latestVersionRef.current;
+      if (!version) {
+        return;
+      }
+      const identities = [localParticipant, ...room.remoteParticipants.values()]
+        .filter((p) => p.identity !== participant.identity && canControlPlayback(p))
+        .map((p) => p.identity);
+      if (pickResponder(identities, version.by) === localParticipant.identity) {
+        broadcast(sharedRef.current, version, [participant.identity]);
+      }
+    };
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    return () => {
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    };
+  }, [room, localParticipant, broadcast]);
+
+  const selection = localOverride ?? shared;
+  return {
+    selection,
+    displayedShares: getDisplayedShares(screenShares, selection),
+    /** Whether the local participant changes the selection for everyone */
+    isShared: isPublisher,
+    /** Whether the local participant is looking at something else than the host picked */
+    isOverridden: localOverride !== null,
+    select,
+    followHost: () => setLocalOverride(null),
+  };
+}
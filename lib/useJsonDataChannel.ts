@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { useDataChannel } from '@livekit/components-react';
+import { DataPublishOptions, Participant } from 'livekit-client';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeJsonMessage(message: unknown): Uint8Array {
+  return encoder.encode(JSON.stringify(message));
+}
+
+export function decodeJsonMessage<T>(payload: Uint8Array): T | undefined {
+  try {
+    return JSON.parse(decoder.decode(payload)) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Thin wrapper around `useDataChannel` that exchanges JSON messages on a single topic.
+ * The handler may change between renders without re-subscribing to the data channel.
+ */
+export function useJsonDataChannel<T>(
+  topic: string,
+  onMessage?: (message: T, from: Participant | undefined) => void,
+) {
+  const handlerRef = React.useRef(onMessage);
+  handlerRef.current = onMessage;
+
+  const handleMessage = React.useCallback((msg: { payload: Uint8Array; from?: Participant }) => {
+    const message = decodeJsonMessage<T>(msg.payload);
+    if (message !== undefined) {
+      handlerRef.current?.(message, msg.from);
+    }
+  }, []);
+
+  const { send: sendRaw } = useDataChannel(topic, handleMessage);
+
+  const send = React.useCallback(
+    (message: T, options?: Omit<DataPublishOptions, 'topic'>) =>
+      sendRaw(encodeJsonMessage(message), { reliable: true, ...options }),
+    [sendRaw],
+  );
+
+  return { send };
+}
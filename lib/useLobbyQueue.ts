@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { fetchWithToken, readApiError } from './apiClient';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+import { LOBBY_POLL_INTERVAL_MS, LobbyAction, LobbyState } from './lobby';
+
+const LOBBY_ENDPOINT = process.env.NEXT_PUBLIC_LOBBY_ENDPOINT ?? '/api/lobby';
+
+/**
+ * Host side of the lobby: polls the waiting joiners while the lobby is enabled and
+ * sends admit/deny decisions.
+ */
+export function useLobbyQueue() {
+  const room = useRoomContext();
+  const connectionDetails = useConnectionDetails();
+  const token = connectionDetails?.participantToken;
+  const [state, setState] = React.useState<LobbyState>({ enabled: false, requests: [] });
+  const [error, setError] = React.useState<string | null>(null);
+
+  const request = React.useCallback(
+    async (init?: RequestInit) => {
+      const response = await fetchWithToken(
+        `${LOBBY_ENDPOINT}?${new URLSearchParams({ roomName: room.name })}`,
+        token,
+        init,
+      );
+      if (!response.ok) {
+        setError(await readApiError(response));
+        return;
+      }
+      setError(null);
+      setState(await response.json());
+    },
+    [room.name, token],
+  );
+
+  const lobbyEnabled = state.enabled;
+  React.useEffect(() => {
+    if (!room.name) {
+      return;
+    }
+    request().catch((e) => console.error('Failed to load lobby', e));
+    if (!lobbyEnabled) {
+      return;
+    }
+    const interval = setInterval(() => {
+      request().catch((e) => console.error('Failed to load lobby', e));
+    }, LOBBY_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [lobbyEnabled, room.name, request]);
+
+  const dispatch = React.useCallback(
+    (action: LobbyAction) =>
+      request({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action),
+      }).catch((e) => console.error('Failed to update lobby', e)),
+    [request],
+  );
+
+  return { ...state, error, dispatch };
+}
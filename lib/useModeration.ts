@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { fetchWithToken, readApiError } from './apiClient';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+import type { ChatPolicyUpdate } from './chatModeration';
+import type { ParticipantRole } from './roles';
+
+const ROOM_API_ENDPOINT = process.env.NEXT_PUBLIC_ROOM_API_ENDPOINT ?? '/api/room';
+
+export type ModeratedSource = 'microphone' | 'camera' | 'screen_share';
+
+/**
+ * Client for the host moderation routes under `/api/room`.
+ * Every call rejects with the server's error message if the request fails.
+ */
+export function useModeration() {
+  const room = useRoomContext();
+  const connectionDetails = useConnectionDetails();
+  const token = connectionDetails?.participantToken;
+
+  const request = React.useCallback(
+    async (route: string, init: RequestInit = {}) => {
+      const response = await fetchWithToken(
+        `${ROOM_API_ENDPOINT}/${route}?${new URLSearchParams({ roomName: room.name })}`,
+        token,
+        { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } },
+      );
+      if (!response.ok) {
+        throw new Error(await readApiError(response));
+      }
+      return response;
+    },
+    [room.name, token],
+  );
+
+  const post = React.useCallback(
+    (route: string, body: object = {}) =>
+      request(route, { method: 'POST', body: JSON.stringify(body) }),
+    [request],
+  );
+
+  return React.useMemo(
+    () => ({
+      mute: (identity: string, source: ModeratedSource) => post('mute', { identity, source }),
+      remove: (identity: string) => post('remove', { identity }),
+      setRole: (identity: string, role: Exclude<ParticipantRole, 'host'>) =>
+        post('permissions', { identity, role }),
+      isLocked: async () => {
+        const body: { locked: boolean } = await (await request('lock')).json();
+        return body.locked;
+      },
+      setLocked: (locked: boolean) => post('lock', { locked }),
+      endRoom: () => post('end'),
+      updateChatPolicy: (update: ChatPolicyUpdate) => post('chat', update),
+    }),
+    [post, request],
+  );
+}
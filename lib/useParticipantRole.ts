@@ -0,0 +1,26 @@
+'use client';
+
+import { useParticipantInfo } from '@livekit/components-react';
+import { Participant } from 'livekit-client';
+import {
+  getRoleCapabilities,
+  getRoleFromMetadata,
+  ParticipantRole,
+  RoleCapabilities,
+} from './roles';
+
+/**
+ * Hook that returns the role of a participant, read from its metadata.
+ * Updates when the server changes the participant's metadata.
+ */
+export function useParticipantRole(participant?: Participant): ParticipantRole {
+  const { metadata } = useParticipantInfo({ participant });
+  return getRoleFromMetadata(metadata);
+}
+
+/**
+ * Hook that returns what a participant is allowed to do based on its role.
+ */
+export function useRoleCapabilities(participant?: Participant): RoleCapabilities {
+  return getRoleCapabilities(useParticipantRole(participant));
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import React from 'react';
+import {
+  useLocalParticipant,
+  useRemoteParticipants,
+  useRoomContext,
+} from '@livekit/components-react';
+import { Participant, RemoteParticipant, RoomEvent } from 'livekit-client';
+import {
+  applyPlaylistAction,
+  parsePlaylistItems,
+  parsePlaylistProposal,
+  PLAYLIST_TOPIC,
+  PlaylistAction,
+  PlaylistItem,
+  PlaylistMessage,
+  PlaylistProposal,
+  PlaylistState,
+} from './playlist';
+import { getParticipantRole, getRoleCapabilities } from './roles';
+import { useRoleCapabilities } from './useParticipantRole';
+import { useJsonDataChannel } from './useJsonDataChannel';
+import { nextSyncVersion, pickResponder, shouldApplySyncedState, SyncVersion } from './syncVersion';
+
+const canModerate = (participant: Participant | undefined) =>
+  !!participant && getRoleCapabilities(getParticipantRole(participant)).canModerate;
+
+export interface Playlist {
+  items: PlaylistItem[];
+  /** Whether the local participant approves, reorders and removes items */
+  canManage: boolean;
+  /**
+   * Suggests a video, moderators' suggestions are approved right away.
+   * Returns `false` if the proposal is invalid or no moderator is around to receive it.
+   */
+  propose: (proposal: Omit<PlaylistProposal, 'id'>) => boolean;
+  /** Changes the queue for everyone, ignored for non-moderators */
+  update: (action: PlaylistAction) => void;
+}
+
+/**
+ * Hook that keeps the room's up-next queue in sync over LiveKit data messages.
+ * Moderators own the queue: they turn proposals into items and broadcast the whole queue,
+ * everyone else only sends proposals to them.
+ */
+export function usePlaylist(): Playlist {
+  const room = useRoomContext();
+  const { localParticipant } = useLocalParticipant();
+  const remoteParticipants = useRemoteParticipants();
+  const canManage = useRoleCapabilities(localParticipant).canModerate;
+  const [items, setItemsState] = React.useState<PlaylistItem[]>([]);
+  const itemsRef = React.useRef<PlaylistItem[]>([]);
+  const latestVersionRef = React.useRef<SyncVersion | null>(null);
+
+  const setItems = React.useCallback((next: PlaylistItem[]) => {
+    itemsRef.current = next;
+    setItemsState(next);
+  }, []);
+
+  const { send } = useJsonDataChannel<PlaylistMessage>(PLAYLIST_TOPIC, (message, from) => {
+    if (message.type === 'propose') {
+      const proposal = parsePlaylistProposal(message.proposal);
+      if (from && proposal) {
+        addProposal(proposal, from);
+      }
+      return;
+    }
+    // Only moderators publish the queue, relays to late joiners included
+    if (message.type !== 'state') {
+      return;
+    }
+    const items = parsePlaylistItems(message.state?.items);
+    if (
+      !items ||
+      !shouldApplySyncedState(message.state.version, latestVersionRef.current, canModerate(from))
+    ) {
+      return;
+    }
+    latestVersionRef.current = message.state.version;
+    setItems(items);
+  });
+
+  const broadcast = React.useCallback(
+    (message: PlaylistMessage, destinationIdentities?: string[]) => {
+      send(message, { destinationIdentities }).catch((error) =>
+        console.error('Failed to send playlist update', error),
+      );
+    },
+    [send],
+  );
+
+  const update = React.useCallback(
+    (action: PlaylistAction) => {
+      if (!canModerate(localParticipant)) {
+        return;
+      }
+      const next = applyPlaylistAction(itemsRef.current, action);
+      if (next === itemsRef.current) {
+        return;
+      }
+      setItems(next);
+      const version = nextSyncVersion(latestVersionRef.current, localParticipant.identity);
+      latestVersionRef.current = version;
+      const state: PlaylistState = { items: next, version };
+      broadcast({ type: 'state', state });
+    },
+    [localParticipant, setItems, broadcast],
+  );
+
+  const addProposal = React.useCallback(
+    (proposal: PlaylistProposal, from: Participant) =>
+      update({
+        type: 'add',
+        item: {
+          ...proposal,
+          proposedBy: from.identity,
+          proposedByName: from.name || from.identity,
+          proposedAt: Date.now(),
+          approved: canModerate(from),
+        },
+      }),
+    [update],
+  );
+
+  const moderatorIdentities = remoteParticipants.filter(canModerate).map((p) => p.identity);
+  const moderatorKey = moderatorIdentities.join(',');
+
+  const propose = React.useCallback(
+    (input: Omit<PlaylistProposal, 'id'>) => {
+      const proposal = parsePlaylistProposal({ ...input, id: crypto.randomUUID() });
+      if (!proposal) {
+        return false;
+      }
+      if (canModerate(localParticipant)) {
+        addProposal(proposal, localParticipant);
+        return true;
+      }
+      if (!moderatorKey) {
+        return false;
+      }
+      broadcast({ type: 'propose', proposal }, moderatorKey.split(','));
+      return true;
+    },
+    [localParticipant, addProposal, moderatorKey, broadcast],
+  );
+
+  // Late joiners get the newest queue right away, from one moderator that knows it
+  React.useEffect(() => {
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      const version = latestVersionRef.current;
+      if (!version) {
+        return;
+      }
+      const identities = [localParticipant, ...room.remoteParticipants.values()]
+        .filter((p) => p.identity !== participant.identity && canModerate(p))
+        .map((p) => p.identity);
+      if (pickResponder(identities, version.by) === localParticipant.identity) {
+        broadcast({ type: 'state', state: { items: itemsRef.current, version } }, [
+          participant.identity,
+        ]);
+      }
+    };
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    return () => {
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    };
+  }, [room, localParticipant, broadcast]);
+
+  return { items, canManage, propose, update };
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { useLocalParticipant } from '@livekit/components-react';
+import {
+  addFloatingReaction,
+  FloatingReaction,
+  isReactionEmoji,
+  REACTION_FLOAT_MS,
+  ReactionEmoji,
+  ReactionMessage,
+  ReactionRateLimiter,
+  REACTIONS_TOPIC,
+} from './reactions';
+import { useJsonDataChannel } from './useJsonDataChannel';
+
+let reactionId = 0;
+const nextReactionId = () => `reaction-${++reactionId}`;
+
+/**
+ * Broadcasts emoji reactions and keeps track of the ones currently floating over the content.
+ * Reactions are sent unreliably, losing one now and then is fine.
+ */
+export function useReactions() {
+  const { localParticipant } = useLocalParticipant();
+  const [floating, setFloating] = React.useState<FloatingReaction[]>([]);
+  const limiter = React.useMemo(() => new ReactionRateLimiter(), []);
+
+  const show = React.useCallback((emoji: ReactionEmoji) => {
+    setFloating((current) => addFloatingReaction(current, emoji, Date.now(), nextReactionId));
+  }, []);
+
+  const { send } = useJsonDataChannel<ReactionMessage>(REACTIONS_TOPIC, (message, from) => {
+    if (message.type !== 'reaction' || !isReactionEmoji(message.emoji) || !from) {
+      return;
+    }
+    if (limiter.allow(from.identity)) {
+      show(message.emoji);
+    }
+  });
+
+  const react = React.useCallback(
+    (emoji: ReactionEmoji) => {
+      if (!limiter.allow(localParticipant.identity)) {
+        return false;
+      }
+      show(emoji);
+      send({ type: 'reaction', emoji }, { reliable: false }).catch((error) =>
+        console.error('Failed to send reaction', error),
+      );
+      return true;
+    },
+    [limiter, localParticipant, send, show],
+  );
+
+  // Drop reactions once they finished floating
+  React.useEffect(() => {
+    if (floating.length === 0) {
+      return;
+    }
+    const oldest = Math.min(...floating.map((r) => r.createdAt));
+    const timeout = setTimeout(
+      () =>
+        setFloating((current) =>
+          current.filter((r) => Date.now() - r.createdAt < REACTION_FLOAT_MS),
+        ),
+      Math.max(oldest + REACTION_FLOAT_MS - Date.now(), 0),
+    );
+    return () => clearTimeout(timeout);
+  }, [floating]);
+
+  return { floating, react };
+}
@@ -5,8 +5,19 @@ import {
   useParticipants,
   useLocalParticipant,
   useTracks,
+  TrackReference,
 } from '@livekit/components-react';
 import { Track, TrackPublication, Participant } from 'livekit-client';
+import { compareScreenShares } from './contentSelection';
+
+export interface ScreenShare {
+  /** Reference to the screen share video track */
+  trackRef: TrackReference;
+  participant: Participant;
+  /** Reference to the accompanying screen share audio, if any */
+  audioTrackRef?: TrackReference;
+  isLocal: boolean;
+}
 
 export interface ScreenShareState {
   /** Whether any participant is currently sharing their screen */
@@ -21,6 +32,8 @@ export interface ScreenShareState {
   isLocalScreenShare: boolean;
   /** Number of participants in the room */
   participantCount: number;
+  /** All active screen shares, in the same order on every client, see `compareScreenShares` */
+  screenShares: ScreenShare[];
 }
 
 /**
@@ -37,9 +50,18 @@ export function useScreenShare(): ScreenShareState {
   const screenShareAudioTracks = useTracks([Track.Source.ScreenShareAudio]);
 
   const screenShareState = useMemo(() => {
-    const activeScreenShare = screenShareTracks.find(
-      (track) => track.publication?.isSubscribed || track.participant.isLocal
-    );
+    const screenShares: ScreenShare[] = screenShareTracks
+      .filter((track) => track.publication?.isSubscribed || track.participant.isLocal)
+      .map((trackRef) => ({
+        trackRef,
+        participant: trackRef.participant,
+        audioTrackRef: screenShareAudioTracks.find(
+          (audio) => audio.participant.identity === trackRef.participant.identity,
+        ),
+        isLocal: trackRef.participant.identity === localParticipant.identity,
+      }))
+      .sort(compareScreenShares);
+    const activeScreenShare = screenShares[0];
 
     if (!activeScreenShare) {
       return {
@@ -49,24 +71,18 @@ export function useScreenShare(): ScreenShareState {
         hasScreenShareAudio: false,
         isLocalScreenShare: false,
         participantCount: participants.length,
+        screenShares,
       };
     }
 
-    const screenShareParticipant = activeScreenShare.participant;
-    const isLocalScreenShare = screenShareParticipant.identity === localParticipant.identity;
-
-    // Check if there's accompanying audio
-    const hasScreenShareAudio = screenShareAudioTracks.some(
-      (track) => track.participant.identity === screenShareParticipant.identity
-    );
-
     return {
       isScreenShareActive: true,
-      screenShareParticipant,
-      screenShareTrack: activeScreenShare.publication,
-      hasScreenShareAudio,
-      isLocalScreenShare,
+      screenShareParticipant: activeScreenShare.participant,
+      screenShareTrack: activeScreenShare.trackRef.publication,
+      hasScreenShareAudio: activeScreenShare.audioTrackRef !== undefined,
+      isLocalScreenShare: activeScreenShare.isLocal,
       participantCount: participants.length,
+      screenShares,
     };
   }, [screenShareTracks, screenShareAudioTracks, participants, localParticipant]);
 
@@ -74,11 +90,11 @@ export function useScreenShare(): ScreenShareState {
 }
 
 /**
- * Hook that returns only the screen share track for rendering.
+ * Hook that returns only the first screen share track for rendering.
  * Useful for the main video area in cinema mode.
  */
 export function useScreenShareTrack() {
-  const screenShareTracks = useTracks([Track.Source.ScreenShare]);
-  
-  return screenShareTracks.length > 0 ? screenShareTracks[0] : null;
+  const { screenShares } = useScreenShare();
+
+  return screenShares.length > 0 ? screenShares[0].trackRef : null;
 }
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { fetchWithToken, readApiError } from './apiClient';
+import { useConnectionDetails } from './ConnectionDetailsContext';
+import type { RecordingLayout } from './recordingOptions';
+import type { StreamStatus } from './streaming';
+
+const STREAM_ENDPOINT = process.env.NEXT_PUBLIC_STREAM_ENDPOINT ?? '/api/stream';
+
+/** Destination status is refreshed this often while the Go Live menu is open */
+const STREAM_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Client for the RTMP restream routes under `/api/stream`.
+ * Polls the stream status while `active` is set, e.g. while its menu is open.
+ */
+export function useStream(active: boolean) {
+  const room = useRoomContext();
+  const connectionDetails = useConnectionDetails();
+  const token = connectionDetails?.participantToken;
+  const [stream, setStream] = React.useState<StreamStatus | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState(false);
+
+  const request = React.useCallback(
+    async (route: string, body?: object) => {
+      const response = await fetchWithToken(
+        `${STREAM_ENDPOINT}${route}?${new URLSearchParams({ roomName: room.name })}`,
+        token,
+        body
+          ? {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(body),
+            }
+          : undefined,
+      );
+      if (!response.ok) {
+        setError(await readApiError(response));
+        return;
+      }
+      setError(null);
+      setStream(response.status === 204 ? null : (await response.json()).stream);
+    },
+    [room.name, token],
+  );
+
+  const run = React.useCallback(
+    async (route: string, body?: object) => {
+      setPending(true);
+      try {
+        await request(route, body);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setPending(false);
+      }
+    },
+    [request],
+  );
+
+  React.useEffect(() => {
+    if (!active || !room.name) {
+      return;
+    }
+    const load = () => request('').catch((e) => console.error('Failed to load stream', e));
+    load();
+    const interval = setInterval(load, STREAM_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, room.name, request]);
+
+  return {
+    stream,
+    error,
+    pending,
+    start: (urls: string[], layout: RecordingLayout) => run('/start', { urls, layout }),
+    addDestination: (url: string) => run('/destinations', { add: [url] }),
+    removeDestination: (id: string) => run('/destinations', { remove: [id] }),
+    stop: () => run('/stop', {}),
+  };
+}
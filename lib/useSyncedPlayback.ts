@@ -0,0 +1,245 @@
+'use client';
+
+import React from 'react';
+import {
+  useLocalParticipant,
+  useRemoteParticipants,
+  useRoomContext,
+} from '@livekit/components-react';
+import { Participant, RemoteParticipant, RoomEvent } from 'livekit-client';
+import {
+  expectedPosition,
+  PLAYBACK_TOPIC,
+  PlaybackMessage,
+  PlaybackSnapshot,
+  PlaybackState,
+} from './playbackSync';
+import { getParticipantRole, getRoleCapabilities } from './roles';
+import { nextSyncVersion, pickResponder, shouldApplySyncedState, SyncVersion } from './syncVersion';
+import { useJsonDataChannel } from './useJsonDataChannel';
+
+const canControlPlayback = (participant: Participant | undefined) =>
+  !!participant && getRoleCapabilities(getParticipantRole(participant)).canControlPlayback;
+
+/** A viewer asking the controller to jump to a position, e.g. from a timestamped chat message */
+export interface SeekRequest {
+  position: number;
+  /** Display name of the viewer who asked */
+  name: string;
+}
+
+export interface SyncedPlayback {
+  /** Current shared playback state, `null` when no URL is loaded */
+  snapshot: PlaybackSnapshot | null;
+  /** Whether the local participant drives playback for everyone */
+  isController: boolean;
+  /** Loads a media URL for everyone and makes the local participant the controller */
+  load: (url: string) => void;
+  /** Ends URL playback for everyone */
+  stop: () => void;
+  /** Broadcasts the controller's media state, ignored for non-controllers */
+  publish: (update: Pick<PlaybackState, 'playing' | 'position' | 'rate'>) => void;
+  /** Position the controller's player should jump to, `id` changes with every seek */
+  seekTarget: { position: number; id: number } | null;
+  /** Jumps there for everyone when controlling playback, otherwise asks the controller to */
+  seekTo: (position: number) => void;
+  /** Latest pending request from a viewer, only received by the controller */
+  seekRequest: SeekRequest | null;
+  /** Jumps to the requested position, or just dismisses the request */
+  answerSeekRequest: (accept: boolean) => void;
+}
+
+/**
+ * Hook that keeps URL playback state in sync over LiveKit data messages.
+ * Every client plays the media locally, only play/pause/seek/rate changes travel over the wire.
+ * When the controller leaves, the next participant allowed to control playback takes over.
+ */
+export function useSyncedPlayback(): SyncedPlayback {
+  const room = useRoomContext();
+  const { localParticipant } = useLocalParticipant();
+  const remoteParticipants = useRemoteParticipants();
+  const [snapshot, setSnapshotState] = React.useState<PlaybackSnapshot | null>(null);
+  const snapshotRef = React.useRef<PlaybackSnapshot | null>(null);
+  const latestVersionRef = React.useRef<SyncVersion | null>(null);
+  const [seekTarget, setSeekTarget] = React.useState<SyncedPlayback['seekTarget']>(null);
+  const [seekRequest, setSeekRequest] = React.useState<SeekRequest | null>(null);
+
+  const setSnapshot = React.useCallback((next: PlaybackSnapshot | null) => {
+    snapshotRef.current = next;
+    setSnapshotState(next);
+  }, []);
+
+  const { send } = useJsonDataChannel<PlaybackMessage>(PLAYBACK_TOPIC, (message, from) => {
+    if (message.type === 'seekRequest') {
+      const current = snapshotRef.current;
+      if (
+        from &&
+        current?.state.controller === localParticipant.identity &&
+        current.state.url === message.url &&
+        Number.isFinite(message.position) &&
+        message.position >= 0
+      ) {
+        setSeekRequest({ position: message.position, name: from.name || from.identity });
+      }
+      return;
+    }
+    // Only the controller drives playback for everyone else, and only while it's allowed to.
+    // A client without any state yet also takes it from whoever else may control playback.
+    const controller = message.type === 'state' ? message.state.controller : message.controller;
+    const version = message.type === 'state' ? message.state.version : message.version;
+    const fromPublisher =
+      canControlPlayback(from) && (from?.identity === controller || !latestVersionRef.current);
+    if (!from || !shouldApplySyncedState(version, latestVersionRef.current, fromPublisher)) {
+      return;
+    }
+    latestVersionRef.current = version;
+    setSnapshot(message.type === 'state' ? { state: message.state, receivedAt: Date.now() } : null);
+  });
+
+  const broadcast = React.useCallback(
+    (message: PlaybackMessage, destinationIdentities?: string[]) => {
+      send(message, { destinationIdentities }).catch((error) =>
+        console.error('Failed to send playback update', error),
+      );
+    },
+    [send],
+  );
+
+  const isController = snapshot?.state.controller === localParticipant.identity;
+
+  const nextVersion = React.useCallback(() => {
+    latestVersionRef.current = nextSyncVersion(latestVersionRef.current, localParticipant.identity);
+    return latestVersionRef.current;
+  }, [localParticipant]);
+
+  const load = React.useCallback(
+    (url: string) => {
+      const state: PlaybackState = {
+        url,
+        playing: false,
+        position: 0,
+        rate: 1,
+        controller: localParticipant.identity,
+        version: nextVersion(),
+      };
+      setSnapshot({ state, receivedAt: Date.now() });
+      setSeekTarget(null);
+      setSeekRequest(null);
+      broadcast({ type: 'state', state });
+    },
+    [localParticipant, nextVersion, broadcast, setSnapshot],
+  );
+
+  const stop = React.useCallback(() => {
+    setSnapshot(null);
+    broadcast({ type: 'stop', version: nextVersion(), controller: localParticipant.identity });
+  }, [localParticipant, nextVersion, broadcast, setSnapshot]);
+
+  const publish = React.useCallback(
+    (update: Pick<PlaybackState, 'playing' | 'position' | 'rate'>) => {
+      const current = snapshotRef.current;
+      if (!current || current.state.controller !== localParticipant.identity) {
+        return;
+      }
+      const state: PlaybackState = { ...current.state, ...update, version: nextVersion() };
+      setSnapshot({ state, receivedAt: Date.now() });
+      broadcast({ type: 'state', state });
+    },
+    [localParticipant, nextVersion, broadcast, setSnapshot],
+  );
+
+  const seekTo = React.useCallback(
+    (position: number) => {
+      const current = snapshotRef.current;
+      if (!current) {
+        return;
+      }
+      if (current.state.controller === localParticipant.identity) {
+        // The player seeks and publishes the new position like any other seek
+        setSeekTarget((previous) => ({ position, id: (previous?.id ?? 0) + 1 }));
+        return;
+      }
+      send(
+        { type: 'seekRequest', url: current.state.url, position },
+        { destinationIdentities: [current.state.controller] },
+      ).catch((error) => console.error('Failed to send seek request', error));
+    },
+    [localParticipant, send],
+  );
+
+  const answerSeekRequest = React.useCallback(
+    (accept: boolean) => {
+      if (accept && seekRequest) {
+        seekTo(seekRequest.position);
+      }
+      setSeekRequest(null);
+    },
+    [seekRequest, seekTo],
+  );
+
+  // Late joiners, the controller itself after a reload included, get the current state directly
+  // instead of waiting for the next heartbeat
+  React.useEffect(() => {
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      const current = snapshotRef.current;
+      if (!current) {
+        return;
+      }
+      const identities = [localParticipant, ...room.remoteParticipants.values()]
+        .filter((p) => p.identity !== participant.identity && canControlPlayback(p))
+        .map((p) => p.identity);
+      if (pickResponder(identities, current.state.controller) !== localParticipant.identity) {
+        return;
+      }
+      const state: PlaybackState = {
+        ...current.state,
+        position: expectedPosition(current, Date.now()),
+      };
+      broadcast({ type: 'state', state }, [participant.identity]);
+    };
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    return () => {
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    };
+  }, [room, localParticipant, broadcast]);
+
+  // Playback would stay frozen for everyone once the controller leaves, hand it over instead
+  React.useEffect(() => {
+    if (!snapshot) {
+      return;
+    }
+    const { controller } = snapshot.state;
+    if (
+      controller === localParticipant.identity ||
+      remoteParticipants.some((p) => p.identity === controller)
+    ) {
+      return;
+    }
+    const candidates = [localParticipant, ...remoteParticipants]
+      .filter(canControlPlayback)
+      .map((p) => p.identity);
+    if (pickResponder(candidates) !== localParticipant.identity) {
+      return;
+    }
+    const state: PlaybackState = {
+      ...snapshot.state,
+      position: expectedPosition(snapshot, Date.now()),
+      controller: localParticipant.identity,
+      version: nextVersion(),
+    };
+    setSnapshot({ state, receivedAt: Date.now() });
+    broadcast({ type: 'state', state });
+  }, [snapshot, remoteParticipants, localParticipant, nextVersion, broadcast, setSnapshot]);
+
+  return {
+    snapshot,
+    isController,
+    load,
+    stop,
+    publish,
+    seekTarget,
+    seekTo,
+    seekRequest: isController ? seekRequest : null,
+    answerSeekRequest,
+  };
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React from 'react';
+import { DisconnectReason, Room, RoomConnectOptions, RoomEvent } from 'livekit-client';
+import { fetchWithToken, readApiError } from './apiClient';
+import { DEFAULT_ROLE, getRoleCapabilities } from './roles';
+import {
+  getRefreshDelay,
+  MAX_REJOIN_ATTEMPTS,
+  REJOIN_RETRY_DELAY_MS,
+  shouldRejoin,
+} from './tokenRefresh';
+import { ConnectionDetails, RefreshedToken } from './types';
+
+const CONN_DETAILS_ENDPOINT =
+  process.env.NEXT_PUBLIC_CONN_DETAILS_ENDPOINT ?? '/api/connection-details';
+
+/** A failed refresh is retried after this long, as long as the token is still valid */
+const TOKEN_REFRESH_RETRY_MS = 10_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Keeps the participant token of a long running session fresh. The token is refreshed
+ * shortly before it expires, and when the connection is lost for good the room is
+ * rejoined with a new token instead of sending the user back to `PreJoin`.
+ * `onLeave` is called once the session really ended.
+ */
+export function useTokenRefresh(
+  room: Room,
+  initialDetails: ConnectionDetails,
+  options: { connectOptions?: RoomConnectOptions; onLeave: () => void },
+) {
+  const [connectionDetails, setConnectionDetails] = React.useState(initialDetails);
+  const detailsRef = React.useRef(initialDetails);
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  const refresh = React.useCallback(async (): Promise<ConnectionDetails> => {
+    const current = detailsRef.current;
+    const response = await fetchWithToken(
+      `${CONN_DETAILS_ENDPOINT}/refresh?${new URLSearchParams({ roomName: current.roomName })}`,
+      current.participantToken,
+      { method: 'POST' },
+    );
+    if (!response.ok) {
+      throw new Error(await readApiError(response));
+    }
+    const refreshed: RefreshedToken = await response.json();
+    const next = { ...detailsRef.current, ...refreshed };
+    detailsRef.current = next;
+    setConnectionDetails(next);
+    return next;
+  }, []);
+
+  // Refresh ahead of expiry, every new token schedules the next refresh
+  const token = connectionDetails.participantToken;
+  React.useEffect(() => {
+    const delay = getRefreshDelay(token);
+    if (delay === undefined) {
+      return;
+    }
+    let timeout: ReturnType<typeof setTimeout>;
+    const schedule = (ms: number) => {
+      timeout = setTimeout(() => {
+        refresh().catch((error) => {
+          console.warn('Failed to refresh participant token', error);
+          schedule(TOKEN_REFRESH_RETRY_MS);
+        });
+      }, ms);
+    };
+    schedule(delay);
+    return () => clearTimeout(timeout);
+  }, [token, refresh]);
+
+  // Remember which devices were on while LiveKit still tries to resume the connection,
+  // they are turned back on after rejoining
+  const mediaRef = React.useRef<{ camera: boolean; microphone: boolean } | undefined>(undefined);
+  const rejoiningRef = React.useRef(false);
+  React.useEffect(() => {
+    const handleReconnecting = () => {
+      mediaRef.current = {
+        camera: room.localParticipant.isCameraEnabled,
+        microphone: room.localParticipant.isMicrophoneEnabled,
+      };
+    };
+    const handleReconnected = () => {
+      mediaRef.current = undefined;
+    };
+
+    const rejoin = async () => {
+      const media = mediaRef.current;
+      for (let attempt = 1; attempt <= MAX_REJOIN_ATTEMPTS; attempt++) {
+        try {
+          const details = await refresh();
+          await room.connect(
+            details.serverUrl,
+            details.participantToken,
+            optionsRef.current.connectOptions,
+          );
+          const { canPublishMedia } = getRoleCapabilities(details.participantRole ?? DEFAULT_ROLE);
+          if (media?.camera && canPublishMedia) {
+            await room.localParticipant.setCameraEnabled(true);
+          }
+          if (media?.microphone && canPublishMedia) {
+            await room.localParticipant.setMicrophoneEnabled(true);
+          }
+          return true;
+        } catch (error) {
+          console.warn(`Rejoin attempt ${attempt} failed`, error);
+          await sleep(REJOIN_RETRY_DELAY_MS);
+        }
+      }
+      return false;
+    };
+
+    const handleDisconnected = (reason?: DisconnectReason) => {
+      // failed connection attempts while rejoining disconnect again, the loop handles those
+      if (rejoiningRef.current) {
+        return;
+      }
+      if (!shouldRejoin(reason)) {
+        optionsRef.current.onLeave();
+        return;
+      }
+      rejoiningRef.current = true;
+      rejoin().then((rejoined) => {
+        rejoiningRef.current = false;
+        mediaRef.current = undefined;
+        if (!rejoined) {
+          optionsRef.current.onLeave();
+        }
+      });
+    };
+
+    room.on(RoomEvent.Reconnecting, handleReconnecting);
+    room.on(RoomEvent.Reconnected, handleReconnected);
+    room.on(RoomEvent.Disconnected, handleDisconnected);
+    return () => {
+      room.off(RoomEvent.Reconnecting, handleReconnecting);
+      room.off(RoomEvent.Reconnected, handleReconnected);
+      room.off(RoomEvent.Disconnected, handleDisconnected);
+    };
+  }, [room, refresh]);
+
+  return { connectionDetails, refresh };
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import React from 'react';
+import { useRemoteParticipants, useSpeakingParticipants } from '@livekit/components-react';
+import { Track } from 'livekit-client';
+import {
+  DEFAULT_VOLUME_SETTINGS,
+  getContentVolume,
+  getParticipantVolume,
+  getVolumeKey,
+  loadVolumeSettings,
+  saveVolumeSettings,
+  VolumeSettings,
+  withParticipantVolume,
+} from './volumeSettings';
+
+export interface VolumeControls {
+  settings: VolumeSettings;
+  /** Content volume after ducking, applied to screen share audio and URL playback */
+  effectiveContentVolume: number;
+  /** Sets the voice volume of a participant, by {@link getVolumeKey} */
+  setParticipantVolume: (key: string, volume: number) => void;
+  setContentVolume: (volume: number) => void;
+  setDucking: (ducking: boolean) => void;
+}
+
+const VolumeControlsContext = React.createContext<VolumeControls | undefined>(undefined);
+
+export const VolumeControlsProvider = VolumeControlsContext.Provider;
+
+export function useVolumeControlsContext() {
+  return React.useContext(VolumeControlsContext);
+}
+
+/**
+ * Per-participant voice volume and content master volume, persisted in localStorage.
+ * Participant volumes are remembered by display name, so they carry over to later sessions.
+ * Volumes are applied to remote participants directly, so they also cover tracks that
+ * get subscribed later.
+ */
+export function useVolumeSettings(): VolumeControls {
+  const [settings, setSettings] = React.useState<VolumeSettings>(DEFAULT_VOLUME_SETTINGS);
+  const remoteParticipants = useRemoteParticipants();
+  const speakingParticipants = useSpeakingParticipants();
+
+  React.useEffect(() => {
+    setSettings(loadVolumeSettings(window.localStorage));
+  }, []);
+
+  const update = React.useCallback((updater: (current: VolumeSettings) => VolumeSettings) => {
+    setSettings((current) => {
+      const next = updater(current);
+      saveVolumeSettings(window.localStorage, next);
+      return next;
+    });
+  }, []);
+
+  const someoneTalking = speakingParticipants.some((participant) => !participant.isLocal);
+  const effectiveContentVolume = getContentVolume(settings, someoneTalking);
+
+  React.useEffect(() => {
+    for (const participant of remoteParticipants) {
+      participant.setVolume(
+        getParticipantVolume(settings, getVolumeKey(participant)),
+        Track.Source.Microphone,
+      );
+      participant.setVolume(effectiveContentVolume, Track.Source.ScreenShareAudio);
+    }
+  }, [remoteParticipants, settings, effectiveContentVolume]);
+
+  return {
+    settings,
+    effectiveContentVolume,
+    setParticipantVolume: React.useCallback(
+      (key: string, volume: number) =>
+        update((current) => withParticipantVolume(current, key, volume)),
+      [update],
+    ),
+    setContentVolume: React.useCallback(
+      (content: number) => update((current) => ({ ...current, content })),
+      [update],
+    ),
+    setDucking: React.useCallback(
+      (ducking: boolean) => update((current) => ({ ...current, ducking })),
+      [update],
+    ),
+  };
+}
@@ -0,0 +1,486 @@
+'use client';
+
+import React from 'react';
+import { useChat, useLocalParticipant, useRoomContext } from '@livekit/components-react';
+import { Participant, RoomEvent } from 'livekit-client';
+import toast from 'react-hot-toast';
+import {
+  ChatEntry,
+  ChatMention,
+  ChatMessagePayload,
+  getMentions,
+  getSenderName,
+  mergeChatMessages,
+  parseChatPayload,
+} from './chat';
+import { getUnreadSummary, UnreadSummary } from './chatActivity';
+import {
+  getAttachmentFallbackText,
+  ReceivedChatAttachment,
+  validateChatAttachment,
+} from './chatAttachments';
+import { getSentMentions } from './chatFormatting';
+import {
+  applyPendingChatEvents,
+  CHAT_EVENTS_TOPIC,
+  CHAT_PROTOCOL_VERSION,
+  ChatEvent,
+  ChatEventSender,
+  ChatMessageStates,
+  EMPTY_CHAT_EVENT_LOG,
+  getChatMessageState,
+  hasReacted,
+  parseChatEvent,
+  receiveChatEvent,
+} from './chatEvents';
+import { ChatPolicy, checkChatSend, hideMutedMessages, maskBlockedWords } from './chatModeration';
+import { ChatSystemEvent } from './chatTranscript';
+import type { ReactionEmoji } from './reactions';
+import { expectedPosition, PlaybackSnapshot } from './playbackSync';
+import { getParticipantRole, getRoleCapabilities } from './roles';
+import { useChatAttachments } from './useChatAttachments';
+import { useChatHistory } from './useChatHistory';
+import { useChatPolicy } from './useChatPolicy';
+import { useChatTyping } from './useChatTyping';
+import { useJsonDataChannel } from './useJsonDataChannel';
+import { useRoleCapabilities } from './useParticipantRole';
+
+export interface WatchPartyChat {
+  /** Replayed history merged with the live messages, oldest first */
+  messages: ChatEntry[];
+  isSending: boolean;
+  input: string;
+  setInput: React.Dispatch<React.SetStateAction<string>>;
+  replyingTo: ChatEntry | null;
+  setReplyingTo: (entry: ChatEntry | null) => void;
+  /** Sends the current input if the chat policy allows it, returns whether a message was sent */
+  sendMessage: () => Promise<boolean>;
+  /** Why the last message was refused, cleared once a message goes out */
+  sendError: string | null;
+  /** Chat rules of the room, set by its hosts */
+  policy: ChatPolicy;
+  /** Reactions, edits and deletions applied to the messages, by message id */
+  messageStates: ChatMessageStates;
+  /** Whether the local participant can delete everyone's messages */
+  canModerate: boolean;
+  /** Adds the local participant's reaction to a message, or takes it back */
+  toggleReaction: (id: string, emoji: ReactionEmoji) => void;
+  /** Replaces the text of one of the local participant's messages, returns whether it was sent */
+  editMessage: (id: string, text: string) => boolean;
+  /** Deletes a message on every client, allowed for its author and moderators */
+  deleteMessage: (id: string) => void;
+  /** Records a participant picked from the @mention autocomplete for the current draft */
+  addMention: (mention: ChatMention) => void;
+  /** Joins, leaves and recordings since the local participant joined, for transcripts */
+  systemEvents: ChatSystemEvent[];
+  /** Messages that arrived while the panel was closed or the tab in the background */
+  unread: UnreadSummary;
+  /** First message that arrived while away, the "last read" divider goes above it */
+  lastReadDividerId: string | null;
+  /** Names of the other participants typing a message */
+  typing: string[];
+  /** Images shared in the chat with their senders, by attachment id */
+  attachments: Record<string, ReceivedChatAttachment>;
+  /** Image going out with the next message */
+  pendingAttachment: PendingAttachment | null;
+  /** Upload progress of the image being sent, from 0 to 1 */
+  uploadProgress: number | null;
+  /** Attaches a pasted or dropped image to the draft, returns whether it's allowed */
+  attachFile: (file: File) => boolean;
+  removeAttachment: () => void;
+  toggleAttachmentSpoiler: () => void;
+}
+
+export interface PendingAttachment {
+  file: File;
+  /** Object URL for the preview */
+  previewUrl: string;
+  spoiler: boolean;
+}
+
+/** Most system events kept for the transcript */
+const MAX_SYSTEM_EVENTS = 500;
+
+/**
+ * Chat state of a WatchParty room. Kept above the chat panel so messages and drafts
+ * survive the panel being closed or the layout switching between gallery and cinema mode.
+ * The room's chat policy is checked here, before anything is sent.
+ *
+ * @param visible whether the chat panel is open. While it's closed mentions show a toast,
+ * and new messages count as unread, as they do while the tab is in the background.
+ * @param playback shared URL playback, messages sent while a video is loaded carry its position
+ */
+export function useWatchPartyChat({
+  visible = true,
+  playback = null,
+}: { visible?: boolean; playback?: PlaybackSnapshot | null } = {}): WatchPartyChat {
+  const room = useRoomContext();
+  const { chatMessages, send, isSending } = useChat();
+  const {
+    history,
+    states: historyStates,
+    loaded: historyLoaded,
+    persist,
+    persistEvent,
+    remove,
+  } = useChatHistory();
+  const { localParticipant } = useLocalParticipant();
+  const canModerate = useRoleCapabilities(localParticipant).canModerate;
+  const policy = useChatPolicy();
+  const [input, setInput] = React.useState('');
+  const [replyingTo, setReplyingTo] = React.useState<ChatEntry | null>(null);
+  const [sendError, setSendError] = React.useState<string | null>(null);
+  const [eventLog, setEventLog] = React.useState(EMPTY_CHAT_EVENT_LOG);
+  const lastSentAtRef = React.useRef<number>();
+  const [pickedMentions, setPickedMentions] = React.useState<ChatMention[]>([]);
+  const notifiedRef = React.useRef(new Set<string>());
+  const [systemEvents, setSystemEvents] = React.useState<ChatSystemEvent[]>([]);
+  const pageVisible = usePageVisible();
+  const isReading = visible && pageVisible;
+  /** Messages present when the local participant stopped reading, `null` while reading */
+  const [readIds, setReadIds] = React.useState<ReadonlySet<string> | null>(null);
+  const [lastReadDividerId, setLastReadDividerId] = React.useState<string | null>(null);
+  const typing = useChatTyping(input);
+  const attachments = useChatAttachments(policy);
+  const [pendingAttachment, setPendingAttachment] = React.useState<PendingAttachment | null>(null);
+
+  const allMessages = React.useMemo(
+    () => mergeChatMessages(history, chatMessages),
+    [history, chatMessages],
+  );
+  const authors = React.useMemo(
+    () => new Map(allMessages.map((entry) => [entry.id, entry.from?.identity])),
+    [allMessages],
+  );
+  const authorsRef = React.useRef(authors);
+  authorsRef.current = authors;
+  const historyLoadedRef = React.useRef(historyLoaded);
+  historyLoadedRef.current = historyLoaded;
+  const messageStates = eventLog.states;
+
+  // Events wait until the replayed history is in, then apply on top of its persisted states
+  React.useEffect(() => {
+    if (historyLoaded) {
+      setEventLog((log) => ({ ...log, states: { ...historyStates, ...log.states } }));
+    }
+  }, [historyLoaded, historyStates]);
+
+  // Events received before their message apply once it arrives
+  React.useEffect(() => {
+    if (historyLoaded) {
+      setEventLog((log) => applyPendingChatEvents(log, authors));
+    }
+  }, [historyLoaded, authors]);
+
+  const messages = React.useMemo(
+    () =>
+      hideMutedMessages(
+        allMessages.filter((entry) => !messageStates[entry.id]?.deleted),
+        policy,
+        localParticipant.identity,
+      ),
+    [allMessages, messageStates, policy, localParticipant.identity],
+  );
+
+  const apply = React.useCallback(
+    (event: ChatEvent, sender: ChatEventSender) =>
+      setEventLog((log) =>
+        receiveChatEvent(
+          log,
+          { event, sender },
+          historyLoadedRef.current ? authorsRef.current : new Map(),
+        ),
+      ),
+    [],
+  );
+
+  const { send: sendEvent } = useJsonDataChannel<ChatEvent>(CHAT_EVENTS_TOPIC, (message, from) => {
+    const event = parseChatEvent(message);
+    if (!event || !from) {
+      return;
+    }
+    apply(event, {
+      identity: from.identity,
+      name: getSenderName(from),
+      isModerator: getRoleCapabilities(getParticipantRole(from)).canModerate,
+    });
+  });
+
+  const publish = React.useCallback(
+    (event: ChatEvent) => {
+      apply(event, {
+        identity: localParticipant.identity,
+        name: getSenderName(localParticipant),
+        isModerator: canModerate,
+      });
+      sendEvent(event).catch((error) => console.error('Failed to send chat event', error));
+      if (event.type !== 'delete') {
+        persistEvent(event);
+      }
+    },
+    [apply, sendEvent, persistEvent, localParticipant, canModerate],
+  );
+
+  const toggleReaction = React.useCallback(
+    (id: string, emoji: ReactionEmoji) => {
+      const reacted = getChatMessageState(messageStates, id).reactions.some(
+        (reaction) => reaction.emoji === emoji && hasReacted(reaction, localParticipant.identity),
+      );
+      publish({
+        v: CHAT_PROTOCOL_VERSION,
+        messageId: id,
+        type: 'reaction',
+        emoji,
+        action: reacted ? 'remove' : 'add',
+      });
+    },
+    [messageStates, localParticipant, publish],
+  );
+
+  const editMessage = (id: string, text: string) => {
+    if (!text.trim() || authorsRef.current.get(id) !== localParticipant.identity) {
+      return false;
+    }
+    // Edits follow the chat policy like new messages, except for slow mode
+    const check = checkChatSend(
+      policy,
+      { identity: localParticipant.identity, isModerator: canModerate },
+      text,
+      undefined,
+      Date.now(),
+    );
+    if (!check.allowed) {
+      setSendError(check.message);
+      return false;
+    }
+    setSendError(null);
+    publish({
+      v: CHAT_PROTOCOL_VERSION,
+      messageId: id,
+      type: 'edit',
+      text: text.trim(),
+      editedAt: Date.now(),
+    });
+    return true;
+  };
+
+  const deleteMessage = React.useCallback(
+    (id: string) => {
+      if (!canModerate && authorsRef.current.get(id) !== localParticipant.identity) {
+        return;
+      }
+      publish({ v: CHAT_PROTOCOL_VERSION, messageId: id, type: 'delete' });
+      remove(id);
+    },
+    [canModerate, localParticipant, publish, remove],
+  );
+
+  const unread = React.useMemo(
+    () =>
+      readIds
+        ? getUnreadSummary(messages, readIds, localParticipant.identity)
+        : { count: 0, mentions: 0, firstUnreadId: null },
+    [messages, readIds, localParticipant.identity],
+  );
+  const messagesRef = React.useRef(messages);
+  messagesRef.current = messages;
+  const unreadRef = React.useRef(unread);
+  unreadRef.current = unread;
+
+  React.useEffect(() => {
+    if (isReading) {
+      // Back to the chat, mark where the messages missed meanwhile start
+      setLastReadDividerId(unreadRef.current.firstUnreadId);
+      setReadIds(null);
+    } else {
+      setReadIds(new Set(messagesRef.current.map((entry) => entry.id)));
+    }
+  }, [isReading]);
+
+  React.useEffect(() => {
+    if (pageVisible || unread.count === 0) return;
+    const title = document.title;
+    document.title = `(${unread.count}) ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [pageVisible, unread.count]);
+
+  const attachFile = (file: File) => {
+    const error =
+      validateChatAttachment(file) ??
+      (policy.attachmentsDisabled && !canModerate
+        ? 'A host has turned off images in this chat'
+        : null);
+    if (error) {
+      setSendError(error);
+      return false;
+    }
+    setSendError(null);
+    setPendingAttachment((current) => {
+      if (current) URL.revokeObjectURL(current.previewUrl);
+      return { file, previewUrl: URL.createObjectURL(file), spoiler: false };
+    });
+    return true;
+  };
+
+  const removeAttachment = React.useCallback(
+    () =>
+      setPendingAttachment((current) => {
+        if (current) URL.revokeObjectURL(current.previewUrl);
+        return null;
+      }),
+    [],
+  );
+
+  const toggleAttachmentSpoiler = React.useCallback(
+    () => setPendingAttachment((current) => current && { ...current, spoiler: !current.spoiler }),
+    [],
+  );
+
+  const sendMessage = async () => {
+    if ((!input.trim() && !pendingAttachment) || isSending || attachments.uploadProgress !== null) {
+      return false;
+    }
+    const now = Date.now();
+    const check = checkChatSend(
+      policy,
+      { identity: localParticipant.identity, isModerator: canModerate },
+      input,
+      lastSentAtRef.current,
+      now,
+      !!pendingAttachment,
+    );
+    if (!check.allowed) {
+      setSendError(check.message);
+      return false;
+    }
+    const payload: ChatMessagePayload = {
+      v: CHAT_PROTOCOL_VERSION,
+      text: input.trim(),
+    };
+    if (pendingAttachment) {
+      try {
+        payload.attachment = await attachments.send(
+          pendingAttachment.file,
+          pendingAttachment.spoiler,
+        );
+      } catch (error) {
+        console.error('Failed to send chat image', error);
+        setSendError('The image could not be sent');
+        return false;
+      }
+      payload.text ||= getAttachmentFallbackText(payload.attachment);
+      removeAttachment();
+    }
+    if (playback) {
+      payload.position = { url: playback.state.url, seconds: expectedPosition(playback, now) };
+    }
+    const mentions = getSentMentions(payload.text, pickedMentions);
+    if (mentions.length > 0) {
+      payload.mentions = mentions;
+    }
+
+    if (replyingTo) {
+      payload.replyTo = {
+        id: replyingTo.id,
+        sender: getSenderName(replyingTo.from),
+        text: parseChatPayload(replyingTo.message).text,
+      };
+    }
+
+    const sent = await send(JSON.stringify(payload));
+    lastSentAtRef.current = now;
+    persist(sent);
+    setInput('');
+    setReplyingTo(null);
+    setSendError(null);
+    setPickedMentions([]);
+    return true;
+  };
+
+  const addMention = React.useCallback(
+    (mention: ChatMention) => setPickedMentions((current) => [...current, mention]),
+    [],
+  );
+
+  // Live messages only, replayed history must not notify again
+  React.useEffect(() => {
+    for (const entry of chatMessages) {
+      if (notifiedRef.current.has(entry.id)) continue;
+      notifiedRef.current.add(entry.id);
+      if (visible || entry.from?.identity === localParticipant.identity) continue;
+      const payload = parseChatPayload(entry.message);
+      if (getMentions(payload).some((m) => m.identity === localParticipant.identity)) {
+        toast(
+          `${getSenderName(entry.from)} mentioned you: ${maskBlockedWords(payload.text, policy.blockedWords)}`,
+          {
+            duration: 5000,
+            icon: '💬',
+            position: 'top-center',
+            className: 'lk-button',
+          },
+        );
+      }
+    }
+  }, [chatMessages, visible, localParticipant.identity, policy.blockedWords]);
+
+  React.useEffect(() => {
+    const record = (text: string) => {
+      const timestamp = Date.now();
+      const event = { id: `${timestamp}-${Math.random().toString(36).slice(2)}`, timestamp, text };
+      setSystemEvents((current) => [...current, event].slice(-MAX_SYSTEM_EVENTS));
+    };
+    const handleConnected = (p: Participant) => record(`${getSenderName(p)} joined`);
+    const handleDisconnected = (p: Participant) => record(`${getSenderName(p)} left`);
+    const handleRecording = (recording: boolean) =>
+      record(recording ? 'Recording started' : 'Recording ended');
+    room.on(RoomEvent.ParticipantConnected, handleConnected);
+    room.on(RoomEvent.ParticipantDisconnected, handleDisconnected);
+    room.on(RoomEvent.RecordingStatusChanged, handleRecording);
+    return () => {
+      room.off(RoomEvent.ParticipantConnected, handleConnected);
+      room.off(RoomEvent.ParticipantDisconnected, handleDisconnected);
+      room.off(RoomEvent.RecordingStatusChanged, handleRecording);
+    };
+  }, [room]);
+
+  return {
+    messages,
+    isSending,
+    input,
+    setInput,
+    replyingTo,
+    setReplyingTo,
+    sendMessage,
+    sendError,
+    policy,
+    messageStates,
+    canModerate,
+    toggleReaction,
+    editMessage,
+    deleteMessage,
+    addMention,
+    systemEvents,
+    unread,
+    lastReadDividerId,
+    typing,
+    attachments: attachments.states,
+    pendingAttachment,
+    uploadProgress: attachments.uploadProgress,
+    attachFile,
+    removeAttachment,
+    toggleAttachmentSpoiler,
+  };
+}
+
+function usePageVisible() {
+  const [pageVisible, setPageVisible] = React.useState(true);
+  React.useEffect(() => {
+    const update = () => setPageVisible(document.visibilityState === 'visible');
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, []);
+  return pageVisible;
+}
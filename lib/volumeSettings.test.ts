@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_VOLUME_SETTINGS,
+  DUCKING_FACTOR,
+  getContentVolume,
+  getParticipantVolume,
+  getVolumeKey,
+  loadVolumeSettings,
+  MAX_PARTICIPANT_VOLUMES,
+  saveVolumeSettings,
+  VOLUME_STORAGE_KEY,
+  withParticipantVolume,
+} from './volumeSettings';
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+describe('volume settings', () => {
+  it('round-trips settings per participant', () => {
+    const storage = memoryStorage();
+    const settings = { participants: { Alice: 0.4 }, content: 0.8, ducking: true };
+    saveVolumeSettings(storage, settings);
+    const loaded = loadVolumeSettings(storage);
+    expect(loaded).toEqual(settings);
+    expect(getParticipantVolume(loaded, 'Alice')).toBe(0.4);
+    expect(getParticipantVolume(loaded, 'Bob')).toBe(1);
+  });
+
+  it('keys volumes by display name, which outlives the identity', () => {
+    expect(getVolumeKey({ identity: 'alice__ab12', name: 'Alice' })).toBe('Alice');
+    expect(getVolumeKey({ identity: 'alice__zz99', name: 'Alice' })).toBe('Alice');
+    expect(getVolumeKey({ identity: 'anonymous__ab12', name: '' })).toBe('anonymous__ab12');
+  });
+
+  it('forgets the least recently changed volumes beyond the limit', () => {
+    let settings = DEFAULT_VOLUME_SETTINGS;
+    for (let i = 0; i <= MAX_PARTICIPANT_VOLUMES; i++) {
+      settings = withParticipantVolume(settings, `p${i}`, 0.5);
+    }
+    settings = withParticipantVolume(settings, 'p1', 0.2);
+    settings = withParticipantVolume(settings, 'new', 0.3);
+    const keys = Object.keys(settings.participants);
+    expect(keys).toHaveLength(MAX_PARTICIPANT_VOLUMES);
+    expect(keys).not.toContain('p0');
+    expect(keys).not.toContain('p2');
+    expect(keys.slice(-2)).toEqual(['p1', 'new']);
+  });
+
+  it('clamps and ignores invalid stored values', () => {
+    const storage = memoryStorage({
+      [VOLUME_STORAGE_KEY]: JSON.stringify({ participants: { a: 3, b: 'loud' }, content: -1 }),
+    });
+    expect(loadVolumeSettings(storage)).toEqual({
+      participants: { a: 1, b: 1 },
+      content: 0,
+      ducking: false,
+    });
+    expect(loadVolumeSettings(memoryStorage({ [VOLUME_STORAGE_KEY]: '{' }))).toEqual(
+      DEFAULT_VOLUME_SETTINGS,
+    );
+  });
+
+  it('ducks the content only while someone is talking', () => {
+    const settings = { ...DEFAULT_VOLUME_SETTINGS, content: 0.5, ducking: true };
+    expect(getContentVolume(settings, false)).toBe(0.5);
+    expect(getContentVolume(settings, true)).toBe(0.5 * DUCKING_FACTOR);
+    expect(getContentVolume({ ...settings, ducking: false }, true)).toBe(0.5);
+  });
+});
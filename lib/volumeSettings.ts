@@ -0,0 +1,92 @@
+export const VOLUME_STORAGE_KEY = 'watchparty.volume';
+
+/** Content volume is multiplied by this factor while someone is talking and ducking is on */
+export const DUCKING_FACTOR = 0.3;
+
+/** Number of participant volumes remembered, the least recently changed ones are forgotten */
+export const MAX_PARTICIPANT_VOLUMES = 100;
+
+export interface VolumeSettings {
+  /**
+   * Voice volume per participant, between 0 and 1, keyed by {@link getVolumeKey}.
+   * Least recently changed first.
+   */
+  participants: Record<string, number>;
+  /** Master volume of the shared content (screen share audio or URL playback) */
+  content: number;
+  /** Lower the content volume while someone is talking */
+  ducking: boolean;
+}
+
+export const DEFAULT_VOLUME_SETTINGS: VolumeSettings = {
+  participants: {},
+  content: 1,
+  ducking: false,
+};
+
+function clampVolume(volume: unknown, fallback: number): number {
+  return typeof volume === 'number' && Number.isFinite(volume)
+    ? Math.min(Math.max(volume, 0), 1)
+    : fallback;
+}
+
+export function loadVolumeSettings(storage: Pick<Storage, 'getItem'> | undefined): VolumeSettings {
+  try {
+    const stored = JSON.parse(storage?.getItem(VOLUME_STORAGE_KEY) ?? '{}');
+    const participants: Record<string, number> = {};
+    if (stored?.participants && typeof stored.participants === 'object') {
+      for (const [key, volume] of Object.entries(stored.participants).slice(
+        -MAX_PARTICIPANT_VOLUMES,
+      )) {
+        participants[key] = clampVolume(volume, 1);
+      }
+    }
+    return {
+      participants,
+      content: clampVolume(stored?.content, DEFAULT_VOLUME_SETTINGS.content),
+      ducking:
+        typeof stored?.ducking === 'boolean' ? stored.ducking : DEFAULT_VOLUME_SETTINGS.ducking,
+    };
+  } catch {
+    return DEFAULT_VOLUME_SETTINGS;
+  }
+}
+
+export function saveVolumeSettings(storage: Pick<Storage, 'setItem'>, settings: VolumeSettings) {
+  storage.setItem(VOLUME_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Key a participant's volume is stored under. Identities change whenever the identity cookie
+ * expires, display names stay the same across sessions.
+ */
+export function getVolumeKey(participant: { identity: string; name?: string }): string {
+  return participant.name || participant.identity;
+}
+
+export function getParticipantVolume(settings: VolumeSettings, key: string): number {
+  return settings.participants[key] ?? 1;
+}
+
+/** Stores a participant volume, forgetting the oldest ones beyond the limit */
+export function withParticipantVolume(
+  settings: VolumeSettings,
+  key: string,
+  volume: number,
+): VolumeSettings {
+  // re-inserted, so the key moves to the end as the most recently changed one
+  const participants = { ...settings.participants };
+  delete participants[key];
+  participants[key] = volume;
+  return {
+    ...settings,
+    participants: Object.fromEntries(Object.entries(participants).slice(-MAX_PARTICIPANT_VOLUMES)),
+  };
+}
+
+/**
+ * Effective content volume, ducked while voice chat is active.
+ */
+export function getContentVolume(settings: VolumeSettings, someoneTalking: boolean): number {
+  return settings.ducking && someoneTalking ? settings.content * DUCKING_FACTOR : settings.content;
+}
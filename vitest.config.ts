@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // same as the `@/*` path in tsconfig.json, used by the API routes
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+});